@@ -0,0 +1,186 @@
+// api/_lib/accounts.ts
+import { kv } from '@vercel/kv';
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { passwordPolicy, units } from './collections';
+import { can, isRole, roleHasUnit } from './permissions';
+import { verifyTotp } from './totp';
+import type { PasswordPolicy, User } from './types';
+
+// Why an account can't have this role and unit, or null if it can. Residents (and other roles tied to
+// a unit) must belong to one of the predefined units, which may have any number of residents; staff
+// aren't tied to a unit.
+export async function accountError(role: unknown, unitNo: unknown): Promise<string | null> {
+    if (!isRole(role)) return 'Please choose a valid role';
+    if (!roleHasUnit(role)) return null;
+    if (typeof unitNo !== 'string' || !unitNo) return `A ${role} needs a unit`;
+    return (await units.get(unitNo)) ? null : `There is no unit ${unitNo}`;
+}
+
+// --- CODES ---
+// Invite and recovery codes: eight characters with no 0/O or 1/I, so codes read out over the phone
+// or copied from paper come through intact.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+function randomCode(): string {
+    return Array.from({ length: 8 }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join('');
+}
+
+// Codes are shown as "ABCD-EFGH"; anything else the user types around them is ignored.
+function formatCode(code: string): string {
+    return `${code.slice(0, 4)}-${code.slice(4)}`;
+}
+
+export function normalizeCode(code: unknown): string {
+    return typeof code === 'string' ? code.toUpperCase().replace(/[^A-Z0-9]/g, '') : '';
+}
+
+// --- PASSWORD POLICY ---
+export function passwordPolicyError(policy: Partial<PasswordPolicy>): string | null {
+    const isCount = (value: unknown, min: number) => typeof value === 'number' && Number.isInteger(value) && value >= min;
+    if (!isCount(policy.minLength, 6) || policy.minLength! > 128) return 'The minimum password length must be between 6 and 128';
+    const flags = [policy.requireUppercase, policy.requireLowercase, policy.requireNumber, policy.requireSymbol, policy.requireTwoFactor];
+    if (!flags.every(flag => typeof flag === 'boolean')) return 'Requirements must be on or off';
+    if (!isCount(policy.maxFailedAttempts, 0)) return 'The number of failed logins before a lockout must be a whole number';
+    if (!isCount(policy.lockoutMinutes, 1)) return 'The lockout must last at least a minute';
+    return null;
+}
+
+// Why `password` isn't allowed, or null if it meets the policy.
+export function passwordError(policy: PasswordPolicy, password: string, username: string): string | null {
+    if (password.length < policy.minLength) return `Passwords must be at least ${policy.minLength} characters long`;
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) return 'Passwords must contain an upper-case letter';
+    if (policy.requireLowercase && !/[a-z]/.test(password)) return 'Passwords must contain a lower-case letter';
+    if (policy.requireNumber && !/[0-9]/.test(password)) return 'Passwords must contain a number';
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) return 'Passwords must contain a symbol';
+    if (username && password.toLowerCase().includes(username.toLowerCase())) return 'Passwords must not contain the username';
+    return null;
+}
+
+// --- LOGIN ATTEMPTS ---
+// Failures are counted per username, whether or not the account exists, so a lockout doesn't
+// reveal which usernames are real. The count expires once the lockout period passes without one.
+const failuresKey = (username: string) => `login:failures:${username.toLowerCase()}`;
+const lockKey = (username: string) => `login:locked:${username.toLowerCase()}`;
+
+// When the username's lockout ends (epoch milliseconds), or null if it isn't locked out.
+export async function lockedUntil(username: string): Promise<number | null> {
+    const until = await kv.get<number>(lockKey(username));
+    return until && until > Date.now() ? until : null;
+}
+
+// Counts a failed login and returns when the resulting lockout ends, if this failure started one.
+export async function recordFailedLogin(username: string, policy: PasswordPolicy): Promise<number | null> {
+    if (policy.maxFailedAttempts === 0) return null;
+    const lockoutMs = policy.lockoutMinutes * 60 * 1000;
+    const failures = await kv.incr(failuresKey(username));
+    if (failures === 1) await kv.pexpire(failuresKey(username), lockoutMs);
+    if (failures < policy.maxFailedAttempts) return null;
+
+    const until = Date.now() + lockoutMs;
+    await kv.set(lockKey(username), until, { px: lockoutMs });
+    await kv.del(failuresKey(username));
+    return until;
+}
+
+export async function clearFailedLogins(username: string) {
+    await kv.del(failuresKey(username), lockKey(username));
+}
+
+// --- INVITES ---
+// An invite lets a new user choose their own password. Codes work once, expire after a week, and
+// only the newest code issued for an account is valid.
+interface Invite { userId: number; createdBy: string; }
+
+const INVITE_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+const inviteKey = (code: string) => `invite:${code}`;
+const userInviteKey = (userId: number) => `invite:user:${userId}`;
+
+export async function createInvite(user: User, createdBy: User): Promise<{ code: string; expiresAt: string }> {
+    const code = randomCode();
+    const previous = await kv.get<string>(userInviteKey(user.id));
+    if (previous) await kv.del(inviteKey(previous));
+
+    const invite: Invite = { userId: user.id, createdBy: createdBy.username };
+    await kv.set(inviteKey(code), invite, { ex: INVITE_TTL_SECONDS });
+    await kv.set(userInviteKey(user.id), code, { ex: INVITE_TTL_SECONDS });
+    return {
+        code: formatCode(code),
+        expiresAt: new Date(Date.now() + INVITE_TTL_SECONDS * 1000).toISOString(),
+    };
+}
+
+// Uses up the code and returns the id of the account it was for, or null if it isn't valid.
+export async function redeemInvite(code: string): Promise<number | null> {
+    const invite = code ? await kv.getdel<Invite>(inviteKey(code)) : null;
+    if (!invite) return null;
+    await kv.del(userInviteKey(invite.userId));
+    return invite.userId;
+}
+
+// --- TWO-FACTOR AUTHENTICATION ---
+// Anyone who can let visitors into the building or change accounts can protect their login with an
+// authenticator app, and the password rules can make it compulsory for them.
+const RECOVERY_CODE_COUNT = 10;
+const LOGIN_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TOTP_SETUP_TTL_SECONDS = 10 * 60;
+
+const loginChallengeKey = (token: string) => `login:challenge:${token}`;
+const totpSetupKey = (userId: number) => `totp:setup:${userId}`;
+// Recovery codes are long and random, so a fast hash is enough to keep them out of the records.
+const hashRecoveryCode = (code: string) => createHash('sha256').update(normalizeCode(code)).digest('hex');
+
+export function canUseTwoFactor(user: User): boolean {
+    return can(user, 'visitor.approve') || can(user, 'users.manage');
+}
+
+// Whether the user has to set up two-factor authentication before doing anything else.
+export async function twoFactorSetupRequired(user: User): Promise<boolean> {
+    if (user.twoFactorEnabledAt || !canUseTwoFactor(user)) return false;
+    return (await passwordPolicy.get()).requireTwoFactor;
+}
+
+// Recovery codes to show the user once, and the hashes to store in their place.
+export function createRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, randomCode);
+    return { codes: codes.map(formatCode), hashes: codes.map(hashRecoveryCode) };
+}
+
+// Checks a code from the user's authenticator app, or one of their recovery codes, which is then
+// used up. Returns the user as it should be saved afterwards, or null if the code is wrong.
+export function checkSecondFactor(user: User, code: string): User | null {
+    const step = user.totpSecret ? verifyTotp(user.totpSecret, code) : null;
+    if (step !== null) return step > (user.totpLastStep ?? -1) ? { ...user, totpLastStep: step } : null;
+    const hash = hashRecoveryCode(code);
+    if (!user.recoveryCodes?.includes(hash)) return null;
+    return { ...user, recoveryCodes: user.recoveryCodes.filter(h => h !== hash) };
+}
+
+// A password that checked out, waiting for the second factor. The token stands in for the
+// session until then and works only once.
+export async function createLoginChallenge(user: User): Promise<string> {
+    const token = randomBytes(24).toString('hex');
+    await kv.set(loginChallengeKey(token), user.id, { ex: LOGIN_CHALLENGE_TTL_SECONDS });
+    return token;
+}
+
+export async function readLoginChallenge(token: unknown): Promise<number | null> {
+    return typeof token === 'string' && token ? kv.get<number>(loginChallengeKey(token)) : null;
+}
+
+export async function endLoginChallenge(token: string) {
+    await kv.del(loginChallengeKey(token));
+}
+
+// A secret is only stored on the user once they have shown their app produces codes from it.
+export async function startTotpSetup(user: User, secret: string) {
+    await kv.set(totpSetupKey(user.id), secret, { ex: TOTP_SETUP_TTL_SECONDS });
+}
+
+export async function pendingTotpSecret(user: User): Promise<string | null> {
+    return kv.get<string>(totpSetupKey(user.id));
+}
+
+export async function endTotpSetup(user: User) {
+    await kv.del(totpSetupKey(user.id));
+}
@@ -0,0 +1,137 @@
+// api/_lib/audit.ts
+import { kv } from '@vercel/kv';
+import type { AuditEntry, User } from './types';
+
+// Append-only Redis stream holding every audited action. Unlike the change feed it is never trimmed.
+const AUDIT_STREAM = 'audit';
+const SCAN_BATCH = 200;
+
+export type AuditAction =
+    | 'auth.login'
+    | 'auth.logout'
+    | 'auth.lockout'
+    | 'auth.changePassword'
+    | 'auth.enableTwoFactor'
+    | 'auth.disableTwoFactor'
+    | 'session.revoke'
+    | 'visitor.create'
+    | 'visitor.preregister'
+    | 'visitor.update'
+    | 'visitor.approve'
+    | 'visitor.reject'
+    | 'visitor.checkin'
+    | 'visitor.checkout'
+    | 'visitor.delete'
+    | 'visitor.outsideWindow'
+    | 'visitor.overstay'
+    | 'visitor.autoCheckout'
+    | 'visitor.export'
+    | 'schedule.create'
+    | 'schedule.delete'
+    | 'watchlist.create'
+    | 'watchlist.delete'
+    | 'watchlist.match'
+    | 'alert.acknowledge'
+    | 'user.create'
+    | 'user.update'
+    | 'user.delete'
+    | 'user.invite'
+    | 'user.acceptInvite'
+    | 'user.resetTwoFactor'
+    | 'unit.create'
+    | 'unit.delete'
+    | 'bay.create'
+    | 'bay.delete'
+    | 'vehicle.create'
+    | 'vehicle.delete'
+    | 'company.update'
+    | 'stayPolicy.update'
+    | 'role.create'
+    | 'role.update'
+    | 'role.delete'
+    | 'passwordPolicy.update';
+
+export type AuditTargetType = 'visitor' | 'report' | 'schedule' | 'watchlist' | 'alert' | 'user' | 'unit' | 'bay' | 'vehicle' | 'company' | 'stayPolicy' | 'passwordPolicy' | 'role';
+
+export interface AuditTarget {
+    type: AuditTargetType;
+    id: string | number;
+    label: string;
+}
+
+const REDACTED_FIELDS = ['password', 'passwordHash', 'totpSecret', 'recoveryCodes'];
+const IGNORED_FIELDS = ['version', 'totpLastStep'];
+
+// Secrets are never written to the log, and images are noted rather than copied into it.
+function auditValue(key: string, value: unknown): unknown {
+    if (value === undefined) return null;
+    if (REDACTED_FIELDS.includes(key)) return '[redacted]';
+    if (typeof value === 'string' && value.startsWith('data:')) return '[image]';
+    return value;
+}
+
+// Field-by-field before/after of a record. A created record has no `before`, a deleted one no `after`.
+export function diffRecords(before: object | null, after: object | null): AuditEntry['changes'] {
+    const from = (before ?? {}) as Record<string, unknown>;
+    const to = (after ?? {}) as Record<string, unknown>;
+    const changes: AuditEntry['changes'] = {};
+
+    for (const key of new Set([...Object.keys(from), ...Object.keys(to)])) {
+        if (IGNORED_FIELDS.includes(key) || JSON.stringify(from[key]) === JSON.stringify(to[key])) continue;
+        changes[key] = { from: auditValue(key, from[key]), to: auditValue(key, to[key]) };
+    }
+    return changes;
+}
+
+export async function recordAudit(actor: User, action: AuditAction, target: AuditTarget, before: object | null = null, after: object | null = null) {
+    const entry: Omit<AuditEntry, 'id'> = {
+        timestamp: new Date().toISOString(),
+        actorId: actor.id,
+        actorName: actor.username,
+        actorRole: actor.role,
+        action,
+        targetType: target.type,
+        targetId: String(target.id),
+        targetLabel: target.label,
+        changes: diffRecords(before, after),
+    };
+    await kv.xadd(AUDIT_STREAM, '*', { entry: JSON.stringify(entry) });
+}
+
+export interface AuditQuery {
+    action?: string; // Exact action, or a prefix such as "visitor."
+    actor?: string; // Case-insensitive match on the actor's username
+    targetType?: string;
+    targetId?: string;
+    from?: number; // Epoch milliseconds, inclusive
+    to?: number; // Epoch milliseconds, inclusive
+    cursor?: string; // Id of the last entry on the previous page
+    limit: number;
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+    if (query.action && entry.action !== query.action && !(query.action.endsWith('.') && entry.action.startsWith(query.action))) return false;
+    if (query.actor && !entry.actorName.toLowerCase().includes(query.actor.toLowerCase())) return false;
+    if (query.targetType && entry.targetType !== query.targetType) return false;
+    if (query.targetId && entry.targetId !== query.targetId) return false;
+    return true;
+}
+
+// Newest entries first. Stream ids start with their timestamp, so the date range bounds the scan directly.
+export async function queryAudit(query: AuditQuery): Promise<{ entries: AuditEntry[]; nextCursor: string | null }> {
+    const entries: AuditEntry[] = [];
+    const lowest = query.from !== undefined ? String(query.from) : '-';
+    let highest = query.cursor ? `(${query.cursor}` : query.to !== undefined ? `${query.to}-18446744073709551615` : '+';
+
+    for (;;) {
+        const batch = Object.entries(await kv.xrevrange<{ entry: Omit<AuditEntry, 'id'> }>(AUDIT_STREAM, highest, lowest, SCAN_BATCH));
+        for (const [id, { entry }] of batch) {
+            const auditEntry = { ...entry, id };
+            if (!matches(auditEntry, query)) continue;
+            entries.push(auditEntry);
+            if (entries.length === query.limit) return { entries, nextCursor: id };
+        }
+        if (batch.length < SCAN_BATCH) return { entries, nextCursor: null };
+        highest = `(${batch[batch.length - 1][0]}`;
+    }
+}
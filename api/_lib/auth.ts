@@ -0,0 +1,211 @@
+// api/_lib/auth.ts
+import { kv } from '@vercel/kv';
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { twoFactorSetupRequired } from './accounts';
+import { users } from './collections';
+import { can, loadRoles } from './permissions';
+import type { Action } from './permissions';
+import type { PublicUser, Session, SessionInfo, SessionUser, User } from './types';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+export const SESSION_COOKIE = 'resiguard_session';
+const KEY_LENGTH = 64;
+
+// --- PASSWORD HASHING ---
+// Stored as `scrypt$<salt hex>$<hash hex>` so the salt travels with the hash.
+export async function hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16);
+    const hash = await scryptAsync(password, salt, KEY_LENGTH);
+    return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+// Checked instead when there is no stored hash (an unknown username or an account still waiting on
+// its invite), so those answers take as long as a wrong password and don't reveal which usernames exist.
+const DUMMY_HASH = `scrypt$${'00'.repeat(16)}$${'00'.repeat(KEY_LENGTH)}`;
+
+export async function verifyPassword(password: string, stored: string | undefined): Promise<boolean> {
+    if (!stored) {
+        await verifyPassword(password, DUMMY_HASH);
+        return false;
+    }
+    const [scheme, saltHex, hashHex] = stored.split('$');
+    if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+    const expected = Buffer.from(hashHex, 'hex');
+    const actual = await scryptAsync(password, Buffer.from(saltHex, 'hex'), expected.length);
+    return timingSafeEqual(expected, actual);
+}
+
+// --- USERS ---
+// Replaces a plaintext `password` (from seed data or a client edit) with a salted hash.
+export async function withHashedPassword({ password, ...user }: User): Promise<User> {
+    return password ? { ...user, passwordHash: await hashPassword(password) } : user;
+}
+
+// Loads all users, hashing and re-saving any plaintext passwords left over from the seed data.
+export async function loadUsers(): Promise<User[]> {
+    const stored = await users.list();
+    return Promise.all(stored.map(async user => (
+        user.password !== undefined ? users.put(await withHashedPassword(user)) : user
+    )));
+}
+
+export function toPublicUser({ password, passwordHash, totpSecret, totpLastStep, recoveryCodes, ...user }: User): PublicUser {
+    return user;
+}
+
+export async function toSessionUser(user: User): Promise<SessionUser> {
+    return (await twoFactorSetupRequired(user)) ? { ...toPublicUser(user), mustSetUpTwoFactor: true } : toPublicUser(user);
+}
+
+// --- SESSIONS ---
+// A session ends after a spell without requests or at a hard limit after login, whichever comes
+// first. The limits follow what the user's role can do rather than its name: whoever can manage
+// users gets the shortest, so such a login left open on a shared tablet doesn't stay usable for
+// long, and whoever can approve visitors gets the guard-house limits.
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const SESSION_LIMITS: { action: Action; idleMs: number; maxMs: number }[] = [
+    { action: 'users.manage', idleMs: 30 * MINUTE_MS, maxMs: 12 * HOUR_MS },
+    { action: 'visitor.approve', idleMs: 2 * HOUR_MS, maxMs: 24 * HOUR_MS },
+];
+const DEFAULT_SESSION_LIMITS = { idleMs: 12 * HOUR_MS, maxMs: 30 * 24 * HOUR_MS };
+// Requests only refresh `lastSeenAt` once this much time has passed, so most don't write.
+const TOUCH_INTERVAL_MS = MINUTE_MS;
+
+function sessionKey(sessionId: string) {
+    return `session:${sessionId}`;
+}
+
+function userSessionsKey(userId: number) {
+    return `sessions:user:${userId}`;
+}
+
+function sessionHandle(sessionId: string) {
+    return createHash('sha256').update(sessionId).digest('hex').slice(0, 16);
+}
+
+// Roles must already be loaded, since the limits depend on the user's permissions.
+function sessionExpiry(session: Session, user: User): number {
+    const { idleMs, maxMs } = SESSION_LIMITS.find(limits => can(user, limits.action)) ?? DEFAULT_SESSION_LIMITS;
+    return Math.min(Date.parse(session.lastSeenAt ?? session.createdAt) + idleMs, Date.parse(session.createdAt) + maxMs);
+}
+
+// The stored session expires by itself once its limit passes, even if nobody checks it again.
+async function storeSession(sessionId: string, session: Session, user: User) {
+    await kv.set(sessionKey(sessionId), session, { pxat: sessionExpiry(session, user) });
+}
+
+async function endSession(sessionId: string, userId: number) {
+    await kv.del(sessionKey(sessionId));
+    await kv.srem(userSessionsKey(userId), sessionId);
+}
+
+export async function createSession(req: NextApiRequest, res: NextApiResponse, user: User): Promise<string> {
+    await loadRoles();
+    const sessionId = randomUUID();
+    const now = new Date().toISOString();
+    const userAgent = String(req.headers['user-agent'] ?? '').slice(0, 300);
+    await storeSession(sessionId, { userId: user.id, createdAt: now, lastSeenAt: now, userAgent }, user);
+    await kv.sadd(userSessionsKey(user.id), sessionId);
+    setSessionCookie(res, sessionId);
+    return sessionId;
+}
+
+export async function destroySession(req: NextApiRequest, res: NextApiResponse) {
+    const sessionId = req.cookies[SESSION_COOKIE];
+    const session = sessionId ? await kv.get<Session>(sessionKey(sessionId)) : null;
+    if (sessionId && session) await endSession(sessionId, session.userId);
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`);
+}
+
+// Resolves the caller's session cookie to a user, or null if there is no valid session. Unless
+// `touch` is false the request counts as activity; background requests such as the change feed
+// pass false so an open tab alone doesn't keep a session alive.
+export async function getSessionUser(req: NextApiRequest, touch = true): Promise<User | null> {
+    const sessionId = req.cookies[SESSION_COOKIE];
+    if (!sessionId) return null;
+
+    const session = await kv.get<Session>(sessionKey(sessionId));
+    if (!session) return null;
+
+    // Permission checks for the rest of the request use the roles as they are now.
+    const [user] = await Promise.all([users.get(String(session.userId)), loadRoles()]);
+    const now = Date.now();
+    if (!user || sessionExpiry(session, user) <= now) {
+        await endSession(sessionId, session.userId);
+        return null;
+    }
+    if (touch && now - Date.parse(session.lastSeenAt ?? session.createdAt) >= TOUCH_INTERVAL_MS) {
+        await storeSession(sessionId, { ...session, lastSeenAt: new Date(now).toISOString() }, user);
+    }
+    return user;
+}
+
+// The user's sessions, newest first. Sessions that have expired are dropped from the list on the way.
+export async function listSessions(req: NextApiRequest, userId: number): Promise<SessionInfo[]> {
+    const [user] = await Promise.all([users.get(String(userId)), loadRoles()]);
+    const sessionIds = await kv.smembers(userSessionsKey(userId));
+    const sessions = await Promise.all(sessionIds.map(async sessionId => ({ sessionId, session: await kv.get<Session>(sessionKey(sessionId)) })));
+
+    const active: SessionInfo[] = [];
+    for (const { sessionId, session } of sessions) {
+        const expiresAt = session && user ? sessionExpiry(session, user) : 0;
+        if (!session || expiresAt <= Date.now()) {
+            await endSession(sessionId, userId);
+            continue;
+        }
+        active.push({
+            id: sessionHandle(sessionId),
+            createdAt: session.createdAt,
+            lastSeenAt: session.lastSeenAt ?? session.createdAt,
+            expiresAt: new Date(expiresAt).toISOString(),
+            userAgent: session.userAgent ?? '',
+            current: sessionId === req.cookies[SESSION_COOKIE],
+        });
+    }
+    return active.sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt));
+}
+
+// Signs the user out of the session listed as `handle`, or of every session when no handle is
+// given. Returns how many sessions were ended.
+export async function revokeSessions(userId: number, handle?: string): Promise<number> {
+    const sessionIds = (await kv.smembers(userSessionsKey(userId))).filter(id => !handle || sessionHandle(id) === handle);
+    for (const sessionId of sessionIds) await endSession(sessionId, userId);
+    return sessionIds.length;
+}
+
+// Signs the user out of every session but the one making this request, e.g. after they change their
+// password, so a session someone else took doesn't outlast it.
+export async function revokeOtherSessions(req: NextApiRequest, userId: number): Promise<number> {
+    const sessionIds = (await kv.smembers(userSessionsKey(userId))).filter(id => id !== req.cookies[SESSION_COOKIE]);
+    for (const sessionId of sessionIds) await endSession(sessionId, userId);
+    return sessionIds.length;
+}
+
+// Resolves the caller or answers 401, or 403 while they still have to change their password or set
+// up two-factor authentication.
+// Route handlers return early when this gives null.
+export async function requireUser(req: NextApiRequest, res: NextApiResponse, touch = true): Promise<User | null> {
+    const user = await getSessionUser(req, touch);
+    if (!user) {
+        res.status(401).json({ error: 'Not authenticated' });
+        return null;
+    }
+    if (user.mustChangePassword) {
+        res.status(403).json({ error: 'Please change your password before continuing', mustChangePassword: true });
+        return null;
+    }
+    if (await twoFactorSetupRequired(user)) {
+        res.status(403).json({ error: 'Please set up two-factor authentication before continuing', mustSetUpTwoFactor: true });
+        return null;
+    }
+    return user;
+}
+
+function setSessionCookie(res: NextApiResponse, sessionId: string) {
+    res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${sessionId}; Path=/; HttpOnly; Secure; SameSite=Lax`);
+}
@@ -0,0 +1,123 @@
+// api/_lib/collections.ts
+import { defineCollection, defineDocument } from './store';
+import { initialCompanyInfo, initialPasswordPolicy, initialRoles, initialStayPolicy, initialVisitors, mockUnits, mockUsers } from './seed';
+import type { CompanyInfo, ParkingBay, PasswordPolicy, PendingChat, PredefinedUnit, ResidentVehicle, Role, SecurityAlert, StayPolicy, User, Visitor, VisitorProfile, VisitSchedule, WatchlistEntry } from './types';
+
+export function unitId(unit: PredefinedUnit): string {
+    return `${unit.block}-${unit.houseNo}`;
+}
+
+export function bayId(bay: ParkingBay): string {
+    return `${bay.block}-${bay.label}`;
+}
+
+export const visitors = defineCollection<Visitor>({
+    name: 'visitors:records',
+    legacyKey: 'visitors',
+    seed: initialVisitors,
+    idOf: v => String(v.id),
+    sort: (a, b) => b.id - a.id,
+    changeType: 'visitors',
+});
+
+export const profiles = defineCollection<VisitorProfile>({
+    name: 'profiles:records',
+    legacyKey: 'profiles',
+    seed: [],
+    idOf: p => String(p.id),
+    sort: (a, b) => a.name.localeCompare(b.name),
+    changeType: 'profiles',
+});
+
+export const users = defineCollection<User>({
+    name: 'users:records',
+    legacyKey: 'users',
+    seed: mockUsers,
+    idOf: u => String(u.id),
+    sort: (a, b) => a.id - b.id,
+    changeType: 'users',
+    // Password hashes and second-factor secrets never go out on the change feed.
+    toPublic: ({ password, passwordHash, totpSecret, totpLastStep, recoveryCodes, ...user }) => user,
+});
+
+export const units = defineCollection<PredefinedUnit>({
+    name: 'units:records',
+    legacyKey: 'predefinedUnits',
+    seed: mockUnits,
+    idOf: unitId,
+    sort: (a, b) => {
+        if (a.block < b.block) return -1; if (a.block > b.block) return 1;
+        return a.houseNo.localeCompare(b.houseNo, undefined, { numeric: true });
+    },
+    changeType: 'units',
+});
+
+export const chats = defineCollection<PendingChat>({
+    name: 'chats:records',
+    legacyKey: 'pendingChats',
+    seed: [],
+    idOf: c => String(c.id),
+    sort: (a, b) => a.id - b.id,
+    changeType: 'chats',
+});
+
+export const schedules = defineCollection<VisitSchedule>({
+    name: 'schedules:records',
+    legacyKey: 'schedules',
+    seed: [],
+    idOf: s => String(s.id),
+    sort: (a, b) => a.startTime.localeCompare(b.startTime),
+    changeType: 'schedules',
+});
+
+export const watchlist = defineCollection<WatchlistEntry>({
+    name: 'watchlist:records',
+    legacyKey: 'watchlist',
+    seed: [],
+    idOf: w => String(w.id),
+    sort: (a, b) => b.id - a.id,
+    changeType: 'watchlist',
+});
+
+export const alerts = defineCollection<SecurityAlert>({
+    name: 'alerts:records',
+    legacyKey: 'alerts',
+    seed: [],
+    idOf: a => String(a.id),
+    sort: (a, b) => b.id - a.id,
+    changeType: 'alerts',
+});
+
+export const bays = defineCollection<ParkingBay>({
+    name: 'bays:records',
+    legacyKey: 'parkingBays',
+    seed: [],
+    idOf: bayId,
+    sort: (a, b) => a.block.localeCompare(b.block) || a.label.localeCompare(b.label, undefined, { numeric: true }),
+    changeType: 'bays',
+});
+
+export const vehicles = defineCollection<ResidentVehicle>({
+    name: 'vehicles:records',
+    legacyKey: 'residentVehicles',
+    seed: [],
+    idOf: v => String(v.id),
+    sort: (a, b) => a.unitNo.localeCompare(b.unitNo, undefined, { numeric: true }),
+    changeType: 'vehicles',
+});
+
+// Built-in roles first, in their preset order, then custom roles by name.
+const roleRank = (role: Role) => role.builtIn ? initialRoles.findIndex(r => r.name === role.name) : initialRoles.length;
+
+export const roles = defineCollection<Role>({
+    name: 'roles:records',
+    legacyKey: 'roles',
+    seed: initialRoles,
+    idOf: r => r.name,
+    sort: (a, b) => roleRank(a) - roleRank(b) || a.name.localeCompare(b.name),
+    changeType: 'roles',
+});
+
+export const companyInfo = defineDocument<CompanyInfo>('companyInfo', initialCompanyInfo, 'company');
+export const stayPolicy = defineDocument<StayPolicy>('stayPolicy', initialStayPolicy, 'stayPolicy');
+export const passwordPolicy = defineDocument<PasswordPolicy>('passwordPolicy', initialPasswordPolicy, 'passwordPolicy');
@@ -0,0 +1,45 @@
+// api/_lib/events.ts
+import { kv } from '@vercel/kv';
+
+// Every write to a collection is appended to this Redis stream so /api/events can push it to
+// connected clients. Only the most recent entries are kept; clients further behind reload instead.
+const EVENTS_STREAM = 'events';
+const MAX_EVENTS = 1000;
+
+export type ChangeType = 'visitors' | 'users' | 'units' | 'chats' | 'schedules' | 'profiles' | 'watchlist' | 'alerts' | 'bays' | 'vehicles' | 'company' | 'stayPolicy' | 'passwordPolicy' | 'roles';
+
+export interface ChangeEvent {
+    type: ChangeType;
+    op: 'upsert' | 'delete';
+    id: string;
+    record?: any;
+}
+
+export async function publishChange(event: ChangeEvent) {
+    await kv.xadd(EVENTS_STREAM, '*', { event: JSON.stringify(event) }, {
+        trim: { type: 'MAXLEN', threshold: MAX_EVENTS, comparison: '~' },
+    });
+}
+
+// Stream id of the newest event, used as the starting point for a fresh subscriber.
+export async function latestEventId(): Promise<string> {
+    const latest = await kv.xrevrange(EVENTS_STREAM, '+', '-', 1);
+    return Object.keys(latest)[0] ?? '0-0';
+}
+
+function compareEventIds(a: string, b: string): number {
+    const [aTime, aSeq] = a.split('-').map(Number);
+    const [bTime, bSeq] = b.split('-').map(Number);
+    return aTime - bTime || aSeq - bSeq;
+}
+
+// True when events after `lastId` have already been trimmed, so the client has to reload instead.
+export async function isTrimmedAway(lastId: string): Promise<boolean> {
+    const oldest = Object.keys(await kv.xrange(EVENTS_STREAM, '-', '+', 1))[0];
+    return !!oldest && compareEventIds(lastId, oldest) < 0;
+}
+
+export async function readChangesAfter(lastId: string): Promise<{ id: string; event: ChangeEvent }[]> {
+    const entries = await kv.xrange<{ event: ChangeEvent }>(EVENTS_STREAM, `(${lastId}`, '+', 100);
+    return Object.entries(entries).map(([id, { event }]) => ({ id, event }));
+}
@@ -0,0 +1,51 @@
+// api/_lib/http.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export function methodNotAllowed(req: NextApiRequest, res: NextApiResponse, allowed: string[]) {
+    res.setHeader('Allow', allowed);
+    res.status(405).end(`Method ${req.method} Not Allowed`);
+}
+
+// Reads a single query parameter, taking the first value if it was repeated.
+export function readQuery(req: NextApiRequest, name: string): string {
+    const value = req.query[name];
+    return Array.isArray(value) ? value[0] : value ?? '';
+}
+
+// Reads a date or timestamp parameter as epoch milliseconds, ignoring anything unparseable.
+export function readTimestamp(req: NextApiRequest, name: string): number | undefined {
+    const value = readQuery(req, name);
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+}
+
+// Reads the `[id]` path segment that Vercel passes through as a query parameter.
+export function readId(req: NextApiRequest): string {
+    return readQuery(req, 'id');
+}
+
+export function isRecord(body: unknown): body is Record<string, any> {
+    return typeof body === 'object' && body !== null && !Array.isArray(body);
+}
+
+export function etag(version: number | undefined): string {
+    return `"${version ?? 0}"`;
+}
+
+// Parses the record version a client last saw from its If-Match header, e.g. `"3"`.
+export function readIfMatch(req: NextApiRequest): number | null {
+    const header = req.headers['if-match'];
+    if (typeof header !== 'string') return null;
+    const version = parseInt(header.replace(/^W\//, '').replace(/"/g, ''), 10);
+    return Number.isNaN(version) ? null : version;
+}
+
+export function preconditionRequired(res: NextApiResponse) {
+    res.status(428).json({ error: 'Updates must send the record version in an If-Match header' });
+}
+
+// Sent when another client saved first. The current copy lets the caller merge and retry.
+export function conflict<T extends { version?: number }>(res: NextApiResponse, current: T | null) {
+    if (current) res.setHeader('ETag', etag(current.version));
+    res.status(409).json({ error: 'This record was changed by someone else', current });
+}
@@ -0,0 +1,120 @@
+// api/_lib/images.ts
+import { kv } from '@vercel/kv';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+
+// Photos and logos are stored here once and referenced from records by id, so lists stay small.
+// The original is kept for the form and passes; a small thumbnail for the grid and avatars is made
+// from it here. Thumbnails are never taken from the browser, since whoever uploaded a photo first
+// would otherwise choose what everyone else sees for it.
+export type ImageSize = 'original' | 'thumb';
+
+export interface StoredImage {
+    contentType: string;
+    data: string; // Base64
+}
+
+interface ImageBackend {
+    get(key: string): Promise<StoredImage | null>;
+    put(key: string, image: StoredImage): Promise<void>;
+}
+
+const MAX_IMAGE_BYTES = 3 * 1024 * 1024;
+// Thumbnails are at most this many pixels on their longer side.
+const THUMBNAIL_SIZE = 160;
+
+const kvBackend: ImageBackend = {
+    get: key => kv.get<StoredImage>(`images:${key}`),
+    async put(key, image) { await kv.set(`images:${key}`, image); },
+};
+
+// For local development without KV. Only lasts as long as the process.
+function memoryBackend(): ImageBackend {
+    const images = new Map<string, StoredImage>();
+    return {
+        async get(key) { return images.get(key) ?? null; },
+        async put(key, image) { images.set(key, image); },
+    };
+}
+
+// For local development: one JSON file per image under IMAGE_DIR (default ".images").
+function fileBackend(dir: string): ImageBackend {
+    const fileOf = (key: string) => path.join(dir, `${key}.json`);
+    return {
+        async get(key) {
+            try {
+                return JSON.parse(await readFile(fileOf(key), 'utf8')) as StoredImage;
+            } catch {
+                return null;
+            }
+        },
+        async put(key, image) {
+            await mkdir(dir, { recursive: true });
+            await writeFile(fileOf(key), JSON.stringify(image));
+        },
+    };
+}
+
+const backend: ImageBackend = process.env.IMAGE_STORE === 'memory' ? memoryBackend()
+    : process.env.IMAGE_STORE === 'fs' ? fileBackend(process.env.IMAGE_DIR || '.images')
+    : kvBackend;
+
+const IMAGE_ID = /^[0-9a-f]{32}$/;
+
+export function isImageId(value: unknown): value is string {
+    return typeof value === 'string' && IMAGE_ID.test(value);
+}
+
+// Only photo formats are accepted. The content type is the one sharp finds in the data rather than
+// the one the data URL claims, so nothing is served back as SVG or HTML, which could run script.
+const CONTENT_TYPES: Record<string, string> = { jpeg: 'image/jpeg', png: 'image/png', webp: 'image/webp' };
+
+// Only reads the image's header, so it's cheap even for a full-size photo. Null if it isn't a JPEG,
+// PNG or WebP image under MAX_IMAGE_BYTES.
+export async function parseImage(value: unknown): Promise<StoredImage | null> {
+    if (typeof value !== 'string') return null;
+    const match = value.match(/^data:image\/[a-z0-9.+-]+;base64,([a-z0-9+/=]+)$/i);
+    if (!match || match[1].length * 0.75 > MAX_IMAGE_BYTES) return null;
+    try {
+        const { format, width, height } = await sharp(Buffer.from(match[1], 'base64')).metadata();
+        const contentType = format && CONTENT_TYPES[format];
+        return contentType && width && height ? { contentType, data: match[1] } : null;
+    } catch {
+        return null;
+    }
+}
+
+// Scales the image down so its longer side is at most THUMBNAIL_SIZE pixels, turned upright first
+// since the thumbnail loses the orientation the original carries.
+async function makeThumbnail(original: StoredImage): Promise<StoredImage> {
+    const thumbnail = await sharp(Buffer.from(original.data, 'base64'))
+        .rotate()
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+    return { contentType: 'image/jpeg', data: thumbnail.toString('base64') };
+}
+
+// Ids are taken from the original's content, so uploading the same photo twice stores it once.
+export async function storeImage(original: StoredImage): Promise<string> {
+    const id = createHash('sha256').update(original.data).digest('hex').slice(0, 32);
+    if (!(await backend.get(`${id}:original`))) {
+        await backend.put(`${id}:thumb`, await makeThumbnail(original));
+        await backend.put(`${id}:original`, original);
+    }
+    return id;
+}
+
+export function readImage(id: string, size: ImageSize): Promise<StoredImage | null> {
+    return backend.get(`${id}:${size}`);
+}
+
+// Records from older clients still carry photos inline. They are moved into the store on the way
+// in like any other upload; ones that aren't accepted are dropped rather than kept in the record.
+export async function storeInlineImage(value: string | undefined): Promise<string | undefined> {
+    if (!value?.startsWith('data:')) return value;
+    const image = await parseImage(value);
+    return image ? storeImage(image) : undefined;
+}
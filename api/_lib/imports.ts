@@ -0,0 +1,138 @@
+// api/_lib/imports.ts
+import { passwordError } from './accounts';
+import type { PasswordPolicy, PredefinedUnit, User } from './types';
+
+export const MAX_IMPORT_ROWS = 2000;
+// Rows written per request. Every resident's password is hashed on the way in, which is slow on
+// purpose, so larger files are imported in several requests to stay within the function timeout.
+export const IMPORT_BATCH_ROWS = 100;
+
+// One data row of an import file, checked against the units and users that already exist.
+// `unit` says whether the row's unit would be created or is already there (in the system or
+// on an earlier row). A row with errors is left out of the import entirely.
+export interface ImportRowResult {
+    line: number;
+    unitNo: string;
+    username: string;
+    unit: 'new' | 'existing';
+    errors: string[];
+}
+
+export interface ImportPlan {
+    rows: ImportRowResult[];
+    units: PredefinedUnit[]; // To create
+    residents: { username: string; password: string; unitNo: string }[]; // To create
+    errors: string[]; // Problems with the file as a whole
+}
+
+// Splits CSV text into rows of cells (RFC 4180: quoted cells may hold commas, quotes and line breaks).
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+            else if (char === '"') quoted = false;
+            else cell += char;
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(cell); cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(cell); rows.push(row);
+            row = []; cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) { row.push(cell); rows.push(row); }
+    return rows;
+}
+
+// Header names are matched loosely, so "House No", "house_no" and "houseNo" all work.
+const headerKey = (header: string) => header.replace(/[^a-z]/gi, '').toLowerCase();
+
+const COLUMN_ALIASES: Record<string, string[]> = {
+    block: ['block'],
+    houseNo: ['houseno', 'house', 'unitnumber'],
+    unitNo: ['unitno', 'unit'],
+    username: ['username', 'user', 'login'],
+    password: ['password', 'temporarypassword', 'temppassword'],
+};
+
+// Works out what importing `csv` would create. Each row names a unit, either as `unitNo` ("A-101")
+// or as `block` and `houseNo`, and optionally a resident account for it with `username` and a
+// temporary `password`. Units may repeat on several rows to give them several residents.
+// With `lines`, every row is still checked but only those lines are planned for creation.
+export function planImport(csv: string, existingUnits: PredefinedUnit[], existingUsers: User[], policy: PasswordPolicy, lines?: { from: number; to: number }): ImportPlan {
+    const [header = [], ...dataRows] = parseCsv(csv);
+    const plan: ImportPlan = { rows: [], units: [], residents: [], errors: [] };
+
+    const columns = header.map(headerKey);
+    const column = (name: string) => columns.findIndex(c => COLUMN_ALIASES[name].includes(c));
+    const index = { block: column('block'), houseNo: column('houseNo'), unitNo: column('unitNo'), username: column('username'), password: column('password') };
+    if (index.unitNo < 0 && (index.block < 0 || index.houseNo < 0)) {
+        plan.errors.push('The first row must name the columns, with either "unitNo" or both "block" and "houseNo"');
+        return plan;
+    }
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+        plan.errors.push(`A file can import at most ${MAX_IMPORT_ROWS} rows at a time`);
+        return plan;
+    }
+
+    const knownUnits = new Map<string, number>(existingUnits.map(u => [`${u.block}-${u.houseNo}`, 0]));
+    const knownUsernames = new Map<string, number>(existingUsers.map(u => [u.username.toLowerCase(), 0]));
+
+    dataRows.forEach((cells, rowIndex) => {
+        const line = rowIndex + 2;
+        const cell = (i: number) => (i >= 0 ? cells[i] ?? '' : '').trim();
+        if (cells.every(c => !c.trim())) return;
+
+        let block = cell(index.block).toUpperCase();
+        let houseNo = cell(index.houseNo);
+        if (!block && !houseNo && cell(index.unitNo)) {
+            [block = '', houseNo = ''] = cell(index.unitNo).toUpperCase().split('-').map(part => part.trim());
+        }
+        const unitNo = `${block}-${houseNo}`;
+        const username = cell(index.username);
+        const password = cell(index.password);
+        const errors: string[] = [];
+
+        if (!block || !houseNo) errors.push('A unit needs a block and a house number, e.g. "A-101"');
+        else if (block.includes('-') || houseNo.includes('-')) errors.push(`"${unitNo}" is not a valid unit; the block and house number can't contain "-"`);
+
+        const unitLine = knownUnits.get(unitNo);
+        if (!username && unitLine !== undefined && errors.length === 0) {
+            errors.push(unitLine ? `Unit ${unitNo} is already listed on line ${unitLine}` : `Unit ${unitNo} already exists`);
+        }
+        if (username) {
+            const userLine = knownUsernames.get(username.toLowerCase());
+            if (userLine !== undefined) errors.push(userLine ? `The username ${username} is already used on line ${userLine}` : `The username ${username} is already taken`);
+            if (!password) errors.push(`${username} needs a temporary password`);
+            else if (passwordError(policy, password, username)) errors.push(passwordError(policy, password, username)!);
+        } else if (password) {
+            errors.push('A password was given without a username');
+        }
+
+        plan.rows.push({ line, unitNo, username, unit: unitLine === undefined ? 'new' : 'existing', errors });
+        if (errors.length > 0) return;
+
+        const inBatch = !lines || (line >= lines.from && line <= lines.to);
+        if (unitLine === undefined) {
+            if (inBatch) plan.units.push({ block, houseNo });
+            knownUnits.set(unitNo, line);
+        }
+        if (username) {
+            if (inBatch) plan.residents.push({ username, password, unitNo });
+            knownUsernames.set(username.toLowerCase(), line);
+        }
+    });
+
+    if (plan.rows.length === 0) plan.errors.push('The file has no rows to import');
+    return plan;
+}
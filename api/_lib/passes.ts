@@ -0,0 +1,33 @@
+// api/_lib/passes.ts
+import { kv } from '@vercel/kv';
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+// Used when PASS_SIGNING_SECRET isn't configured: a random secret generated once and kept in KV.
+const SECRET_KEY = 'passes:secret';
+const TOKEN_PREFIX = 'RG1';
+
+async function signingSecret(): Promise<string> {
+    if (process.env.PASS_SIGNING_SECRET) return process.env.PASS_SIGNING_SECRET;
+    await kv.set(SECRET_KEY, randomBytes(32).toString('hex'), { nx: true });
+    return (await kv.get<string>(SECRET_KEY))!;
+}
+
+function sign(secret: string, visitorId: number): string {
+    return createHmac('sha256', secret).update(`visitor:${visitorId}`).digest('base64url');
+}
+
+// The QR code payload, `RG1.<visitor id>.<signature>`. Only the server can mint one.
+export async function createPassToken(visitorId: number): Promise<string> {
+    return `${TOKEN_PREFIX}.${visitorId}.${sign(await signingSecret(), visitorId)}`;
+}
+
+// Returns the visitor id a scanned token was issued for, or null if it is malformed or forged.
+export async function verifyPassToken(token: string): Promise<number | null> {
+    const [prefix, id, signature] = token.trim().split('.');
+    const visitorId = Number(id);
+    if (prefix !== TOKEN_PREFIX || !Number.isSafeInteger(visitorId) || !signature) return null;
+
+    const expected = Buffer.from(sign(await signingSecret(), visitorId));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? visitorId : null;
+}
@@ -0,0 +1,149 @@
+// api/_lib/permissions.ts
+import type { NextApiResponse } from 'next';
+import { roles } from './collections';
+import { initialRoles } from './seed';
+import type { PendingChat, ResidentVehicle, Role, SecurityAlert, User, Visitor, VisitSchedule } from './types';
+
+// Everything a role can be allowed to do. The client lists the same actions in its role editor.
+export const ACTIONS = [
+    'visitor.viewAll',
+    'visitor.register',
+    'visitor.preregister',
+    'visitor.edit',
+    'visitor.approve',
+    'visitor.respond',
+    'visitor.checkin',
+    'visitor.delete',
+    'users.manage',
+    'units.manage',
+    'company.manage',
+    'chat.reply',
+    'audit.view',
+    'watchlist.manage',
+    'alerts.respond',
+    'parking.manage',
+    'visitor.export',
+] as const;
+
+export type Action = typeof ACTIONS[number];
+
+// Roles are stored so each site can split duties its own way. They are loaded whenever a session
+// is looked up or started (see auth.ts), so the checks below stay synchronous; until then only
+// the built-in presets are known.
+let rolesByName = new Map<string, Role>(initialRoles.map(role => [role.name, role]));
+
+export async function loadRoles(): Promise<Role[]> {
+    const list = await roles.list();
+    rolesByName = new Map(list.map(role => [role.name, role]));
+    return list;
+}
+
+export function findRole(name: unknown): Role | undefined {
+    return typeof name === 'string' ? rolesByName.get(name) : undefined;
+}
+
+export function isRole(role: unknown): role is string {
+    return findRole(role) !== undefined;
+}
+
+// Whether users with this role belong to a unit, as residents do.
+export function roleHasUnit(role: unknown): boolean {
+    return findRole(role)?.hasUnit ?? false;
+}
+
+export function can(user: User, action: Action): boolean {
+    return findRole(user.role)?.permissions.includes(action) ?? false;
+}
+
+// Whether anyone in `users` could still manage users if roles were as given. Changes that would
+// leave nobody able to are refused, since they couldn't be undone from the app.
+export function hasUserManager(users: User[], roleList: Role[] = [...rolesByName.values()]): boolean {
+    return users.some(user => roleList.find(role => role.name === user.role)?.permissions.includes('users.manage'));
+}
+
+// Why a role's settings aren't valid, or null if they are.
+export function roleError(role: Partial<Role>): string | null {
+    if (!Array.isArray(role.permissions) || !role.permissions.every(action => (ACTIONS as readonly string[]).includes(action))) {
+        return 'Please choose the role\'s permissions from the list';
+    }
+    if (typeof role.hasUnit !== 'boolean') return 'Please say whether the role belongs to a unit';
+    return null;
+}
+
+// Answers 403 and returns false when the user lacks the permission.
+export function requirePermission(res: NextApiResponse, user: User, action: Action): boolean {
+    if (can(user, action)) return true;
+    res.status(403).json({ error: `The ${user.role} role is not allowed to do this (${action})` });
+    return false;
+}
+
+// Residents only ever see or touch visitors registered to their own unit.
+export function canAccessVisitor(user: User, visitor: Visitor): boolean {
+    return can(user, 'visitor.viewAll') || (!!user.unitNo && visitor.resident === user.unitNo);
+}
+
+// Residents answer approval requests for walk-ins to their own unit, until the request's deadline.
+// After that it has escalated to officers and only they can decide.
+export function canRespondToVisitor(user: User, visitor: Visitor): boolean {
+    const isAwaitingResident = !!visitor.residentApprovalDeadline && Date.parse(visitor.residentApprovalDeadline) > Date.now();
+    return can(user, 'visitor.respond') && !!user.unitNo && visitor.resident === user.unitNo && isAwaitingResident;
+}
+
+export function canAccessSchedule(user: User, schedule: VisitSchedule): boolean {
+    return can(user, 'visitor.viewAll') || (!!user.unitNo && schedule.visitor.resident === user.unitNo);
+}
+
+// Staff schedule visits for any unit; residents only for their own, like pre-registrations.
+export function canManageSchedule(user: User, schedule: VisitSchedule): boolean {
+    return can(user, 'visitor.register') || (can(user, 'visitor.preregister') && !!user.unitNo && schedule.visitor.resident === user.unitNo);
+}
+
+// Watchlist matches go to officers; overstays go to whoever checks visitors out.
+export function canAccessAlert(user: User, alert: SecurityAlert): boolean {
+    return can(user, alert.kind === 'overstay' ? 'visitor.checkin' : 'alerts.respond');
+}
+
+// Guards look up any plate; residents keep the register of their own unit's cars.
+export function canAccessVehicle(user: User, vehicle: ResidentVehicle): boolean {
+    return can(user, 'visitor.viewAll') || (!!user.unitNo && vehicle.unitNo === user.unitNo);
+}
+
+export function canManageVehicle(user: User, vehicle: ResidentVehicle): boolean {
+    return can(user, 'parking.manage') || (!!user.unitNo && vehicle.unitNo === user.unitNo);
+}
+
+export function canAccessChat(user: User, chat: PendingChat): boolean {
+    return can(user, 'chat.reply') || chat.userId === user.id;
+}
+
+// Which status a visitor may move to, from where, and the permission the move needs.
+const STATUS_TRANSITIONS: Record<string, { from: string[]; action: Action }> = {
+    'Approved': { from: ['Pending'], action: 'visitor.approve' },
+    'Rejected': { from: ['Pending'], action: 'visitor.approve' },
+    'Checked-in': { from: ['Approved'], action: 'visitor.checkin' },
+    'Checked-out': { from: ['Checked-in'], action: 'visitor.checkin' },
+};
+
+const CHECK_IN_FIELDS = ['checkInTime', 'checkOutTime', 'parkingBay'];
+
+// Works out the permissions a visitor update needs from the fields it touches.
+// Returns null if it asks for a status change that isn't allowed from the current status.
+export function requiredVisitorActions(existing: Visitor, changes: Partial<Visitor>): Action[] | null {
+    const actions = new Set<Action>();
+
+    for (const [key, value] of Object.entries(changes)) {
+        if (key === 'id' || key === 'version' || JSON.stringify(value) === JSON.stringify(existing[key as keyof Visitor])) continue;
+
+        if (key === 'status') {
+            const transition = STATUS_TRANSITIONS[value as string];
+            if (!transition || !transition.from.includes(existing.status)) return null;
+            actions.add(transition.action);
+        } else if (CHECK_IN_FIELDS.includes(key)) {
+            actions.add('visitor.checkin');
+        } else {
+            actions.add('visitor.edit');
+        }
+    }
+
+    return [...actions];
+}
@@ -0,0 +1,60 @@
+// api/_lib/profiles.ts
+import { profiles } from './collections';
+import { can } from './permissions';
+import { createWithNumericId } from './store';
+import type { User, Visitor, VisitorProfile } from './types';
+import { normalizePlate } from './vehicles';
+
+type VisitorDetails = Pick<Visitor, 'name' | 'contact' | 'vehicle' | 'carBrand' | 'photo'>;
+
+// Contact numbers are compared by their digits only, so "555-1234" and "5551234" are the same person.
+export function contactKey(contact: string | undefined): string {
+    return (contact ?? '').replace(/\D/g, '');
+}
+
+// Only the last four letters or digits of an ID document number are ever stored: "S1234567D" becomes "*****567D".
+// Already masked numbers pass through unchanged.
+export function maskDocumentNumber(documentNumber: string): string {
+    return documentNumber.trim().toUpperCase().replace(/[A-Z0-9](?=(?:[^A-Z0-9]*[A-Z0-9]){4})/g, '*');
+}
+
+export async function findProfileByContact(contact: string): Promise<VisitorProfile | null> {
+    const key = contactKey(contact);
+    if (!key) return null;
+    return (await profiles.list()).find(p => contactKey(p.contact) === key) ?? null;
+}
+
+// Returns the id of the visitor's profile, creating it on their first visit. A returning visitor's
+// profile is refreshed with whatever details this visit gives, but only when staff register it: a
+// profile is shared by every unit the visitor goes to, so a resident pre-registering a guest mustn't
+// change the name and photo guards see for someone else's visitor. Visits without a usable contact
+// stay unlinked.
+export async function linkProfile(user: User, visit: VisitorDetails): Promise<number | undefined> {
+    const existing = await findProfileByContact(visit.contact);
+    if (!existing) {
+        if (!contactKey(visit.contact)) return undefined;
+        const { name, contact, vehicle, carBrand, photo } = visit;
+        return (await createWithNumericId(profiles, { name, contact, vehicle: normalizePlate(vehicle) || undefined, carBrand, photo })).id;
+    }
+    if (!can(user, 'visitor.register') && !can(user, 'visitor.viewAll')) return existing.id;
+
+    const updated: VisitorProfile = {
+        ...existing,
+        name: visit.name || existing.name,
+        contact: visit.contact,
+        vehicle: normalizePlate(visit.vehicle) || existing.vehicle,
+        carBrand: visit.carBrand || existing.carBrand,
+        photo: visit.photo || existing.photo,
+    };
+    // Losing a race here only means another visit's details are kept instead, so a conflict is ignored.
+    if (JSON.stringify(updated) !== JSON.stringify(existing)) await profiles.save(updated, existing.version ?? 0);
+    return existing.id;
+}
+
+// The profile's visits, newest first. Visits logged before profiles existed are matched by contact number.
+export function visitsOf(profile: VisitorProfile, all: Visitor[]): Visitor[] {
+    const key = contactKey(profile.contact);
+    return all
+        .filter(v => v.profileId === profile.id || (v.profileId === undefined && contactKey(v.contact) === key))
+        .sort((a, b) => b.id - a.id);
+}
@@ -0,0 +1,47 @@
+// api/_lib/seed.ts
+import type { CompanyInfo, PasswordPolicy, PredefinedUnit, Role, StayPolicy, User, Visitor } from './types';
+
+// --- DEFAULT/MOCK DATA for initial setup ---
+// Seeded passwords are plaintext here and are hashed the first time the users are loaded.
+// Everyone has to replace them on first login.
+export const mockUsers: User[] = [
+    { id: 1, username: 'admin', password: 'password', role: 'Admin', mustChangePassword: true },
+    { id: 2, username: 'security', password: 'password', role: 'Security', mustChangePassword: true },
+    { id: 3, username: 'officer', password: 'password', role: 'Officer', mustChangePassword: true },
+    { id: 4, username: 'resident101', password: 'password', role: 'Resident', unitNo: 'A-101', mustChangePassword: true },
+    { id: 5, username: 'resident203', password: 'password', role: 'Resident', unitNo: 'B-203', mustChangePassword: true },
+];
+
+export const mockUnits: PredefinedUnit[] = [
+    { block: 'A', houseNo: '101' }, { block: 'A', houseNo: '102' }, { block: 'A', houseNo: '103' },
+    { block: 'B', houseNo: '201' }, { block: 'B', houseNo: '202' }, { block: 'B', houseNo: '203' },
+    { block: 'C', houseNo: '301' }, { block: 'C', houseNo: '305' }, { block: 'D', houseNo: '401' },
+];
+
+export const initialVisitors: Visitor[] = [
+    { id: 1, name: 'ALICE JOHNSON', contact: '555-1234', purpose: 'DELIVERY', resident: 'A-101', block: 'A', houseNo: '101', status: 'Approved', vehicle: 'XYZ 123', carBrand: 'TOYOTA' },
+    { id: 2, name: 'BOB WILLIAMS', contact: '555-5678', purpose: 'MAINTENANCE', resident: 'B-203', block: 'B', houseNo: '203', status: 'Checked-in', checkInTime: new Date(Date.now() - 3600 * 1000).toISOString() },
+    { id: 3, name: 'CHARLIE BROWN', contact: '555-8765', purpose: 'PERSONAL VISIT', resident: 'C-305', block: 'C', houseNo: '305', status: 'Pending' },
+];
+
+export const initialCompanyInfo: CompanyInfo = {
+    name: 'ResiGuard Cloud', logo: '', address: '123 Security Lane, Suite 100',
+    welcomeMessage: 'Welcome to our secure facility.', personInCharge: 'Admin User', contactNumber: '555-0100',
+};
+
+export const initialStayPolicy: StayPolicy = {
+    defaultMaxHours: 12, maxHoursByPurpose: { DELIVERY: 1 }, autoCheckOutAt: '', timeZone: 'UTC',
+};
+
+export const initialPasswordPolicy: PasswordPolicy = {
+    minLength: 10, requireUppercase: false, requireLowercase: false, requireNumber: true, requireSymbol: false,
+    maxFailedAttempts: 5, lockoutMinutes: 15, requireTwoFactor: false,
+};
+
+// The roles every site starts with, matching how duties were split before roles could be edited.
+export const initialRoles: Role[] = [
+    { name: 'Admin', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.edit', 'visitor.approve', 'visitor.checkin', 'visitor.delete', 'users.manage', 'units.manage', 'company.manage', 'chat.reply', 'audit.view', 'watchlist.manage', 'alerts.respond', 'parking.manage', 'visitor.export'] },
+    { name: 'Officer', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.edit', 'visitor.approve', 'chat.reply', 'audit.view', 'alerts.respond', 'visitor.export'] },
+    { name: 'Security', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.checkin', 'audit.view'] },
+    { name: 'Resident', builtIn: true, hasUnit: true, permissions: ['visitor.preregister', 'visitor.respond'] },
+];
@@ -0,0 +1,152 @@
+// api/_lib/store.ts
+import { kv } from '@vercel/kv';
+import { publishChange, type ChangeType } from './events';
+import type { Versioned } from './types';
+
+// Tracks which collections have been seeded or migrated, so an emptied collection isn't re-seeded.
+const INITIALIZED_KEY = 'collections:initialized';
+
+// Record versions are also kept in a sibling hash (or key) so these scripts can compare-and-set
+// atomically without parsing the record JSON.
+const CREATE_SCRIPT = `
+if redis.call('HEXISTS', KEYS[1], ARGV[1]) == 1 then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+redis.call('HSET', KEYS[2], ARGV[1], 1)
+return 1`;
+
+const SAVE_IF_VERSION_SCRIPT = `
+local current = tonumber(redis.call('HGET', KEYS[2], ARGV[1]) or '0')
+if current ~= tonumber(ARGV[2]) then return 0 end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+redis.call('HSET', KEYS[2], ARGV[1], current + 1)
+return 1`;
+
+const SET_IF_VERSION_SCRIPT = `
+local current = tonumber(redis.call('GET', KEYS[2]) or '0')
+if current ~= tonumber(ARGV[1]) then return 0 end
+redis.call('SET', KEYS[1], ARGV[2])
+redis.call('SET', KEYS[2], current + 1)
+return 1`;
+
+export interface CollectionOptions<T> {
+    name: string; // KV hash that holds one field per record
+    legacyKey: string; // Whole-array key written by the old /api/data endpoint
+    seed: T[];
+    idOf: (record: T) => string;
+    sort?: (a: T, b: T) => number;
+    changeType: ChangeType; // Name the collection's writes are published under on the change feed
+    toPublic?: (record: T) => unknown; // Strips fields that must not reach clients
+}
+
+export interface Collection<T extends Versioned> {
+    list(): Promise<T[]>;
+    get(id: string): Promise<T | null>;
+    // Inserts the record at version 1 only if its id is free. Returns null when the id is already taken.
+    create(record: T): Promise<T | null>;
+    // Writes the record only if the stored version still equals `expectedVersion`. Returns null on conflict.
+    save(record: T, expectedVersion: number): Promise<T | null>;
+    // Writes the record regardless of concurrent changes. For server-side migrations only.
+    put(record: T): Promise<T>;
+    remove(id: string): Promise<boolean>;
+}
+
+export function defineCollection<T extends Versioned>(options: CollectionOptions<T>): Collection<T> {
+    const { name, legacyKey, seed, idOf, sort, changeType, toPublic = (record: T) => record } = options;
+    const versionsKey = `${name}:versions`;
+
+    const publishUpsert = (record: T) => publishChange({ type: changeType, op: 'upsert', id: idOf(record), record: toPublic(record) });
+
+    // Moves records out of the legacy array key (or the seed data) into the per-record hash.
+    async function ensureInitialized() {
+        if (await kv.sismember(INITIALIZED_KEY, name)) return;
+
+        const records = await kv.get<T[]>(legacyKey) ?? seed;
+        if (records.length > 0) {
+            await kv.hset(name, Object.fromEntries(records.map(r => [idOf(r), r])));
+        }
+        await kv.del(legacyKey);
+        await kv.sadd(INITIALIZED_KEY, name);
+    }
+
+    // Seeded and migrated records predate versioning and count as version 0.
+    const withVersion = (record: T): T => ({ ...record, version: record.version ?? 0 });
+
+    const collection: Collection<T> = {
+        async list() {
+            await ensureInitialized();
+            const records = Object.values(await kv.hgetall<Record<string, T>>(name) ?? {}).map(withVersion);
+            return sort ? records.sort(sort) : records;
+        },
+        async get(id) {
+            await ensureInitialized();
+            const record = await kv.hget<T>(name, id);
+            return record ? withVersion(record) : null;
+        },
+        async create(record) {
+            await ensureInitialized();
+            const created = { ...record, version: 1 };
+            const inserted = await kv.eval(CREATE_SCRIPT, [name, versionsKey], [idOf(record), JSON.stringify(created)]);
+            if (inserted !== 1) return null;
+            await publishUpsert(created);
+            return created;
+        },
+        async save(record, expectedVersion) {
+            await ensureInitialized();
+            const saved = { ...record, version: expectedVersion + 1 };
+            const written = await kv.eval(SAVE_IF_VERSION_SCRIPT, [name, versionsKey], [idOf(record), expectedVersion, JSON.stringify(saved)]);
+            if (written !== 1) return null;
+            await publishUpsert(saved);
+            return saved;
+        },
+        async put(record) {
+            for (;;) {
+                const current = await collection.get(idOf(record));
+                const saved = await collection.save(record, current?.version ?? 0);
+                if (saved) return saved;
+            }
+        },
+        // The removed record goes out with the delete, so the change feed can tell who may hear of it.
+        async remove(id) {
+            await ensureInitialized();
+            const record = await kv.hget<T>(name, id);
+            await kv.hdel(versionsKey, id);
+            const removed = (await kv.hdel(name, id)) === 1;
+            if (removed) await publishChange({ type: changeType, op: 'delete', id, ...(record ? { record: toPublic(record) } : {}) });
+            return removed;
+        },
+    };
+    return collection;
+}
+
+// Assigns a time-based numeric id, stepping forward until an unused one is found.
+export async function createWithNumericId<T extends Versioned & { id: number }>(collection: Collection<T>, record: Omit<T, 'id'>): Promise<T> {
+    let candidate = { ...record, id: Date.now() } as T;
+    for (;;) {
+        const created = await collection.create(candidate);
+        if (created) return created;
+        candidate = { ...candidate, id: candidate.id + 1 };
+    }
+}
+
+// A single JSON value stored under one key, seeded on first read and versioned like collection records.
+export function defineDocument<T extends Versioned>(key: string, seed: T, changeType: ChangeType) {
+    const versionKey = `${key}:version`;
+
+    return {
+        async get(): Promise<T> {
+            const value = await kv.get<T>(key);
+            // Settings added since the document was saved take their seed value.
+            if (value) return { ...seed, ...value, version: value.version ?? 0 };
+            await kv.set(key, seed);
+            return { ...seed, version: 0 };
+        },
+        // Writes the value only if the stored version still equals `expectedVersion`. Returns null on conflict.
+        async save(value: T, expectedVersion: number): Promise<T | null> {
+            const saved = { ...value, version: expectedVersion + 1 };
+            const written = await kv.eval(SET_IF_VERSION_SCRIPT, [key, versionKey], [expectedVersion, JSON.stringify(saved)]);
+            if (written !== 1) return null;
+            await publishChange({ type: changeType, op: 'upsert', id: key, record: saved });
+            return saved;
+        },
+    };
+}
@@ -0,0 +1,50 @@
+// api/_lib/types.ts
+// Shared record shapes for the API routes. These mirror the interfaces in index.tsx.
+
+// Every stored record carries a version that increases on each write, used to reject stale updates.
+export interface Versioned { version?: number; }
+
+export interface Visitor extends Versioned { id: number; name: string; contact: string; purpose: string; resident: string; block?: string; houseNo?: string; vehicle?: string; carBrand?: string; photo?: string; status: string; checkInTime?: string; checkOutTime?: string; expectedArrival?: string; expectedDeparture?: string; preRegistered?: boolean; residentApprovalDeadline?: string; decidedBy?: string; scheduleId?: number; profileId?: number; overstayedAt?: string; autoCheckedOut?: boolean; parkingBay?: string; idDocument?: string; }
+// The person behind a visit. Returning visitors are matched to their profile by contact number.
+export interface VisitorProfile extends Versioned { id: number; name: string; contact: string; vehicle?: string; carBrand?: string; photo?: string; }
+// A banned or flagged person or vehicle. Visits are matched on name, contact number and plate;
+// the photo is only for guards to compare against.
+export interface WatchlistEntry extends Versioned { id: number; name?: string; contact?: string; vehicle?: string; photo?: string; action: 'block' | 'warn'; reason: string; createdBy: string; createdAt: string; }
+// Raised for officers when something needs their attention, such as a watchlist match at the gate.
+export interface SecurityAlert extends Versioned { id: number; kind: 'watchlist' | 'overstay'; message: string; visitorName: string; visitorId?: number; stage: 'registration' | 'check-in' | 'stay'; raisedBy: string; createdAt: string; acknowledgedBy?: string; }
+// `invitedAt` is set while the account waits for its invite code to be redeemed. `mustChangePassword`
+// holds the user on the change-password screen until they replace a temporary or too-weak password.
+// With two-factor authentication on, `totpSecret` is the authenticator app's key, `totpLastStep` the
+// time step of the last code used, and `recoveryCodes` the hashes of the unused recovery codes.
+export interface User extends Versioned { id: number; username: string; password?: string; passwordHash?: string; role: string; unitNo?: string; invitedAt?: string; mustChangePassword?: boolean; twoFactorEnabledAt?: string; totpSecret?: string; totpLastStep?: number; recoveryCodes?: string[]; }
+export interface CompanyInfo extends Versioned { name: string; logo: string; address: string; welcomeMessage: string; personInCharge: string; contactNumber: string; }
+// How long visitors may stay, in hours, and the optional end-of-day time ("hh:mm" in `timeZone`)
+// when anyone still checked in is checked out automatically.
+export interface StayPolicy extends Versioned { defaultMaxHours: number; maxHoursByPurpose: Record<string, number>; autoCheckOutAt: string; timeZone: string; }
+// Rules for new passwords, how many failed logins (0 for no limit) lock an account and for how long,
+// and whether privileged users must sign in with an authenticator app as well.
+export interface PasswordPolicy extends Versioned { minLength: number; requireUppercase: boolean; requireLowercase: boolean; requireNumber: boolean; requireSymbol: boolean; maxFailedAttempts: number; lockoutMinutes: number; requireTwoFactor: boolean; }
+// A visitor parking bay, addressed as `${block}-${label}`. A bay is taken while a checked-in visitor is assigned to it.
+export interface ParkingBay extends Versioned { block: string; label: string; }
+// A car belonging to a unit, so guards can tell residents' cars from visitors'.
+export interface ResidentVehicle extends Versioned { id: number; plate: string; unitNo: string; carBrand?: string; addedBy: string; }
+export interface PredefinedUnit extends Versioned { block: string; houseNo: string; }
+// A named set of permissions. The built-in roles are presets that can be edited but not removed;
+// users of a role with `hasUnit` belong to a unit, as residents do.
+export interface Role extends Versioned { name: string; permissions: string[]; hasUnit: boolean; builtIn?: boolean; }
+export interface PendingChat extends Versioned { id: number; userId: number | null; userName: string; unit: string; initialQuery: string; messages: any[]; dismissed: boolean; adminReplied: boolean; }
+// A recurring or multi-day visit. Each arrival creates a Visitor record from `visitor`.
+export interface ScheduledVisitor { name: string; contact: string; purpose: string; resident: string; block?: string; houseNo?: string; vehicle?: string; carBrand?: string; }
+export interface VisitSchedule extends Versioned { id: number; visitor: ScheduledVisitor; kind: 'once' | 'weekly'; startDate: string; endDate: string; days: number[]; startTime: string; endTime: string; timeZone: string; createdBy: number; }
+// A login on one device. Sessions saved before `lastSeenAt` was recorded count as last seen at login.
+export interface Session { userId: number; createdAt: string; lastSeenAt?: string; userAgent?: string; }
+// A session as listed to its user or an administrator. `id` is a digest of the session id, which
+// only ever travels in the cookie.
+export interface SessionInfo { id: string; createdAt: string; lastSeenAt: string; expiresAt: string; userAgent: string; current: boolean; }
+export interface AuditEntry { id: string; timestamp: string; actorId: number; actorName: string; actorRole: string; action: string; targetType: string; targetId: string; targetLabel: string; changes: Record<string, { from: unknown; to: unknown }>; }
+
+// The user shape that is safe to send to a browser.
+export type PublicUser = Omit<User, 'password' | 'passwordHash' | 'totpSecret' | 'totpLastStep' | 'recoveryCodes'>;
+// The signed-in user as sent to their own browser. `mustSetUpTwoFactor` holds them on the setup
+// screen while the password rules require a second factor they haven't added yet.
+export type SessionUser = PublicUser & { mustSetUpTwoFactor?: boolean };
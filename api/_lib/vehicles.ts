@@ -0,0 +1,63 @@
+// api/_lib/vehicles.ts
+import { kv } from '@vercel/kv';
+import { bays, visitors } from './collections';
+import type { ParkingBay, Visitor } from './types';
+
+// Plates are written with and without spaces or dashes, so they are compared by letters and digits only.
+export function plateKey(plate: string | undefined): string {
+    return (plate ?? '').replace(/[^a-z0-9]/gi, '').toUpperCase();
+}
+
+// The stored form of a plate: upper case with single spaces, e.g. "wxy-1234 " becomes "WXY 1234".
+export function normalizePlate(plate: string | undefined): string {
+    return (plate ?? '').toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
+
+// Bays taken by checked-in visitors, mapped to the visitor id in each.
+export async function occupiedBays(): Promise<Map<string, number>> {
+    const occupied = new Map<string, number>();
+    for (const visitor of await visitors.list()) {
+        if (visitor.status === 'Checked-in' && visitor.parkingBay) occupied.set(visitor.parkingBay, visitor.id);
+    }
+    return occupied;
+}
+
+// A bay is claimed by setting `parking:bay:<id>` to the visitor's id before the visitor is saved, so
+// two guards giving out the same bay at once can't both succeed. The claim lapses after a minute
+// unless the save goes through and settleBayClaims makes it stick.
+const BAY_CLAIM_PENDING_MS = 60 * 1000;
+
+const RELEASE_BAY_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then return redis.call('DEL', KEYS[1]) end
+return 0`;
+
+function bayClaimKey(bay: string) {
+    return `parking:bay:${bay}`;
+}
+
+// Claims `bay` for the visitor. Returns why it can't be given to them, or null once it's theirs.
+export async function claimBay(bay: string, visitorId: number): Promise<string | null> {
+    if (!(await bays.get(bay))) return `There is no parking bay ${bay}`;
+    // Visitors parked before bays were claimed hold theirs without a claim.
+    const holder = (await occupiedBays()).get(bay);
+    if (holder !== undefined && holder !== visitorId) return `Parking bay ${bay} is already taken`;
+    const key = bayClaimKey(bay);
+    if (await kv.set(key, String(visitorId), { nx: true, px: BAY_CLAIM_PENDING_MS })) return null;
+    return Number(await kv.get(key)) === visitorId ? null : `Parking bay ${bay} is already taken`;
+}
+
+// Once a visitor has been saved (or deleted, with `visit` null), keeps the claims on `bayIds` that
+// they now hold and releases the rest: a bay they left, or one claimed for a change that didn't go through.
+export async function settleBayClaims(visitorId: number, visit: Visitor | null, ...bayIds: (string | undefined)[]) {
+    for (const bay of new Set(bayIds)) {
+        if (!bay) continue;
+        if (visit?.status === 'Checked-in' && visit.parkingBay === bay) await kv.persist(bayClaimKey(bay));
+        else await kv.eval(RELEASE_BAY_SCRIPT, [bayClaimKey(bay)], [String(visitorId)]);
+    }
+}
+
+export function parseBay(body: Record<string, unknown>): ParkingBay | null {
+    const block = typeof body.block === 'string' ? body.block.trim().toUpperCase() : '';
+    const label = typeof body.label === 'string' ? body.label.trim().toUpperCase() : '';
+    return block && label ? { block, label } : null;
+}
@@ -0,0 +1,203 @@
+// api/_lib/visits.ts
+import { loadUsers } from './auth';
+import { can } from './permissions';
+import type { StayPolicy, Visitor, VisitSchedule } from './types';
+
+// How long the resident has to answer a walk-in before it is escalated to officers.
+const RESIDENT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+// Visitors arriving a little early still count as on time.
+const EARLY_ARRIVAL_GRACE_MS = 15 * 60 * 1000;
+
+// The approval deadline a new Pending visit gets: the unit's residents answer first if it has any
+// who can.
+export async function approvalDeadlineFor(resident: string): Promise<Pick<Visitor, 'residentApprovalDeadline'>> {
+    const hasResident = (await loadUsers()).some(u => u.unitNo === resident && can(u, 'visitor.respond'));
+    return hasResident ? { residentApprovalDeadline: new Date(Date.now() + RESIDENT_APPROVAL_TIMEOUT_MS).toISOString() } : {};
+}
+
+// True when `now` falls inside the expected window. A visit without a window is always on time.
+export function isWithinWindow(start: string | undefined, end: string | undefined, now = Date.now()): boolean {
+    if (!start || !end) return true;
+    return now >= new Date(start).getTime() - EARLY_ARRIVAL_GRACE_MS && now <= new Date(end).getTime();
+}
+
+// --- SCHEDULES ---
+// Schedule dates and times are wall-clock values at the property, in the schedule's time zone.
+
+function zonedParts(date: Date, timeZone: string): Record<string, number> {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(date);
+    return Object.fromEntries(parts.filter(p => p.type !== 'literal').map(p => [p.type, Number(p.value)]));
+}
+
+// Converts a wall-clock date ("2024-05-01") and time ("09:30") in `timeZone` to the instant it names.
+function zonedTime(date: string, time: string, timeZone: string): Date {
+    const guess = new Date(`${date}T${time}:00Z`);
+    const p = zonedParts(guess, timeZone);
+    const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - guess.getTime();
+    return new Date(guess.getTime() - offset);
+}
+
+// The property's current date ("2024-05-01") in `timeZone`.
+function zonedToday(now: Date, timeZone: string): string {
+    const p = zonedParts(now, timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}`;
+}
+
+// The expected window on the property's current day, or null when the schedule doesn't fall on it.
+export function scheduleWindowToday(schedule: VisitSchedule, now = new Date()): { start: string; end: string } | null {
+    const today = zonedToday(now, schedule.timeZone);
+    const weekday = new Date(`${today}T00:00:00Z`).getUTCDay();
+
+    if (today < schedule.startDate || today > schedule.endDate) return null;
+    if (schedule.kind === 'weekly' && !schedule.days.includes(weekday)) return null;
+    return {
+        start: zonedTime(today, schedule.startTime, schedule.timeZone).toISOString(),
+        end: zonedTime(today, schedule.endTime, schedule.timeZone).toISOString(),
+    };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export function scheduleError(schedule: Partial<VisitSchedule>): string | null {
+    const { kind, startDate, endDate, days, startTime, endTime, timeZone, visitor } = schedule;
+    if (!visitor?.name || !visitor.resident) return 'A scheduled visitor needs at least a name and a resident unit';
+    if (kind !== 'once' && kind !== 'weekly') return 'A schedule is either one-off or weekly';
+    if (!startDate || !endDate || !DATE_PATTERN.test(startDate) || !DATE_PATTERN.test(endDate)) return 'A schedule needs a start and end date';
+    if (endDate < startDate) return 'A schedule must end on or after the day it starts';
+    if (!startTime || !endTime || !TIME_PATTERN.test(startTime) || !TIME_PATTERN.test(endTime)) return 'A schedule needs a start and end time';
+    if (endTime <= startTime) return 'The daily window must end after it starts';
+    if (kind === 'weekly' && (!Array.isArray(days) || days.length === 0 || !days.every(d => Number.isInteger(d) && d >= 0 && d <= 6))) {
+        return 'A weekly schedule needs at least one day of the week';
+    }
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+    } catch {
+        return 'Unknown time zone';
+    }
+    return null;
+}
+
+// --- STAY LIMITS ---
+
+// The limit for the visitor's purpose, or the default one. Zero means no limit.
+export function maxStayHours(visitor: Visitor, policy: StayPolicy): number {
+    return policy.maxHoursByPurpose[visitor.purpose.toUpperCase()] ?? policy.defaultMaxHours;
+}
+
+// When a checked-in visitor's stay runs out, in epoch milliseconds.
+export function stayDeadline(visitor: Visitor, policy: StayPolicy): number | null {
+    const hours = maxStayHours(visitor, policy);
+    if (!visitor.checkInTime || hours <= 0) return null;
+    return new Date(visitor.checkInTime).getTime() + hours * 3600 * 1000;
+}
+
+// Today's automatic check-out time once it has passed, or null if there is none (yet).
+export function autoCheckOutCutoff(policy: StayPolicy, now = new Date()): Date | null {
+    if (!policy.autoCheckOutAt) return null;
+    const cutoff = zonedTime(zonedToday(now, policy.timeZone), policy.autoCheckOutAt, policy.timeZone);
+    return cutoff.getTime() <= now.getTime() ? cutoff : null;
+}
+
+export function stayPolicyError(policy: Partial<StayPolicy>): string | null {
+    const isHours = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0;
+    if (!isHours(policy.defaultMaxHours)) return 'The default stay limit must be a number of hours';
+    if (typeof policy.maxHoursByPurpose !== 'object' || policy.maxHoursByPurpose === null || !Object.values(policy.maxHoursByPurpose).every(isHours)) {
+        return 'Stay limits per purpose must be numbers of hours';
+    }
+    if (policy.autoCheckOutAt && !TIME_PATTERN.test(policy.autoCheckOutAt)) return 'The automatic check-out time must look like 23:00';
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: policy.timeZone });
+    } catch {
+        return 'Unknown time zone';
+    }
+    return null;
+}
+
+// --- DASHBOARD QUERIES ---
+
+export type VisitorSort = 'newest' | 'oldest' | 'name';
+
+export interface VisitorQuery {
+    statuses?: string[];
+    from?: number; // Epoch milliseconds, inclusive, on the visit time
+    to?: number;
+    block?: string;
+    unit?: string; // e.g. "A-101"
+    purpose?: string;
+    search?: string; // Case-insensitive match on name, unit, purpose, plate or car brand
+    sort: VisitorSort;
+    cursor?: string; // From the previous page's nextCursor
+    limit: number;
+}
+
+export interface VisitorPage {
+    visitors: Visitor[];
+    nextCursor: string | null;
+    total: number; // Visits matching the filters, across all pages
+}
+
+// When the visit happened: check-in, else the expected arrival, else registration (ids are creation timestamps).
+export function visitTime(visitor: Visitor): number {
+    return Date.parse(visitor.checkInTime ?? visitor.expectedArrival ?? '') || visitor.id;
+}
+
+function matchesQuery(visitor: Visitor, query: VisitorQuery): boolean {
+    if (query.statuses?.length && !query.statuses.includes(visitor.status)) return false;
+    const time = visitTime(visitor);
+    if (query.from !== undefined && time < query.from) return false;
+    if (query.to !== undefined && time > query.to) return false;
+    if (query.block && visitor.resident.split('-')[0] !== query.block) return false;
+    if (query.unit && visitor.resident !== query.unit) return false;
+    if (query.purpose && visitor.purpose.toUpperCase() !== query.purpose.toUpperCase()) return false;
+    if (query.search) {
+        const search = query.search.toLowerCase();
+        const fields = [visitor.name, visitor.resident, visitor.purpose, visitor.vehicle, visitor.carBrand];
+        if (!fields.some(field => field?.toLowerCase().includes(search))) return false;
+    }
+    return true;
+}
+
+type SortKey = [number | string, number];
+
+function sortKeyOf(visitor: Visitor, sort: VisitorSort): SortKey {
+    return [sort === 'name' ? visitor.name : visitTime(visitor), visitor.id];
+}
+
+// Newest first sorts by descending time; ties are broken by id so every visit has a fixed place in the order.
+function compareKeys(a: SortKey, b: SortKey, sort: VisitorSort): number {
+    const direction = sort === 'newest' ? -1 : 1;
+    const primary = typeof a[0] === 'string' ? a[0].localeCompare(b[0] as string) : a[0] - (b[0] as number);
+    return (primary || a[1] - b[1]) * direction;
+}
+
+// Cursors name the last visit shown rather than an offset, so visits registered while paging don't shift pages.
+const encodeCursor = (key: SortKey) => Buffer.from(JSON.stringify(key)).toString('base64url');
+
+function decodeCursor(cursor: string | undefined): SortKey | null {
+    if (!cursor) return null;
+    try {
+        const key = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+        return Array.isArray(key) && key.length === 2 && typeof key[1] === 'number' ? key as SortKey : null;
+    } catch {
+        return null;
+    }
+}
+
+export function queryVisitors(all: Visitor[], query: VisitorQuery): VisitorPage {
+    const matching = all.filter(v => matchesQuery(v, query));
+    const sorted = matching
+        .map(visitor => ({ visitor, key: sortKeyOf(visitor, query.sort) }))
+        .sort((a, b) => compareKeys(a.key, b.key, query.sort));
+    const after = decodeCursor(query.cursor);
+    const rest = after ? sorted.filter(entry => compareKeys(entry.key, after, query.sort) > 0) : sorted;
+    const page = rest.slice(0, query.limit);
+    return {
+        visitors: page.map(entry => entry.visitor),
+        nextCursor: rest.length > query.limit ? encodeCursor(page[page.length - 1].key) : null,
+        total: matching.length,
+    };
+}
@@ -0,0 +1,60 @@
+// api/_lib/watchlist.ts
+import type { NextApiResponse } from 'next';
+import { recordAudit } from './audit';
+import { alerts, watchlist } from './collections';
+import { contactKey } from './profiles';
+import { can } from './permissions';
+import { createWithNumericId } from './store';
+import type { SecurityAlert, User, Visitor, WatchlistEntry } from './types';
+import { plateKey } from './vehicles';
+
+type ScreenedDetails = Pick<Visitor, 'name' | 'contact' | 'vehicle'>;
+
+const nameKey = (name: string | undefined) => (name ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+// An entry matches when any of the details it names matches the visit.
+export function matchesEntry(entry: WatchlistEntry, visit: ScreenedDetails): boolean {
+    return (!!nameKey(entry.name) && nameKey(entry.name) === nameKey(visit.name))
+        || (!!contactKey(entry.contact) && contactKey(entry.contact) === contactKey(visit.contact))
+        || (!!plateKey(entry.vehicle) && plateKey(entry.vehicle) === plateKey(visit.vehicle));
+}
+
+export function watchlistEntryError(entry: Partial<WatchlistEntry>): string | null {
+    if (!nameKey(entry.name) && !contactKey(entry.contact) && !plateKey(entry.vehicle)) {
+        return 'A watchlist entry needs a name, contact number or vehicle plate to match visitors on';
+    }
+    if (entry.action !== 'block' && entry.action !== 'warn') return 'A watchlist entry either blocks or warns';
+    if (!entry.reason?.trim()) return 'Please give a reason for the watchlist entry';
+    return null;
+}
+
+// Checks a visit against the watchlist at registration or check-in. Every match raises an alert for
+// officers. A blocking match also answers 403, and the caller must stop there. Only users who can
+// see the watchlist are told the reason; it is in the alert and the audit log either way.
+export async function screenVisit(user: User, visit: ScreenedDetails, stage: SecurityAlert['stage'], res: NextApiResponse): Promise<boolean> {
+    const matches = (await watchlist.list()).filter(entry => matchesEntry(entry, visit));
+    if (matches.length === 0) return true;
+
+    const blocking = matches.find(entry => entry.action === 'block');
+    for (const entry of matches) {
+        const alert = await createWithNumericId(alerts, {
+            kind: 'watchlist',
+            message: `${entry.action === 'block' ? 'Blocked' : 'Watchlist warning'}: ${entry.reason}`,
+            visitorName: visit.name,
+            stage,
+            raisedBy: `${user.username} (${user.role})`,
+            createdAt: new Date().toISOString(),
+        });
+        await recordAudit(user, 'watchlist.match', { type: 'alert', id: alert.id, label: visit.name }, null, alert);
+    }
+
+    if (blocking) {
+        res.status(403).json({
+            error: can(user, 'visitor.viewAll')
+                ? `${visit.name} is on the watchlist and may not enter: ${blocking.reason}`
+                : `${visit.name} cannot be registered. Please contact the guard house.`,
+        });
+        return false;
+    }
+    return true;
+}
@@ -0,0 +1,47 @@
+// api/alerts/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { alerts } from '../_lib/collections';
+import { conflict, etag, methodNotAllowed, preconditionRequired, readId, readIfMatch } from '../_lib/http';
+import { canAccessAlert } from '../_lib/permissions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await alerts.get(id);
+        if (!existing || !canAccessAlert(user, existing)) {
+            res.status(404).json({ error: 'Alert not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.setHeader('ETag', etag(existing.version));
+            res.status(200).json(existing);
+        } else if (req.method === 'PATCH') {
+            // The only change an alert takes is being acknowledged, by whoever sends the request.
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const saved = await alerts.save({ ...existing, acknowledgedBy: `${user.username} (${user.role})` }, expectedVersion);
+            if (!saved) {
+                conflict(res, await alerts.get(id));
+                return;
+            }
+            await recordAudit(user, 'alert.acknowledge', { type: 'alert', id: saved.id, label: saved.visitorName }, existing, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } else {
+            methodNotAllowed(req, res, ['GET', 'PATCH']);
+        }
+    } catch (error) {
+        console.error(`Error handling alert ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process alert request' });
+    }
+}
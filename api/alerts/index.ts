@@ -0,0 +1,23 @@
+// api/alerts/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { alerts } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+import { canAccessAlert } from '../_lib/permissions';
+
+// Alerts are raised by the server itself (see screenVisit and the overstay check), so this route only lists them.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+        res.status(200).json((await alerts.list()).filter(a => canAccessAlert(user, a)));
+    } catch (error) {
+        console.error('Error fetching alerts:', error);
+        res.status(500).json({ error: 'Failed to fetch alerts' });
+    }
+}
@@ -0,0 +1,37 @@
+// api/audit.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { queryAudit } from './_lib/audit';
+import { requireUser } from './_lib/auth';
+import { methodNotAllowed, readQuery, readTimestamp } from './_lib/http';
+import { requirePermission } from './_lib/permissions';
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+// Read-only view of the audit trail, newest first, e.g. /api/audit?action=visitor.&from=2024-05-01&cursor=...
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'audit.view')) return;
+
+        const limit = parseInt(readQuery(req, 'limit'), 10) || DEFAULT_PAGE_SIZE;
+        res.status(200).json(await queryAudit({
+            action: readQuery(req, 'action') || undefined,
+            actor: readQuery(req, 'actor') || undefined,
+            targetType: readQuery(req, 'targetType') || undefined,
+            targetId: readQuery(req, 'targetId') || undefined,
+            from: readTimestamp(req, 'from'),
+            to: readTimestamp(req, 'to'),
+            cursor: readQuery(req, 'cursor') || undefined,
+            limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+        }));
+    } catch (error) {
+        console.error('Error fetching audit log:', error);
+        res.status(500).json({ error: 'Failed to fetch audit log' });
+    }
+}
@@ -0,0 +1,44 @@
+// api/auth/invite.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { normalizeCode, passwordError, redeemInvite } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { createSession, toSessionUser, withHashedPassword } from '../_lib/auth';
+import { passwordPolicy, users } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+
+// Redeems an invite code: the new user chooses their password and is logged in.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const { code, password } = req.body ?? {};
+        if (typeof password !== 'string' || !password) {
+            res.status(400).json({ error: 'Please choose a password' });
+            return;
+        }
+        // Checked before the code is used up, so a rejected password doesn't cost the user their invite.
+        const weak = passwordError(await passwordPolicy.get(), password, '');
+        if (weak) {
+            res.status(400).json({ error: weak });
+            return;
+        }
+
+        const userId = await redeemInvite(normalizeCode(code));
+        const invited = userId !== null ? await users.get(String(userId)) : null;
+        if (!invited?.invitedAt) {
+            res.status(400).json({ error: 'This invite code is not valid or has expired. Ask the management office for a new one.' });
+            return;
+        }
+
+        const user = await users.put(await withHashedPassword({ ...invited, password, invitedAt: undefined }));
+        await createSession(req, res, user);
+        await recordAudit(user, 'user.acceptInvite', { type: 'user', id: user.id, label: user.username });
+        res.status(200).json({ user: await toSessionUser(user) });
+    } catch (error) {
+        console.error('Error redeeming invite:', error);
+        res.status(500).json({ error: 'Failed to redeem invite' });
+    }
+}
@@ -0,0 +1,62 @@
+// api/auth/login.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { clearFailedLogins, createLoginChallenge, lockedUntil, passwordError, recordFailedLogin } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { createSession, loadUsers, toSessionUser, verifyPassword } from '../_lib/auth';
+import { passwordPolicy, users as userRecords } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const { username, password } = req.body ?? {};
+        if (typeof username !== 'string' || typeof password !== 'string') {
+            res.status(400).json({ error: 'Username and password are required' });
+            return;
+        }
+
+        const minutesUntil = (time: number) => Math.ceil((time - Date.now()) / 60000);
+        const locked = await lockedUntil(username);
+        if (locked) {
+            res.status(429).json({ error: `Too many failed logins. Please try again in ${minutesUntil(locked)} minute(s).` });
+            return;
+        }
+
+        const policy = await passwordPolicy.get();
+        const users = await loadUsers();
+        let user = users.find(u => u.username === username);
+
+        // The password is checked even for an unknown username, so both fail in the same time.
+        const isValid = await verifyPassword(password, user?.passwordHash);
+        if (!user || !isValid) {
+            const lockout = await recordFailedLogin(username, policy);
+            if (lockout && user) await recordAudit(user, 'auth.lockout', { type: 'user', id: user.id, label: user.username });
+            res.status(lockout ? 429 : 401).json({ error: lockout ? `Too many failed logins. Please try again in ${minutesUntil(lockout)} minute(s).` : 'Invalid username or password.' });
+            return;
+        }
+        // With a second factor the count carries on until the code is right too, so logging in again
+        // can't reset it between guesses at the code.
+        if (!user.twoFactorEnabledAt) await clearFailedLogins(username);
+
+        // Passwords set before the current rules (such as the seeded ones) have to be replaced now.
+        if (!user.mustChangePassword && passwordError(policy, password, user.username)) {
+            user = await userRecords.put({ ...user, mustChangePassword: true });
+        }
+        // With a second factor the session only starts once /api/auth/two-factor has checked the code.
+        if (user.twoFactorEnabledAt) {
+            res.status(200).json({ twoFactorRequired: true, challenge: await createLoginChallenge(user) });
+            return;
+        }
+
+        await createSession(req, res, user);
+        await recordAudit(user, 'auth.login', { type: 'user', id: user.id, label: user.username });
+        res.status(200).json({ user: await toSessionUser(user) });
+    } catch (error) {
+        console.error('Error during login:', error);
+        res.status(500).json({ error: 'Failed to log in' });
+    }
+}
@@ -0,0 +1,22 @@
+// api/auth/logout.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { destroySession, getSessionUser } from '../_lib/auth';
+import { methodNotAllowed } from '../_lib/http';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await getSessionUser(req);
+        await destroySession(req, res);
+        if (user) await recordAudit(user, 'auth.logout', { type: 'user', id: user.id, label: user.username });
+        res.status(200).json({ message: 'Logged out' });
+    } catch (error) {
+        console.error('Error during logout:', error);
+        res.status(500).json({ error: 'Failed to log out' });
+    }
+}
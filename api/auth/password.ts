@@ -0,0 +1,52 @@
+// api/auth/password.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { passwordError } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { getSessionUser, revokeOtherSessions, toSessionUser, verifyPassword, withHashedPassword } from '../_lib/auth';
+import { passwordPolicy, users } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+
+// Lets any signed-in user replace their password: POST { currentPassword, newPassword }.
+// This is the one call open to users who have been told to change their password. The user's other
+// sessions end; this one carries on.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await getSessionUser(req);
+        if (!user) {
+            res.status(401).json({ error: 'Not authenticated' });
+            return;
+        }
+
+        const { currentPassword, newPassword } = req.body ?? {};
+        if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+            res.status(400).json({ error: 'Your current and new passwords are required' });
+            return;
+        }
+        if (!(await verifyPassword(currentPassword, user.passwordHash))) {
+            res.status(400).json({ error: 'Your current password is incorrect' });
+            return;
+        }
+        if (newPassword === currentPassword) {
+            res.status(400).json({ error: 'Your new password must be different from the current one' });
+            return;
+        }
+        const invalid = passwordError(await passwordPolicy.get(), newPassword, user.username);
+        if (invalid) {
+            res.status(400).json({ error: invalid });
+            return;
+        }
+
+        const saved = await users.put(await withHashedPassword({ ...user, password: newPassword, mustChangePassword: undefined }));
+        await revokeOtherSessions(req, saved.id);
+        await recordAudit(user, 'auth.changePassword', { type: 'user', id: user.id, label: user.username });
+        res.status(200).json({ user: await toSessionUser(saved) });
+    } catch (error) {
+        console.error('Error changing password:', error);
+        res.status(500).json({ error: 'Failed to change password' });
+    }
+}
@@ -0,0 +1,24 @@
+// api/auth/session.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionUser, toSessionUser } from '../_lib/auth';
+import { methodNotAllowed } from '../_lib/http';
+
+// Returns the user behind the session cookie so the client can restore a login after a reload.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await getSessionUser(req);
+        if (!user) {
+            res.status(401).json({ error: 'Not authenticated' });
+            return;
+        }
+        res.status(200).json({ user: await toSessionUser(user) });
+    } catch (error) {
+        console.error('Error resolving session:', error);
+        res.status(500).json({ error: 'Failed to resolve session' });
+    }
+}
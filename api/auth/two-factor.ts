@@ -0,0 +1,58 @@
+// api/auth/two-factor.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { checkSecondFactor, clearFailedLogins, endLoginChallenge, lockedUntil, readLoginChallenge, recordFailedLogin } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { createSession, toSessionUser } from '../_lib/auth';
+import { passwordPolicy, users } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+
+// The second step of logging in for users with two-factor authentication: POST { challenge, code },
+// where `challenge` came from /api/auth/login and `code` is from their authenticator app or one of
+// their recovery codes. Wrong codes count towards the same lockout as wrong passwords.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const { challenge, code } = req.body ?? {};
+        const userId = await readLoginChallenge(challenge);
+        const user = userId !== null ? await users.get(String(userId)) : null;
+        if (!user || typeof code !== 'string') {
+            res.status(400).json({ error: 'Your login has expired. Please enter your password again.', challengeExpired: true });
+            return;
+        }
+
+        const minutesUntil = (time: number) => Math.ceil((time - Date.now()) / 60000);
+        const locked = await lockedUntil(user.username);
+        if (locked) {
+            await endLoginChallenge(challenge);
+            res.status(429).json({ error: `Too many failed logins. Please try again in ${minutesUntil(locked)} minute(s).`, challengeExpired: true });
+            return;
+        }
+
+        const verified = checkSecondFactor(user, code);
+        if (!verified) {
+            const lockout = await recordFailedLogin(user.username, await passwordPolicy.get());
+            if (lockout) {
+                await endLoginChallenge(challenge);
+                await recordAudit(user, 'auth.lockout', { type: 'user', id: user.id, label: user.username });
+                res.status(429).json({ error: `Too many failed logins. Please try again in ${minutesUntil(lockout)} minute(s).`, challengeExpired: true });
+                return;
+            }
+            res.status(401).json({ error: 'That code is not correct.' });
+            return;
+        }
+        await clearFailedLogins(user.username);
+        await endLoginChallenge(challenge);
+
+        const saved = await users.put(verified);
+        await createSession(req, res, saved);
+        await recordAudit(saved, 'auth.login', { type: 'user', id: saved.id, label: saved.username });
+        res.status(200).json({ user: await toSessionUser(saved) });
+    } catch (error) {
+        console.error('Error checking second factor:', error);
+        res.status(500).json({ error: 'Failed to log in' });
+    }
+}
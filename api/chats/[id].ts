@@ -0,0 +1,72 @@
+// api/chats/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { isDeepStrictEqual } from 'util';
+import { requireUser } from '../_lib/auth';
+import { chats } from '../_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readId, readIfMatch } from '../_lib/http';
+import { canAccessChat, requirePermission } from '../_lib/permissions';
+import type { PendingChat } from '../_lib/types';
+
+// The chat owner may only add messages after the stored ones, which are sent back unchanged; replying
+// as staff, rewriting or dropping earlier messages, dismissing and deleting need chat.reply.
+const OWNER_EDITABLE_FIELDS = ['messages', 'version'];
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await chats.get(id);
+        if (!existing || !canAccessChat(user, existing)) {
+            res.status(404).json({ error: 'Chat not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.setHeader('ETag', etag(existing.version));
+            res.status(200).json(existing);
+        } else if (req.method === 'PATCH') {
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a chat object' });
+                return;
+            }
+            const messages = req.body.messages;
+            if (messages !== undefined && !Array.isArray(messages)) {
+                res.status(400).json({ error: 'A chat needs a list of messages' });
+                return;
+            }
+            const keepsHistory = messages === undefined || (messages.length >= existing.messages.length
+                && existing.messages.every((message, i) => isDeepStrictEqual(message, messages[i])));
+            const addedMessages: { sender?: string }[] = (messages ?? []).slice(existing.messages.length);
+            const isStaffEdit = Object.keys(req.body).some(key => !OWNER_EDITABLE_FIELDS.includes(key))
+                || !keepsHistory
+                || addedMessages.some(m => m.sender === 'admin');
+            if (isStaffEdit && !requirePermission(res, user, 'chat.reply')) return;
+
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const updated: PendingChat = { ...existing, ...req.body, id: existing.id };
+            const saved = await chats.save(updated, expectedVersion);
+            if (!saved) {
+                conflict(res, await chats.get(id));
+                return;
+            }
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'chat.reply')) return;
+            await chats.remove(id);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'PATCH', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling chat ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process chat request' });
+    }
+}
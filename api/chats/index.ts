@@ -0,0 +1,48 @@
+// api/chats/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { chats } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { canAccessChat } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { PendingChat } from '../_lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            const all = await chats.list();
+            res.status(200).json(all.filter(c => canAccessChat(user, c)));
+        } catch (error) {
+            console.error('Error fetching chats:', error);
+            res.status(500).json({ error: 'Failed to fetch chats' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+
+            if (!isRecord(req.body) || !Array.isArray(req.body.messages)) {
+                res.status(400).json({ error: 'A chat needs a list of messages' });
+                return;
+            }
+            // Anyone signed in can start a chat, but always as themselves, from their own unit and unanswered.
+            const { id, version, ...chat } = req.body as PendingChat;
+            const created = await createWithNumericId(chats, {
+                ...chat,
+                userId: user.id,
+                userName: user.username,
+                unit: user.unitNo ?? '',
+                dismissed: false,
+                adminReplied: false,
+            });
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating chat:', error);
+            res.status(500).json({ error: 'Failed to create chat' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
@@ -0,0 +1,54 @@
+// api/company.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from './_lib/audit';
+import { requireUser } from './_lib/auth';
+import { companyInfo } from './_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readIfMatch } from './_lib/http';
+import { storeInlineImage } from './_lib/images';
+import { requirePermission } from './_lib/permissions';
+import type { CompanyInfo } from './_lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            if (!(await requireUser(req, res))) return;
+            const current = await companyInfo.get();
+            res.setHeader('ETag', etag(current.version));
+            res.status(200).json(current);
+        } catch (error) {
+            console.error('Error fetching company info:', error);
+            res.status(500).json({ error: 'Failed to fetch company info' });
+        }
+    } else if (req.method === 'PATCH') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'company.manage')) return;
+
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a company profile' });
+                return;
+            }
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const current = await companyInfo.get();
+            const updated: CompanyInfo = { ...current, ...req.body };
+            if (req.body.logo) updated.logo = await storeInlineImage(req.body.logo) ?? '';
+            const saved = await companyInfo.save(updated, expectedVersion);
+            if (!saved) {
+                conflict(res, await companyInfo.get());
+                return;
+            }
+            await recordAudit(user, 'company.update', { type: 'company', id: 'companyInfo', label: saved.name }, current, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } catch (error) {
+            console.error('Error saving company info:', error);
+            res.status(500).json({ error: 'Failed to save company info' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'PATCH']);
+    }
+}
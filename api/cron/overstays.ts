@@ -0,0 +1,70 @@
+// api/cron/overstays.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { alerts, stayPolicy, visitors } from '../_lib/collections';
+import { methodNotAllowed } from '../_lib/http';
+import { createWithNumericId } from '../_lib/store';
+import type { User } from '../_lib/types';
+import { settleBayClaims } from '../_lib/vehicles';
+import { autoCheckOutCutoff, maxStayHours, stayDeadline } from '../_lib/visits';
+
+// Changes made by this job are audited under a system actor rather than a logged-in user.
+const SYSTEM_ACTOR: User = { id: 0, username: 'system', role: 'System' };
+
+// Run every few minutes by Vercel Cron (see vercel.json). Flags checked-in visitors who have stayed
+// past their limit and alerts Security, and applies the end-of-day automatic check-out if one is set.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+    // Vercel Cron sends the project's CRON_SECRET as a bearer token. Without one the job stays off.
+    const secret = process.env.CRON_SECRET;
+    if (!secret || req.headers.authorization !== `Bearer ${secret}`) {
+        res.status(401).json({ error: 'Not authorized' });
+        return;
+    }
+
+    try {
+        const policy = await stayPolicy.get();
+        const now = new Date();
+        const cutoff = autoCheckOutCutoff(policy, now);
+        let flagged = 0;
+        let checkedOut = 0;
+
+        for (const visitor of await visitors.list()) {
+            if (visitor.status !== 'Checked-in' || !visitor.checkInTime) continue;
+
+            // A save that loses to a concurrent change (e.g. a guard checking them out) is picked up on the next run.
+            if (cutoff && new Date(visitor.checkInTime) < cutoff) {
+                const saved = await visitors.save({ ...visitor, status: 'Checked-out', checkOutTime: cutoff.toISOString(), autoCheckedOut: true }, visitor.version ?? 0);
+                if (!saved) continue;
+                await settleBayClaims(saved.id, saved, visitor.parkingBay);
+                await recordAudit(SYSTEM_ACTOR, 'visitor.autoCheckout', { type: 'visitor', id: saved.id, label: saved.name }, visitor, saved);
+                checkedOut++;
+                continue;
+            }
+
+            const deadline = stayDeadline(visitor, policy);
+            if (visitor.overstayedAt || deadline === null || deadline > now.getTime()) continue;
+            const saved = await visitors.save({ ...visitor, overstayedAt: now.toISOString() }, visitor.version ?? 0);
+            if (!saved) continue;
+            await recordAudit(SYSTEM_ACTOR, 'visitor.overstay', { type: 'visitor', id: saved.id, label: saved.name }, visitor, saved);
+            await createWithNumericId(alerts, {
+                kind: 'overstay',
+                message: `Still checked in at ${saved.resident} past the ${maxStayHours(saved, policy)}-hour limit for ${saved.purpose}`,
+                visitorName: saved.name,
+                visitorId: saved.id,
+                stage: 'stay',
+                raisedBy: SYSTEM_ACTOR.username,
+                createdAt: now.toISOString(),
+            });
+            flagged++;
+        }
+
+        res.status(200).json({ flagged, checkedOut });
+    } catch (error) {
+        console.error('Error checking visitor stays:', error);
+        res.status(500).json({ error: 'Failed to check visitor stays' });
+    }
+}
@@ -0,0 +1,101 @@
+// api/events.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { getSessionUser, requireUser } from './_lib/auth';
+import { isTrimmedAway, latestEventId, readChangesAfter, type ChangeEvent, type ChangeType } from './_lib/events';
+import { methodNotAllowed } from './_lib/http';
+import { can, canAccessAlert, canAccessChat, canAccessSchedule, canAccessVehicle, canAccessVisitor, loadRoles } from './_lib/permissions';
+import type { User } from './_lib/types';
+
+const POLL_INTERVAL_MS = 1000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+// Serverless functions can't hold a connection forever, so each stream ends before the function
+// timeout and the browser's EventSource reconnects, resuming from Last-Event-ID.
+const STREAM_DURATION_MS = 25000;
+
+// Changes to these are only sent to users who could see the record.
+const RESTRICTED_TYPES: ChangeType[] = ['visitors', 'chats', 'schedules', 'profiles', 'watchlist', 'alerts', 'vehicles', 'users'];
+
+// Applies the same visibility rules as the REST routes to each change. Deletes carry the removed
+// record and are checked the same way; older deletes without it only go out for unrestricted types.
+function isVisibleTo(user: User, event: ChangeEvent): boolean {
+    if (!event.record) return !RESTRICTED_TYPES.includes(event.type);
+
+    switch (event.type) {
+        case 'visitors': return canAccessVisitor(user, event.record);
+        case 'chats': return canAccessChat(user, event.record);
+        case 'schedules': return canAccessSchedule(user, event.record);
+        case 'profiles': return can(user, 'visitor.viewAll');
+        case 'watchlist': return can(user, 'visitor.viewAll');
+        case 'alerts': return canAccessAlert(user, event.record);
+        case 'vehicles': return canAccessVehicle(user, event.record);
+        case 'users': return can(user, 'users.manage') || event.record.id === user.id;
+        default: return true;
+    }
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Server-sent events stream of visitor, profile, chat, unit, user, role and company changes.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        // Listening for changes isn't activity, so an unattended tab still times out.
+        let user = await requireUser(req, res, false);
+        if (!user) return;
+
+        const resumeFrom = req.headers['last-event-id'];
+        let lastId = typeof resumeFrom === 'string' && resumeFrom ? resumeFrom : await latestEventId();
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            'Connection': 'keep-alive',
+        });
+        res.write(`retry: ${POLL_INTERVAL_MS}\n\n`);
+        if (typeof resumeFrom === 'string' && resumeFrom && await isTrimmedAway(resumeFrom)) {
+            res.write('event: resync\ndata: {}\n\n');
+        }
+
+        let closed = false;
+        req.on('close', () => { closed = true; });
+
+        const startedAt = Date.now();
+        let lastWriteAt = startedAt;
+        let lastCheckedAt = startedAt;
+        while (!closed && Date.now() - startedAt < STREAM_DURATION_MS) {
+            // The session is checked again every keep-alive interval: one revoked or expired since
+            // connecting ends the stream, and the reconnect is refused. A changed role applies from here on.
+            if (Date.now() - lastCheckedAt > KEEPALIVE_INTERVAL_MS) {
+                const current = await getSessionUser(req, false);
+                if (!current) break;
+                user = current;
+                lastCheckedAt = Date.now();
+            }
+            for (const { id, event } of await readChangesAfter(lastId)) {
+                lastId = id;
+                // Later changes in this stream are filtered by the edited permissions.
+                if (event.type === 'roles') await loadRoles();
+                if (!isVisibleTo(user, event)) continue;
+                res.write(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`);
+                lastWriteAt = Date.now();
+            }
+            if (Date.now() - lastWriteAt > KEEPALIVE_INTERVAL_MS) {
+                res.write(': keepalive\n\n');
+                lastWriteAt = Date.now();
+            }
+            await sleep(POLL_INTERVAL_MS);
+        }
+        res.end();
+    } catch (error) {
+        console.error('Error streaming events:', error);
+        if (!res.headersSent) {
+            res.status(500).json({ error: 'Failed to stream events' });
+        } else {
+            res.end();
+        }
+    }
+}
@@ -0,0 +1,46 @@
+// api/exports/visitors.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { visitors } from '../_lib/collections';
+import { methodNotAllowed, readQuery, readTimestamp } from '../_lib/http';
+import { canAccessVisitor, requirePermission } from '../_lib/permissions';
+import { queryVisitors } from '../_lib/visits';
+
+// Every visit matching the filters, oldest first, for CSV and PDF reports built by the client,
+// e.g. /api/exports/visitors?from=2024-05-01&to=2024-05-31&status=Checked-out&unit=A-101. Only visits
+// the caller could see anyway are exported, so a role that can export but is bound to a unit gets
+// that unit's visits.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'visitor.export')) return;
+
+        const from = readTimestamp(req, 'from');
+        const to = readTimestamp(req, 'to');
+        const visible = (await visitors.list()).filter(v => canAccessVisitor(user, v));
+        const { visitors: exported } = queryVisitors(visible, {
+            statuses: readQuery(req, 'status').split(',').filter(Boolean),
+            from,
+            to,
+            block: readQuery(req, 'block') || undefined,
+            unit: readQuery(req, 'unit') || undefined,
+            purpose: readQuery(req, 'purpose') || undefined,
+            sort: 'oldest',
+            limit: Number.MAX_SAFE_INTEGER,
+        });
+
+        // Reports carry visitors' personal details out of the system, so each one is on the record.
+        const period = `${from !== undefined ? new Date(from).toISOString().slice(0, 10) : 'start'} to ${to !== undefined ? new Date(to).toISOString().slice(0, 10) : 'now'}`;
+        await recordAudit(user, 'visitor.export', { type: 'report', id: 'visitors', label: `${exported.length} visits, ${period}` });
+        res.status(200).json(exported);
+    } catch (error) {
+        console.error('Error exporting visitors:', error);
+        res.status(500).json({ error: 'Failed to export visitors' });
+    }
+}
@@ -0,0 +1,35 @@
+// api/images/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { methodNotAllowed, readId, readQuery } from '../_lib/http';
+import { isImageId, readImage } from '../_lib/images';
+
+// Serves an image, or its thumbnail with ?size=thumb. Ids follow the content, so browsers may cache them for good.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        if (!(await requireUser(req, res))) return;
+
+        const image = isImageId(id) ? await readImage(id, readQuery(req, 'size') === 'thumb' ? 'thumb' : 'original') : null;
+        if (!image) {
+            res.status(404).json({ error: 'Image not found' });
+            return;
+        }
+        // Images stored before only photo formats were accepted may still be SVG, so nothing served
+        // here may run script or be read as anything other than its declared type.
+        res.setHeader('Content-Type', image.contentType);
+        res.setHeader('X-Content-Type-Options', 'nosniff');
+        res.setHeader('Content-Security-Policy', "default-src 'none'");
+        res.setHeader('Cache-Control', 'private, max-age=31536000, immutable');
+        res.status(200).send(Buffer.from(image.data, 'base64'));
+    } catch (error) {
+        console.error(`Error fetching image ${id}:`, error);
+        res.status(500).json({ error: 'Failed to fetch image' });
+    }
+}
@@ -0,0 +1,29 @@
+// api/images/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { parseImage, storeImage } from '../_lib/images';
+
+// Uploads a photo as { image }, a data URL, and answers with the id records refer to it by. The
+// thumbnail is made here.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const original = await parseImage(isRecord(req.body) ? req.body.image : undefined);
+        if (!original) {
+            res.status(400).json({ error: 'Please upload a JPEG, PNG or WebP image under 3 MB' });
+            return;
+        }
+        res.status(201).json({ id: await storeImage(original) });
+    } catch (error) {
+        console.error('Error storing image:', error);
+        res.status(500).json({ error: 'Failed to store image' });
+    }
+}
@@ -0,0 +1,80 @@
+// api/imports/units.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { loadUsers, requireUser, withHashedPassword } from '../_lib/auth';
+import { passwordPolicy, unitId, units, users } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { IMPORT_BATCH_ROWS, planImport } from '../_lib/imports';
+import { isRole, requirePermission, roleHasUnit } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { User } from '../_lib/types';
+
+// Bulk onboarding from a CSV of units and resident accounts: POST { csv, dryRun, fromLine, toLine, role }.
+// A dry run only reports what would happen; otherwise every row without errors is imported and
+// the rest are skipped. Either way the answer lists each row with its errors, and `batchRows`, the
+// most rows an import writes per request: larger files are sent again with each range of lines.
+// Accounts get `role` (Resident by default), which must be one of the roles tied to a unit.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'units.manage')) return;
+
+        if (!isRecord(req.body) || typeof req.body.csv !== 'string') {
+            res.status(400).json({ error: 'Send the CSV file as text in `csv`' });
+            return;
+        }
+        const dryRun = req.body.dryRun !== false;
+        const role = req.body.role ?? 'Resident';
+        const { fromLine, toLine } = req.body;
+        const lines = typeof fromLine === 'number' && typeof toLine === 'number' ? { from: fromLine, to: toLine } : undefined;
+        const plan = planImport(req.body.csv, await units.list(), await loadUsers(), await passwordPolicy.get(), lines);
+        if (plan.residents.length > 0 && !requirePermission(res, user, 'users.manage')) return;
+        if (plan.errors.length > 0) {
+            res.status(400).json({ error: plan.errors.join('. '), rows: plan.rows });
+            return;
+        }
+        const batchRows = plan.rows.filter(r => !lines || (r.line >= lines.from && r.line <= lines.to)).length;
+        if (!dryRun && batchRows > IMPORT_BATCH_ROWS) {
+            res.status(400).json({ error: `Import at most ${IMPORT_BATCH_ROWS} rows per request; send fromLine and toLine to import the file in parts`, batchRows: IMPORT_BATCH_ROWS });
+            return;
+        }
+        if (!dryRun && plan.residents.length > 0 && (!isRole(role) || !roleHasUnit(role))) {
+            res.status(400).json({ error: 'Imported accounts need a role that belongs to a unit' });
+            return;
+        }
+
+        let unitsCreated = 0;
+        let residentsCreated = 0;
+        if (!dryRun) {
+            for (const unit of plan.units) {
+                const created = await units.create(unit);
+                if (!created) continue; // Added by someone else since the file was checked
+                unitsCreated++;
+                await recordAudit(user, 'unit.create', { type: 'unit', id: unitId(created), label: unitId(created) }, null, created);
+            }
+            // Hashing is the slow part of a large import, so passwords are hashed side by side.
+            const accounts = await Promise.all(plan.residents.map(r => withHashedPassword({ id: 0, username: r.username, password: r.password, role, unitNo: r.unitNo, mustChangePassword: true })));
+            for (const { id, ...account } of accounts) {
+                const created = await createWithNumericId<User>(users, account);
+                residentsCreated++;
+                await recordAudit(user, 'user.create', { type: 'user', id: created.id, label: created.username }, null, created);
+            }
+        }
+
+        res.status(dryRun ? 200 : 201).json({
+            dryRun,
+            rows: plan.rows,
+            units: dryRun ? plan.units.length : unitsCreated,
+            residents: dryRun ? plan.residents.length : residentsCreated,
+            batchRows: IMPORT_BATCH_ROWS,
+        });
+    } catch (error) {
+        console.error('Error importing units:', error);
+        res.status(500).json({ error: 'Failed to import units' });
+    }
+}
@@ -0,0 +1,39 @@
+// api/invites.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { createInvite } from './_lib/accounts';
+import { recordAudit } from './_lib/audit';
+import { requireUser } from './_lib/auth';
+import { users } from './_lib/collections';
+import { isRecord, methodNotAllowed } from './_lib/http';
+import { requirePermission } from './_lib/permissions';
+
+// Issues a fresh invite code for an account that hasn't been set up yet, e.g. when the first one
+// expired or was lost. POST { userId }; any earlier code for the account stops working.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'users.manage')) return;
+
+        const invited = isRecord(req.body) ? await users.get(String(req.body.userId)) : null;
+        if (!invited) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+        if (!invited.invitedAt) {
+            res.status(422).json({ error: `${invited.username} has already set up their account` });
+            return;
+        }
+
+        const invite = await createInvite(invited, user);
+        await recordAudit(user, 'user.invite', { type: 'user', id: invited.id, label: invited.username });
+        res.status(201).json(invite);
+    } catch (error) {
+        console.error('Error creating invite:', error);
+        res.status(500).json({ error: 'Failed to create invite' });
+    }
+}
@@ -0,0 +1,42 @@
+// api/parking/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { bays } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { requirePermission } from '../_lib/permissions';
+import { occupiedBays } from '../_lib/vehicles';
+
+// Bays are addressed by their `${block}-${label}` id, e.g. /api/parking/A-P3.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await bays.get(id);
+        if (!existing) {
+            res.status(404).json({ error: 'Parking bay not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(existing);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'parking.manage')) return;
+            if ((await occupiedBays()).has(id)) {
+                res.status(409).json({ error: 'This bay is in use. Check the visitor out first.' });
+                return;
+            }
+            await bays.remove(id);
+            await recordAudit(user, 'bay.delete', { type: 'bay', id, label: id }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling parking bay ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process parking bay request' });
+    }
+}
@@ -0,0 +1,71 @@
+// api/parking/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { bayId, bays } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { requirePermission } from '../_lib/permissions';
+import type { ParkingBay } from '../_lib/types';
+import { parseBay } from '../_lib/vehicles';
+
+const MAX_BAYS_PER_REQUEST = 200;
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            if (!(await requireUser(req, res))) return;
+            res.status(200).json(await bays.list());
+        } catch (error) {
+            console.error('Error fetching parking bays:', error);
+            res.status(500).json({ error: 'Failed to fetch parking bays' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'parking.manage')) return;
+
+            // Either one named bay, { block, label }, or a number of bays for a block, { block, count },
+            // numbered on from the block's existing ones (P1, P2, ...).
+            const body = isRecord(req.body) ? req.body : {};
+            const count = typeof body.count === 'number' ? Math.floor(body.count) : 0;
+            let requested: ParkingBay[];
+            if (count > 0) {
+                const block = typeof body.block === 'string' ? body.block.trim().toUpperCase() : '';
+                if (!block || count > MAX_BAYS_PER_REQUEST) {
+                    res.status(400).json({ error: `Give a block and between 1 and ${MAX_BAYS_PER_REQUEST} bays` });
+                    return;
+                }
+                const taken = new Set((await bays.list()).filter(b => b.block === block).map(b => b.label));
+                requested = [];
+                for (let n = 1; requested.length < count; n++) {
+                    if (!taken.has(`P${n}`)) requested.push({ block, label: `P${n}` });
+                }
+            } else {
+                const bay = parseBay(body);
+                if (!bay) {
+                    res.status(400).json({ error: 'A parking bay needs a block and a label' });
+                    return;
+                }
+                requested = [bay];
+            }
+
+            const created: ParkingBay[] = [];
+            for (const bay of requested) {
+                const saved = await bays.create(bay);
+                if (!saved) continue;
+                created.push(saved);
+                await recordAudit(user, 'bay.create', { type: 'bay', id: bayId(saved), label: bayId(saved) }, null, saved);
+            }
+            if (created.length === 0) {
+                res.status(409).json({ error: 'This parking bay already exists' });
+                return;
+            }
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating parking bays:', error);
+            res.status(500).json({ error: 'Failed to create parking bays' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
@@ -0,0 +1,39 @@
+// api/passes/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { visitors } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { createPassToken } from '../_lib/passes';
+import { canAccessVisitor } from '../_lib/permissions';
+
+// Only visitors who have been let in, or are about to be, hold a valid pass.
+const PASS_STATUSES = ['Approved', 'Checked-in'];
+
+// Issues the signed QR pass for a visitor, addressed by visitor id, e.g. /api/passes/1712345678901.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const visitor = await visitors.get(id);
+        if (!visitor || !canAccessVisitor(user, visitor)) {
+            res.status(404).json({ error: 'Visitor not found' });
+            return;
+        }
+        if (!PASS_STATUSES.includes(visitor.status)) {
+            res.status(422).json({ error: `A ${visitor.status} visitor does not have a pass` });
+            return;
+        }
+        res.status(200).json({ visitorId: visitor.id, token: await createPassToken(visitor.id) });
+    } catch (error) {
+        console.error(`Error issuing pass for visitor ${id}:`, error);
+        res.status(500).json({ error: 'Failed to issue visitor pass' });
+    }
+}
@@ -0,0 +1,39 @@
+// api/passes/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { visitors } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { verifyPassToken } from '../_lib/passes';
+import { requirePermission } from '../_lib/permissions';
+
+// Resolves a scanned QR pass to its visitor so the gate can check them in or out.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'POST') {
+        methodNotAllowed(req, res, ['POST']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'visitor.checkin')) return;
+
+        if (!isRecord(req.body) || typeof req.body.token !== 'string') {
+            res.status(400).json({ error: 'A scanned pass token is required' });
+            return;
+        }
+        const visitorId = await verifyPassToken(req.body.token);
+        if (visitorId === null) {
+            res.status(400).json({ error: 'This is not a valid visitor pass' });
+            return;
+        }
+        const visitor = await visitors.get(String(visitorId));
+        if (!visitor) {
+            res.status(404).json({ error: 'The visitor on this pass no longer exists' });
+            return;
+        }
+        res.status(200).json(visitor);
+    } catch (error) {
+        console.error('Error verifying visitor pass:', error);
+        res.status(500).json({ error: 'Failed to verify visitor pass' });
+    }
+}
@@ -0,0 +1,58 @@
+// api/password-policy.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { passwordPolicyError } from './_lib/accounts';
+import { recordAudit } from './_lib/audit';
+import { requireUser } from './_lib/auth';
+import { passwordPolicy } from './_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readIfMatch } from './_lib/http';
+import { requirePermission } from './_lib/permissions';
+import type { PasswordPolicy } from './_lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        // The rules aren't secret, and people choosing a password before they can sign in need them.
+        try {
+            const current = await passwordPolicy.get();
+            res.setHeader('ETag', etag(current.version));
+            res.status(200).json(current);
+        } catch (error) {
+            console.error('Error fetching password policy:', error);
+            res.status(500).json({ error: 'Failed to fetch password policy' });
+        }
+    } else if (req.method === 'PATCH') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'users.manage')) return;
+
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a password policy' });
+                return;
+            }
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const current = await passwordPolicy.get();
+            const updated: PasswordPolicy = { ...current, ...req.body };
+            const error = passwordPolicyError(updated);
+            if (error) {
+                res.status(400).json({ error });
+                return;
+            }
+            const saved = await passwordPolicy.save(updated, expectedVersion);
+            if (!saved) {
+                conflict(res, await passwordPolicy.get());
+                return;
+            }
+            await recordAudit(user, 'passwordPolicy.update', { type: 'passwordPolicy', id: 'passwordPolicy', label: 'Password rules' }, current, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } catch (error) {
+            console.error('Error saving password policy:', error);
+            res.status(500).json({ error: 'Failed to save password policy' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'PATCH']);
+    }
+}
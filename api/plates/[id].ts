@@ -0,0 +1,36 @@
+// api/plates/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { vehicles, visitors } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { requirePermission } from '../_lib/permissions';
+import { normalizePlate, plateKey } from '../_lib/vehicles';
+
+const RECENT_VISITS = 10;
+
+// Who a plate belongs to: the unit it is registered to, if any, and the latest visits made in it.
+// Spacing and dashes don't matter, so /api/plates/wxy1234 finds "WXY 1234".
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const key = plateKey(readId(req));
+
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user || !requirePermission(res, user, 'visitor.viewAll')) return;
+        if (!key) {
+            res.status(400).json({ error: 'Give a plate number to look up' });
+            return;
+        }
+
+        const residentVehicles = (await vehicles.list()).filter(v => plateKey(v.plate) === key);
+        const visits = (await visitors.list()).filter(v => plateKey(v.vehicle) === key).slice(0, RECENT_VISITS);
+        res.status(200).json({ plate: normalizePlate(readId(req)), residentVehicles, visits });
+    } catch (error) {
+        console.error(`Error looking up plate ${key}:`, error);
+        res.status(500).json({ error: 'Failed to look up plate' });
+    }
+}
@@ -0,0 +1,33 @@
+// api/profiles/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { profiles, visitors } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { can, canAccessVisitor } from '../_lib/permissions';
+import { visitsOf } from '../_lib/profiles';
+
+// A visitor profile together with the visits the caller may see, newest first.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const profile = await profiles.get(id);
+        const visits = profile ? visitsOf(profile, await visitors.list()).filter(v => canAccessVisitor(user, v)) : [];
+        if (!profile || (!can(user, 'visitor.viewAll') && visits.length === 0)) {
+            res.status(404).json({ error: 'Visitor profile not found' });
+            return;
+        }
+        res.status(200).json({ profile, visits });
+    } catch (error) {
+        console.error(`Error fetching visitor profile ${id}:`, error);
+        res.status(500).json({ error: 'Failed to fetch visitor profile' });
+    }
+}
@@ -0,0 +1,33 @@
+// api/profiles/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { requireUser } from '../_lib/auth';
+import { profiles, visitors } from '../_lib/collections';
+import { methodNotAllowed, readQuery } from '../_lib/http';
+import { can, canAccessVisitor } from '../_lib/permissions';
+import { contactKey, visitsOf } from '../_lib/profiles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method !== 'GET') {
+        methodNotAllowed(req, res, ['GET']);
+        return;
+    }
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        let all = await profiles.list();
+        const contact = contactKey(readQuery(req, 'contact'));
+        if (contact) all = all.filter(p => contactKey(p.contact) === contact);
+
+        // Residents only know the people who have visited their own unit.
+        if (!can(user, 'visitor.viewAll')) {
+            const ownVisits = (await visitors.list()).filter(v => canAccessVisitor(user, v));
+            all = all.filter(p => visitsOf(p, ownVisits).length > 0);
+        }
+        res.status(200).json(all);
+    } catch (error) {
+        console.error('Error fetching visitor profiles:', error);
+        res.status(500).json({ error: 'Failed to fetch visitor profiles' });
+    }
+}
@@ -0,0 +1,80 @@
+// api/roles/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { loadUsers, requireUser } from '../_lib/auth';
+import { roles } from '../_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readId, readIfMatch } from '../_lib/http';
+import { hasUserManager, loadRoles, requirePermission, roleError } from '../_lib/permissions';
+import type { Role } from '../_lib/types';
+
+// Roles are addressed by name, e.g. /api/roles/Night%20Supervisor. Names can't change, since users
+// refer to their role by it; built-in roles can be edited but not deleted.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await roles.get(id);
+        if (!existing) {
+            res.status(404).json({ error: 'Role not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.setHeader('ETag', etag(existing.version));
+            res.status(200).json(existing);
+        } else if (req.method === 'PATCH') {
+            if (!requirePermission(res, user, 'users.manage')) return;
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a role' });
+                return;
+            }
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const { permissions = existing.permissions, hasUnit = existing.hasUnit } = req.body as Partial<Role>;
+            const updated: Role = { ...existing, permissions, hasUnit };
+            const invalid = roleError(updated) ?? (existing.builtIn && hasUnit !== existing.hasUnit ? 'Built-in roles always keep their unit setting' : null);
+            if (invalid) {
+                res.status(400).json({ error: invalid });
+                return;
+            }
+            const roleList = (await loadRoles()).map(r => r.name === existing.name ? updated : r);
+            if (!hasUserManager(await loadUsers(), roleList)) {
+                res.status(422).json({ error: 'At least one user must keep the permission to manage users' });
+                return;
+            }
+            const saved = await roles.save(updated, expectedVersion);
+            if (!saved) {
+                conflict(res, await roles.get(id));
+                return;
+            }
+            await recordAudit(user, 'role.update', { type: 'role', id: saved.name, label: saved.name }, existing, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'users.manage')) return;
+            if (existing.builtIn) {
+                res.status(422).json({ error: 'Built-in roles cannot be deleted' });
+                return;
+            }
+            const holders = (await loadUsers()).filter(u => u.role === existing.name).length;
+            if (holders > 0) {
+                res.status(422).json({ error: `${holders} user(s) still have this role. Give them another role first.` });
+                return;
+            }
+            await roles.remove(id);
+            await recordAudit(user, 'role.delete', { type: 'role', id: existing.name, label: existing.name }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'PATCH', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling role ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process role request' });
+    }
+}
@@ -0,0 +1,55 @@
+// api/roles/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { roles } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { findRole, loadRoles, requirePermission, roleError } from '../_lib/permissions';
+import type { Role } from '../_lib/types';
+
+const MAX_ROLE_NAME_LENGTH = 40;
+
+// Every signed-in user gets the role list, since the client works out what to show from it.
+// New roles (POST { name, permissions, hasUnit }) are always custom roles.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            if (!(await requireUser(req, res))) return;
+            res.status(200).json(await loadRoles());
+        } catch (error) {
+            console.error('Error fetching roles:', error);
+            res.status(500).json({ error: 'Failed to fetch roles' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'users.manage')) return;
+
+            const body = isRecord(req.body) ? req.body : {};
+            const name = typeof body.name === 'string' ? body.name.trim().replace(/\s+/g, ' ') : '';
+            if (!name || name.length > MAX_ROLE_NAME_LENGTH || name.includes('/')) {
+                res.status(400).json({ error: `A role needs a name of up to ${MAX_ROLE_NAME_LENGTH} characters, without "/"` });
+                return;
+            }
+            const role: Role = { name, permissions: body.permissions, hasUnit: body.hasUnit };
+            const invalid = roleError(role);
+            if (invalid) {
+                res.status(400).json({ error: invalid });
+                return;
+            }
+            const taken = findRole(name) || (await roles.list()).some(r => r.name.toLowerCase() === name.toLowerCase());
+            const created = taken ? null : await roles.create(role);
+            if (!created) {
+                res.status(409).json({ error: 'There is already a role with this name' });
+                return;
+            }
+            await recordAudit(user, 'role.create', { type: 'role', id: created.name, label: created.name }, null, created);
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating role:', error);
+            res.status(500).json({ error: 'Failed to create role' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
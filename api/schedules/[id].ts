@@ -0,0 +1,39 @@
+// api/schedules/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { schedules } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { canAccessSchedule, canManageSchedule } from '../_lib/permissions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await schedules.get(id);
+        if (!existing || !canAccessSchedule(user, existing)) {
+            res.status(404).json({ error: 'Schedule not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(existing);
+        } else if (req.method === 'DELETE') {
+            if (!canManageSchedule(user, existing)) {
+                res.status(403).json({ error: 'You can only cancel schedules for your own unit' });
+                return;
+            }
+            await schedules.remove(id);
+            await recordAudit(user, 'schedule.delete', { type: 'schedule', id: existing.id, label: existing.visitor.name }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling schedule ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process schedule request' });
+    }
+}
@@ -0,0 +1,53 @@
+// api/schedules/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { schedules } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { canAccessSchedule, canManageSchedule } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { VisitSchedule } from '../_lib/types';
+import { scheduleError } from '../_lib/visits';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            const all = await schedules.list();
+            res.status(200).json(all.filter(s => canAccessSchedule(user, s)));
+        } catch (error) {
+            console.error('Error fetching schedules:', error);
+            res.status(500).json({ error: 'Failed to fetch schedules' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a visit schedule' });
+                return;
+            }
+            const { id, version, createdBy, ...fields } = req.body as VisitSchedule;
+            const schedule = { ...fields, days: fields.kind === 'weekly' ? fields.days : [], timeZone: fields.timeZone || 'UTC', createdBy: user.id };
+            const error = scheduleError(schedule);
+            if (error) {
+                res.status(400).json({ error });
+                return;
+            }
+            if (!canManageSchedule(user, schedule as VisitSchedule)) {
+                res.status(403).json({ error: 'You can only schedule visits for your own unit' });
+                return;
+            }
+            const created = await createWithNumericId(schedules, schedule);
+            await recordAudit(user, 'schedule.create', { type: 'schedule', id: created.id, label: created.visitor.name }, null, created);
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating schedule:', error);
+            res.status(500).json({ error: 'Failed to create schedule' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
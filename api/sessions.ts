@@ -0,0 +1,38 @@
+// api/sessions.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from './_lib/audit';
+import { listSessions, requireUser, revokeSessions } from './_lib/auth';
+import { users } from './_lib/collections';
+import { methodNotAllowed, readQuery } from './_lib/http';
+import { can } from './_lib/permissions';
+
+// The devices a user is signed in on: GET /api/sessions?userId=3 lists them, and
+// DELETE /api/sessions?userId=3&id=<session> signs one out (all of them without `id`).
+// Users manage their own sessions; administrators with users.manage can manage anyone's.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const owner = readQuery(req, 'userId') ? await users.get(readQuery(req, 'userId')) : user;
+        if (!owner || (owner.id !== user.id && !can(user, 'users.manage'))) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(await listSessions(req, owner.id));
+        } else if (req.method === 'DELETE') {
+            const revoked = await revokeSessions(owner.id, readQuery(req, 'id') || undefined);
+            if (revoked > 0) {
+                await recordAudit(user, 'session.revoke', { type: 'user', id: owner.id, label: owner.username }, null, { sessions: revoked });
+            }
+            res.status(200).json({ revoked });
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error('Error handling sessions:', error);
+        res.status(500).json({ error: 'Failed to process sessions request' });
+    }
+}
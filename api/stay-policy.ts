@@ -0,0 +1,60 @@
+// api/stay-policy.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from './_lib/audit';
+import { requireUser } from './_lib/auth';
+import { stayPolicy } from './_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readIfMatch } from './_lib/http';
+import { requirePermission } from './_lib/permissions';
+import type { StayPolicy } from './_lib/types';
+import { stayPolicyError } from './_lib/visits';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            if (!(await requireUser(req, res))) return;
+            const current = await stayPolicy.get();
+            res.setHeader('ETag', etag(current.version));
+            res.status(200).json(current);
+        } catch (error) {
+            console.error('Error fetching stay policy:', error);
+            res.status(500).json({ error: 'Failed to fetch stay policy' });
+        }
+    } else if (req.method === 'PATCH') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'company.manage')) return;
+
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a stay policy' });
+                return;
+            }
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const current = await stayPolicy.get();
+            const updated: StayPolicy = { ...current, ...req.body };
+            const error = stayPolicyError(updated);
+            if (error) {
+                res.status(400).json({ error });
+                return;
+            }
+            // Purposes are stored upper-case, like the visitor form enters them.
+            updated.maxHoursByPurpose = Object.fromEntries(Object.entries(updated.maxHoursByPurpose).map(([purpose, hours]) => [purpose.trim().toUpperCase(), hours]));
+            const saved = await stayPolicy.save(updated, expectedVersion);
+            if (!saved) {
+                conflict(res, await stayPolicy.get());
+                return;
+            }
+            await recordAudit(user, 'stayPolicy.update', { type: 'stayPolicy', id: 'stayPolicy', label: 'Stay limits' }, current, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } catch (error) {
+            console.error('Error saving stay policy:', error);
+            res.status(500).json({ error: 'Failed to save stay policy' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'PATCH']);
+    }
+}
@@ -0,0 +1,108 @@
+// api/two-factor.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { canUseTwoFactor, checkSecondFactor, createRecoveryCodes, endTotpSetup, pendingTotpSecret, startTotpSetup } from './_lib/accounts';
+import { recordAudit } from './_lib/audit';
+import { getSessionUser, revokeSessions, toSessionUser } from './_lib/auth';
+import { companyInfo, passwordPolicy, users } from './_lib/collections';
+import { isRecord, methodNotAllowed, readQuery } from './_lib/http';
+import { requirePermission } from './_lib/permissions';
+import { generateTotpSecret, totpUri, verifyTotp } from './_lib/totp';
+import type { User } from './_lib/types';
+
+const withoutTwoFactor = (user: User): User => ({ ...user, twoFactorEnabledAt: undefined, totpSecret: undefined, totpLastStep: undefined, recoveryCodes: undefined });
+
+// Two-factor authentication for the signed-in user:
+//   POST                  starts setup and returns the secret (and otpauth:// link) for their app
+//   PUT { code }          finishes setup with a code from the app and returns recovery codes
+//   PATCH { code }        replaces the recovery codes
+//   DELETE { code }       turns it off, unless the password rules require it
+//   DELETE ?userId=3      resets it for someone else who has lost their device (users.manage)
+// Open to users who still have to set it up, but not before they have changed their password.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    try {
+        const user = await getSessionUser(req);
+        if (!user) {
+            res.status(401).json({ error: 'Not authenticated' });
+            return;
+        }
+        if (user.mustChangePassword) {
+            res.status(403).json({ error: 'Please change your password before continuing', mustChangePassword: true });
+            return;
+        }
+        const code = isRecord(req.body) && typeof req.body.code === 'string' ? req.body.code : '';
+        const target = { type: 'user' as const, id: user.id, label: user.username };
+
+        if (req.method === 'POST') {
+            if (!canUseTwoFactor(user)) {
+                res.status(403).json({ error: `Two-factor authentication is not available to the ${user.role} role` });
+                return;
+            }
+            if (user.twoFactorEnabledAt) {
+                res.status(422).json({ error: 'Two-factor authentication is already on' });
+                return;
+            }
+            const secret = generateTotpSecret();
+            await startTotpSetup(user, secret);
+            const issuer = (await companyInfo.get()).name || 'ResiGuard';
+            res.status(200).json({ secret, uri: totpUri(secret, user.username, issuer) });
+        } else if (req.method === 'PUT') {
+            const secret = await pendingTotpSecret(user);
+            if (!secret || user.twoFactorEnabledAt) {
+                res.status(400).json({ error: 'Setup has expired. Please start again.' });
+                return;
+            }
+            const step = verifyTotp(secret, code);
+            if (step === null) {
+                res.status(400).json({ error: 'That code is not correct. Check the time on your device and try again.' });
+                return;
+            }
+            const { codes, hashes } = createRecoveryCodes();
+            const saved = await users.put({ ...user, twoFactorEnabledAt: new Date().toISOString(), totpSecret: secret, totpLastStep: step, recoveryCodes: hashes });
+            await endTotpSetup(user);
+            await recordAudit(user, 'auth.enableTwoFactor', target);
+            res.status(200).json({ user: await toSessionUser(saved), recoveryCodes: codes });
+        } else if (req.method === 'PATCH') {
+            const verified = user.twoFactorEnabledAt ? checkSecondFactor(user, code) : null;
+            if (!verified) {
+                res.status(400).json({ error: 'That code is not correct.' });
+                return;
+            }
+            const { codes, hashes } = createRecoveryCodes();
+            await users.put({ ...verified, recoveryCodes: hashes });
+            res.status(200).json({ recoveryCodes: codes });
+        } else if (req.method === 'DELETE') {
+            const userId = readQuery(req, 'userId');
+            if (userId && userId !== String(user.id)) {
+                if (!requirePermission(res, user, 'users.manage')) return;
+                const reset = await users.get(userId);
+                if (!reset) {
+                    res.status(404).json({ error: 'User not found' });
+                    return;
+                }
+                const saved = await users.put(withoutTwoFactor(reset));
+                // Whoever has the lost device may still be signed in on it.
+                await revokeSessions(reset.id);
+                await recordAudit(user, 'user.resetTwoFactor', { type: 'user', id: reset.id, label: reset.username }, reset, saved);
+                res.status(204).end();
+                return;
+            }
+
+            if (canUseTwoFactor(user) && (await passwordPolicy.get()).requireTwoFactor) {
+                res.status(422).json({ error: 'The password rules require two-factor authentication for your role' });
+                return;
+            }
+            if (!user.twoFactorEnabledAt || !checkSecondFactor(user, code)) {
+                res.status(400).json({ error: 'That code is not correct.' });
+                return;
+            }
+            await users.put(withoutTwoFactor(user));
+            await recordAudit(user, 'auth.disableTwoFactor', target);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['POST', 'PUT', 'PATCH', 'DELETE']);
+        }
+    } catch (error) {
+        console.error('Error handling two-factor authentication:', error);
+        res.status(500).json({ error: 'Failed to process two-factor request' });
+    }
+}
@@ -0,0 +1,37 @@
+// api/units/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { units } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { requirePermission } from '../_lib/permissions';
+
+// Units are addressed by their `${block}-${houseNo}` label, e.g. /api/units/A-101.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await units.get(id);
+        if (!existing) {
+            res.status(404).json({ error: 'Unit not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(existing);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'units.manage')) return;
+            await units.remove(id);
+            await recordAudit(user, 'unit.delete', { type: 'unit', id, label: id }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling unit ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process unit request' });
+    }
+}
@@ -0,0 +1,45 @@
+// api/units/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { unitId, units } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { requirePermission } from '../_lib/permissions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            if (!(await requireUser(req, res))) return;
+            res.status(200).json(await units.list());
+        } catch (error) {
+            console.error('Error fetching units:', error);
+            res.status(500).json({ error: 'Failed to fetch units' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'units.manage')) return;
+
+            if (!isRecord(req.body) || typeof req.body.block !== 'string' || typeof req.body.houseNo !== 'string') {
+                res.status(400).json({ error: 'A unit needs a block and a house number' });
+                return;
+            }
+            const unit = { block: req.body.block.trim().toUpperCase(), houseNo: req.body.houseNo.trim() };
+            if (!unit.block || !unit.houseNo) {
+                res.status(400).json({ error: 'A unit needs a block and a house number' });
+                return;
+            }
+            if (!(await units.create(unit))) {
+                res.status(409).json({ error: 'This unit already exists' });
+                return;
+            }
+            await recordAudit(user, 'unit.create', { type: 'unit', id: unitId(unit), label: unitId(unit) }, null, unit);
+            res.status(201).json(unit);
+        } catch (error) {
+            console.error('Error creating unit:', error);
+            res.status(500).json({ error: 'Failed to create unit' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
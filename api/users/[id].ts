@@ -0,0 +1,110 @@
+// api/users/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { accountError, passwordError } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { loadUsers, requireUser, revokeOtherSessions, revokeSessions, toPublicUser, withHashedPassword } from '../_lib/auth';
+import { passwordPolicy, users } from '../_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readId, readIfMatch } from '../_lib/http';
+import { can, hasUserManager, requirePermission, roleHasUnit } from '../_lib/permissions';
+import type { User } from '../_lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await users.get(id);
+        if (!existing || (!can(user, 'users.manage') && existing.id !== user.id)) {
+            res.status(404).json({ error: 'User not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.setHeader('ETag', etag(existing.version));
+            res.status(200).json(toPublicUser(existing));
+        } else if (req.method === 'PATCH') {
+            if (!requirePermission(res, user, 'users.manage')) return;
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a user object' });
+                return;
+            }
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const { passwordHash, invitedAt, mustChangePassword, twoFactorEnabledAt, totpSecret, totpLastStep, recoveryCodes, ...changes } = req.body as User;
+            if (changes.password) {
+                const weak = passwordError(await passwordPolicy.get(), changes.password, changes.username ?? existing.username);
+                if (weak) {
+                    res.status(400).json({ error: weak });
+                    return;
+                }
+            }
+            if (changes.role !== undefined || changes.unitNo !== undefined) {
+                const role = changes.role ?? existing.role;
+                const invalid = await accountError(role, roleHasUnit(role) ? changes.unitNo ?? existing.unitNo : undefined);
+                if (invalid) {
+                    res.status(400).json({ error: invalid });
+                    return;
+                }
+            }
+            const allUsers = await loadUsers();
+            if (changes.username && changes.username !== existing.username) {
+                if (allUsers.some(u => u.username === changes.username && u.id !== existing.id)) {
+                    res.status(409).json({ error: 'This username is already taken' });
+                    return;
+                }
+            }
+            if (changes.role && !hasUserManager(allUsers.map(u => u.id === existing.id ? { ...u, role: changes.role! } : u))) {
+                res.status(422).json({ error: 'The last user who can manage users cannot be given a role without that permission' });
+                return;
+            }
+            // Once someone sets a password the account no longer waits on its invite. A password an
+            // administrator sets for someone else is temporary, so its owner must replace it.
+            const updated = await withHashedPassword({
+                ...existing,
+                ...changes,
+                id: existing.id,
+                invitedAt: changes.password ? undefined : existing.invitedAt,
+                mustChangePassword: changes.password ? existing.id !== user.id || undefined : existing.mustChangePassword,
+            });
+            const saved = await users.save(updated, expectedVersion);
+            if (!saved) {
+                const current = await users.get(id);
+                conflict(res, current && toPublicUser(current));
+                return;
+            }
+            // Sessions were granted under the old role, so the user signs in again to pick up the new one.
+            // A new password ends the sessions opened with the old one too, except the one someone
+            // setting their own password is using.
+            if (saved.role !== existing.role) await revokeSessions(saved.id);
+            else if (changes.password && saved.id === user.id) await revokeOtherSessions(req, saved.id);
+            else if (changes.password) await revokeSessions(saved.id);
+            await recordAudit(user, 'user.update', { type: 'user', id: saved.id, label: saved.username }, existing, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(toPublicUser(saved));
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'users.manage')) return;
+            if (existing.id === user.id) {
+                res.status(422).json({ error: 'You cannot delete your own account' });
+                return;
+            }
+            if (!hasUserManager((await loadUsers()).filter(u => u.id !== existing.id))) {
+                res.status(422).json({ error: 'You cannot delete the last user who can manage users' });
+                return;
+            }
+            await users.remove(id);
+            await revokeSessions(existing.id);
+            await recordAudit(user, 'user.delete', { type: 'user', id: existing.id, label: existing.username }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'PATCH', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling user ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process user request' });
+    }
+}
@@ -0,0 +1,65 @@
+// api/users/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { accountError, createInvite, passwordError } from '../_lib/accounts';
+import { recordAudit } from '../_lib/audit';
+import { loadUsers, requireUser, toPublicUser, withHashedPassword } from '../_lib/auth';
+import { passwordPolicy, users } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { can, requirePermission, roleHasUnit } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { User } from '../_lib/types';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            // Only user managers see the whole directory; everyone else just gets themselves.
+            const visible = can(user, 'users.manage') ? await loadUsers() : [user];
+            res.status(200).json(visible.map(toPublicUser));
+        } catch (error) {
+            console.error('Error fetching users:', error);
+            res.status(500).json({ error: 'Failed to fetch users' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'users.manage')) return;
+
+            // Without a password the account waits for its owner to redeem an invite code and choose one.
+            const body = isRecord(req.body) ? req.body : {};
+            const username = typeof body.username === 'string' ? body.username.trim() : '';
+            const password = typeof body.password === 'string' ? body.password : '';
+            const unitNo = typeof body.unitNo === 'string' && roleHasUnit(body.role) ? body.unitNo : undefined;
+            if (!username) {
+                res.status(400).json({ error: 'A user needs a username' });
+                return;
+            }
+            const invalid = await accountError(body.role, unitNo) ?? (password ? passwordError(await passwordPolicy.get(), password, username) : null);
+            if (invalid) {
+                res.status(400).json({ error: invalid });
+                return;
+            }
+            const existing = await loadUsers();
+            if (existing.some(u => u.username === username)) {
+                res.status(409).json({ error: 'This username is already taken' });
+                return;
+            }
+            // A password chosen by an administrator is only temporary.
+            const newUser: Omit<User, 'id'> = password
+                ? { username, role: body.role, unitNo, password, mustChangePassword: true }
+                : { username, role: body.role, unitNo, invitedAt: new Date().toISOString() };
+            const created = await createWithNumericId(users, await withHashedPassword(newUser as User));
+            await recordAudit(user, 'user.create', { type: 'user', id: created.id, label: created.username }, null, created);
+
+            const invite = password ? null : await createInvite(created, user);
+            if (invite) await recordAudit(user, 'user.invite', { type: 'user', id: created.id, label: created.username });
+            res.status(201).json({ user: toPublicUser(created), invite });
+        } catch (error) {
+            console.error('Error creating user:', error);
+            res.status(500).json({ error: 'Failed to create user' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
@@ -0,0 +1,39 @@
+// api/vehicles/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { vehicles } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { canAccessVehicle, canManageVehicle } from '../_lib/permissions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await vehicles.get(id);
+        if (!existing || !canAccessVehicle(user, existing)) {
+            res.status(404).json({ error: 'Vehicle not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(existing);
+        } else if (req.method === 'DELETE') {
+            if (!canManageVehicle(user, existing)) {
+                res.status(403).json({ error: 'You can only remove vehicles registered to your own unit' });
+                return;
+            }
+            await vehicles.remove(id);
+            await recordAudit(user, 'vehicle.delete', { type: 'vehicle', id: existing.id, label: existing.plate }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling vehicle ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process vehicle request' });
+    }
+}
@@ -0,0 +1,57 @@
+// api/vehicles/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { units, vehicles } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { canAccessVehicle, canManageVehicle } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { ResidentVehicle } from '../_lib/types';
+import { normalizePlate, plateKey } from '../_lib/vehicles';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            const all = await vehicles.list();
+            res.status(200).json(all.filter(v => canAccessVehicle(user, v)));
+        } catch (error) {
+            console.error('Error fetching vehicles:', error);
+            res.status(500).json({ error: 'Failed to fetch vehicles' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+
+            if (!isRecord(req.body) || typeof req.body.plate !== 'string' || !plateKey(req.body.plate) || typeof req.body.unitNo !== 'string') {
+                res.status(400).json({ error: 'A vehicle needs a plate number and a unit' });
+                return;
+            }
+            if (!(await units.get(req.body.unitNo))) {
+                res.status(400).json({ error: `There is no unit ${req.body.unitNo}` });
+                return;
+            }
+            const { id, version, addedBy, ...fields } = req.body as ResidentVehicle;
+            const vehicle = { ...fields, plate: normalizePlate(fields.plate), addedBy: `${user.username} (${user.role})` };
+            if (!canManageVehicle(user, vehicle as ResidentVehicle)) {
+                res.status(403).json({ error: 'You can only register vehicles for your own unit' });
+                return;
+            }
+            const duplicate = (await vehicles.list()).find(v => plateKey(v.plate) === plateKey(vehicle.plate));
+            if (duplicate) {
+                res.status(409).json({ error: `${vehicle.plate} is already registered to ${duplicate.unitNo}` });
+                return;
+            }
+            const created = await createWithNumericId(vehicles, vehicle);
+            await recordAudit(user, 'vehicle.create', { type: 'vehicle', id: created.id, label: created.plate }, null, created);
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error registering vehicle:', error);
+            res.status(500).json({ error: 'Failed to register vehicle' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
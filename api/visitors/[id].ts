@@ -0,0 +1,122 @@
+// api/visitors/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit, type AuditAction } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { visitors } from '../_lib/collections';
+import { conflict, etag, isRecord, methodNotAllowed, preconditionRequired, readId, readIfMatch } from '../_lib/http';
+import { canAccessVisitor, canRespondToVisitor, requirePermission, requiredVisitorActions } from '../_lib/permissions';
+import { storeInlineImage } from '../_lib/images';
+import { linkProfile, maskDocumentNumber } from '../_lib/profiles';
+import type { Visitor } from '../_lib/types';
+import { claimBay, normalizePlate, settleBayClaims } from '../_lib/vehicles';
+import { approvalDeadlineFor, isWithinWindow } from '../_lib/visits';
+import { screenVisit } from '../_lib/watchlist';
+
+// Editing any of these may make the visit someone else's, or refresh their profile.
+const PROFILE_FIELDS = ['name', 'contact', 'vehicle', 'carBrand', 'photo'];
+
+// Status moves are logged as the decision they represent; any other edit is a plain update.
+const STATUS_AUDIT_ACTIONS: Record<string, AuditAction> = {
+    'Approved': 'visitor.approve',
+    'Rejected': 'visitor.reject',
+    'Checked-in': 'visitor.checkin',
+    'Checked-out': 'visitor.checkout',
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await visitors.get(id);
+        // Visitors outside a resident's unit are reported as missing rather than forbidden.
+        if (!existing || !canAccessVisitor(user, existing)) {
+            res.status(404).json({ error: 'Visitor not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.setHeader('ETag', etag(existing.version));
+            res.status(200).json(existing);
+        } else if (req.method === 'PATCH') {
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a visitor object' });
+                return;
+            }
+            const actions = requiredVisitorActions(existing, req.body);
+            if (!actions) {
+                res.status(422).json({ error: `A ${existing.status} visitor cannot be moved to ${req.body.status}` });
+                return;
+            }
+            // A resident approving or declining their own walk-in stands in for the approve permission.
+            const isResidentDecision = actions.length === 1 && actions[0] === 'visitor.approve' && canRespondToVisitor(user, existing);
+            if (!isResidentDecision && !actions.every(action => requirePermission(res, user, action))) return;
+
+            const expectedVersion = readIfMatch(req);
+            if (expectedVersion === null) {
+                preconditionRequired(res);
+                return;
+            }
+            const { decidedBy, residentApprovalDeadline, profileId, overstayedAt, autoCheckedOut, ...changes } = req.body as Partial<Visitor>;
+            if (changes.vehicle !== undefined && typeof changes.vehicle !== 'string') {
+                res.status(400).json({ error: 'The vehicle must be a plate number' });
+                return;
+            }
+            let updated: Visitor = { ...existing, ...changes, id: existing.id };
+            if (updated.status !== existing.status && (updated.status === 'Approved' || updated.status === 'Rejected')) {
+                updated.decidedBy = `${user.username} (${user.role})`;
+            }
+            if (changes.vehicle) updated.vehicle = normalizePlate(changes.vehicle);
+            if (changes.photo) updated.photo = await storeInlineImage(changes.photo);
+            if (changes.idDocument) updated.idDocument = maskDocumentNumber(changes.idDocument);
+            const claimedBay = updated.parkingBay !== existing.parkingBay ? updated.parkingBay : undefined;
+            if (claimedBay) {
+                const bayError = await claimBay(claimedBay, existing.id);
+                if (bayError) {
+                    res.status(409).json({ error: bayError });
+                    return;
+                }
+            }
+            if (PROFILE_FIELDS.some(field => field in changes)) {
+                updated.profileId = await linkProfile(user, updated);
+            }
+            // Automatic approvals (pre-registrations and schedules) only hold inside the expected window.
+            // Arriving outside it sends the visit back for someone to decide on.
+            const isOutsideWindow = updated.status === 'Checked-in' && existing.status === 'Approved' && !existing.decidedBy
+                && !isWithinWindow(existing.expectedArrival, existing.expectedDeparture);
+            if (isOutsideWindow) {
+                updated = { ...existing, ...(await approvalDeadlineFor(existing.resident)), status: 'Pending' };
+            } else if (updated.status === 'Checked-in' && existing.status !== 'Checked-in') {
+                if (!(await screenVisit(user, updated, 'check-in', res))) {
+                    await settleBayClaims(existing.id, existing, claimedBay);
+                    return;
+                }
+            }
+            const saved = await visitors.save(updated, expectedVersion);
+            if (!saved) {
+                const current = await visitors.get(id);
+                await settleBayClaims(existing.id, current, claimedBay);
+                conflict(res, current);
+                return;
+            }
+            await settleBayClaims(saved.id, saved, claimedBay, existing.parkingBay);
+            const action = isOutsideWindow ? 'visitor.outsideWindow' : saved.status !== existing.status ? STATUS_AUDIT_ACTIONS[saved.status] : 'visitor.update';
+            await recordAudit(user, action, { type: 'visitor', id: saved.id, label: saved.name }, existing, saved);
+            res.setHeader('ETag', etag(saved.version));
+            res.status(200).json(saved);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'visitor.delete')) return;
+            await visitors.remove(id);
+            await settleBayClaims(existing.id, null, existing.parkingBay);
+            await recordAudit(user, 'visitor.delete', { type: 'visitor', id: existing.id, label: existing.name }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'PATCH', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling visitor ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process visitor request' });
+    }
+}
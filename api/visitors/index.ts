@@ -0,0 +1,143 @@
+// api/visitors/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { schedules, visitors } from '../_lib/collections';
+import { isRecord, methodNotAllowed, readQuery, readTimestamp } from '../_lib/http';
+import { can, canAccessSchedule, canAccessVisitor, requirePermission } from '../_lib/permissions';
+import { storeInlineImage } from '../_lib/images';
+import { linkProfile, maskDocumentNumber } from '../_lib/profiles';
+import { createWithNumericId } from '../_lib/store';
+import type { User, Visitor } from '../_lib/types';
+import { normalizePlate } from '../_lib/vehicles';
+import { approvalDeadlineFor, isWithinWindow, queryVisitors, scheduleWindowToday } from '../_lib/visits';
+import { screenVisit } from '../_lib/watchlist';
+
+const DEFAULT_PAGE_SIZE = 50;
+// Large enough for the gate screens to load every visit that is still open in one go.
+const MAX_PAGE_SIZE = 500;
+
+// Checks the expected arrival window, which pre-registrations must always give.
+function arrivalWindowError(visitor: Partial<Visitor>, required: boolean): string | null {
+    const { expectedArrival, expectedDeparture } = visitor;
+    if (!expectedArrival && !expectedDeparture) {
+        return required ? 'Pre-registered visitors need an expected arrival window' : null;
+    }
+    const arrival = Date.parse(expectedArrival ?? '');
+    const departure = Date.parse(expectedDeparture ?? '');
+    if (Number.isNaN(arrival) || Number.isNaN(departure)) return 'The arrival window needs a valid start and end time';
+    if (departure <= arrival) return 'The arrival window must end after it starts';
+    if (departure < Date.now()) return 'The arrival window has already passed';
+    return null;
+}
+
+// Logs a scheduled visitor's arrival as a visit. It is approved when they arrive in today's window
+// and falls back to Pending otherwise, just like an unscheduled walk-in.
+async function createScheduledVisit(user: User, scheduleId: number, res: NextApiResponse) {
+    const schedule = await schedules.get(String(scheduleId));
+    if (!schedule || !canAccessSchedule(user, schedule)) {
+        res.status(404).json({ error: 'Schedule not found' });
+        return;
+    }
+    if (!(await screenVisit(user, schedule.visitor, 'registration', res))) return;
+    const window = scheduleWindowToday(schedule);
+    const visit = {
+        ...schedule.visitor,
+        scheduleId: schedule.id,
+        profileId: await linkProfile(user, schedule.visitor),
+        ...(window ? { expectedArrival: window.start, expectedDeparture: window.end } : {}),
+    };
+    const created = window && isWithinWindow(window.start, window.end)
+        ? await createWithNumericId(visitors, { ...visit, status: 'Approved' })
+        : await createWithNumericId(visitors, { ...visit, ...(await approvalDeadlineFor(visit.resident)), status: 'Pending' });
+    await recordAudit(user, 'visitor.create', { type: 'visitor', id: created.id, label: created.name }, null, created);
+    res.status(201).json(created);
+}
+
+// GET pages through the visits the caller may see, e.g. /api/visitors?status=Pending,Approved&block=A&sort=oldest&cursor=...
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            const all = (await visitors.list()).filter(v => canAccessVisitor(user, v));
+            const limit = parseInt(readQuery(req, 'limit'), 10) || DEFAULT_PAGE_SIZE;
+            const sort = readQuery(req, 'sort');
+            res.status(200).json(queryVisitors(all, {
+                statuses: readQuery(req, 'status').split(',').filter(Boolean),
+                from: readTimestamp(req, 'from'),
+                to: readTimestamp(req, 'to'),
+                block: readQuery(req, 'block') || undefined,
+                unit: readQuery(req, 'unit') || undefined,
+                purpose: readQuery(req, 'purpose') || undefined,
+                search: readQuery(req, 'q').trim() || undefined,
+                sort: sort === 'oldest' || sort === 'name' ? sort : 'newest',
+                cursor: readQuery(req, 'cursor') || undefined,
+                limit: Math.min(Math.max(limit, 1), MAX_PAGE_SIZE),
+            }));
+        } catch (error) {
+            console.error('Error fetching visitors:', error);
+            res.status(500).json({ error: 'Failed to fetch visitors' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            // Staff register walk-ins; residents may only pre-register guests for their own unit.
+            const isPreRegistration = !can(user, 'visitor.register');
+            if (isPreRegistration && !requirePermission(res, user, 'visitor.preregister')) return;
+
+            if (isRecord(req.body) && typeof req.body.scheduleId === 'number') {
+                if (!requirePermission(res, user, 'visitor.register')) return;
+                await createScheduledVisit(user, req.body.scheduleId, res);
+                return;
+            }
+
+            if (!isRecord(req.body) || !req.body.name || !req.body.resident) {
+                res.status(400).json({ error: 'A visitor needs at least a name and a resident unit' });
+                return;
+            }
+            const { id, version, checkInTime, checkOutTime, preRegistered, residentApprovalDeadline, decidedBy, scheduleId, profileId, overstayedAt, autoCheckedOut, parkingBay, ...fields } = req.body as Visitor;
+            if (fields.vehicle !== undefined && typeof fields.vehicle !== 'string') {
+                res.status(400).json({ error: 'The vehicle must be a plate number' });
+                return;
+            }
+            const windowError = arrivalWindowError(fields, isPreRegistration);
+            if (windowError) {
+                res.status(400).json({ error: windowError });
+                return;
+            }
+            if (isPreRegistration && (!user.unitNo || fields.resident !== user.unitNo)) {
+                res.status(403).json({ error: 'Residents can only pre-register visitors for their own unit' });
+                return;
+            }
+            if (!(await screenVisit(user, fields, 'registration', res))) return;
+            fields.photo = await storeInlineImage(fields.photo);
+            // Returning visitors are recognised by contact number and the visit filed under their profile.
+            const visitor = {
+                ...fields,
+                vehicle: normalizePlate(fields.vehicle) || undefined,
+                idDocument: fields.idDocument ? maskDocumentNumber(fields.idDocument) : undefined,
+                profileId: await linkProfile(user, fields),
+            };
+
+            let created: Visitor;
+            if (isPreRegistration) {
+                // The resident is the one who would approve, so their own guests skip the Pending step.
+                created = await createWithNumericId(visitors, { ...visitor, status: 'Approved', preRegistered: true });
+                await recordAudit(user, 'visitor.preregister', { type: 'visitor', id: created.id, label: created.name }, null, created);
+            } else {
+                // Staff registrations always start out waiting for approval, first from the unit's resident
+                // if it has one, and from officers once the resident's time is up.
+                created = await createWithNumericId(visitors, { ...visitor, ...(await approvalDeadlineFor(visitor.resident)), status: 'Pending' });
+                await recordAudit(user, 'visitor.create', { type: 'visitor', id: created.id, label: created.name }, null, created);
+            }
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating visitor:', error);
+            res.status(500).json({ error: 'Failed to create visitor' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
@@ -0,0 +1,37 @@
+// api/watchlist/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { watchlist } from '../_lib/collections';
+import { methodNotAllowed, readId } from '../_lib/http';
+import { can, requirePermission } from '../_lib/permissions';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    const id = readId(req);
+
+    try {
+        const user = await requireUser(req, res);
+        if (!user) return;
+
+        const existing = await watchlist.get(id);
+        if (!existing || !can(user, 'visitor.viewAll')) {
+            res.status(404).json({ error: 'Watchlist entry not found' });
+            return;
+        }
+
+        if (req.method === 'GET') {
+            res.status(200).json(existing);
+        } else if (req.method === 'DELETE') {
+            if (!requirePermission(res, user, 'watchlist.manage')) return;
+            await watchlist.remove(id);
+            const label = existing.name || existing.vehicle || existing.contact || String(existing.id);
+            await recordAudit(user, 'watchlist.delete', { type: 'watchlist', id: existing.id, label }, existing, null);
+            res.status(204).end();
+        } else {
+            methodNotAllowed(req, res, ['GET', 'DELETE']);
+        }
+    } catch (error) {
+        console.error(`Error handling watchlist entry ${id}:`, error);
+        res.status(500).json({ error: 'Failed to process watchlist request' });
+    }
+}
@@ -0,0 +1,56 @@
+// api/watchlist/index.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { recordAudit } from '../_lib/audit';
+import { requireUser } from '../_lib/auth';
+import { watchlist } from '../_lib/collections';
+import { isRecord, methodNotAllowed } from '../_lib/http';
+import { storeInlineImage } from '../_lib/images';
+import { can, requirePermission } from '../_lib/permissions';
+import { createWithNumericId } from '../_lib/store';
+import type { WatchlistEntry } from '../_lib/types';
+import { watchlistEntryError } from '../_lib/watchlist';
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+    if (req.method === 'GET') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user) return;
+            // Staff screen visitors against the list; residents never see who is on it.
+            res.status(200).json(can(user, 'visitor.viewAll') ? await watchlist.list() : []);
+        } catch (error) {
+            console.error('Error fetching watchlist:', error);
+            res.status(500).json({ error: 'Failed to fetch watchlist' });
+        }
+    } else if (req.method === 'POST') {
+        try {
+            const user = await requireUser(req, res);
+            if (!user || !requirePermission(res, user, 'watchlist.manage')) return;
+
+            if (!isRecord(req.body)) {
+                res.status(400).json({ error: 'Request body must be a watchlist entry' });
+                return;
+            }
+            const { id, version, createdBy, createdAt, ...fields } = req.body as WatchlistEntry;
+            const error = watchlistEntryError(fields);
+            if (error) {
+                res.status(400).json({ error });
+                return;
+            }
+            const created = await createWithNumericId(watchlist, {
+                ...fields,
+                reason: fields.reason.trim(),
+                photo: await storeInlineImage(fields.photo),
+                createdBy: `${user.username} (${user.role})`,
+                createdAt: new Date().toISOString(),
+            });
+            const label = created.name || created.vehicle || created.contact || String(created.id);
+            await recordAudit(user, 'watchlist.create', { type: 'watchlist', id: created.id, label }, null, created);
+            res.status(201).json(created);
+        } catch (error) {
+            console.error('Error creating watchlist entry:', error);
+            res.status(500).json({ error: 'Failed to create watchlist entry' });
+        }
+    } else {
+        methodNotAllowed(req, res, ['GET', 'POST']);
+    }
+}
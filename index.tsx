@@ -2,13 +2,25 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
  */
-import { GoogleGenAI, Chat } from "@google/genai";
+import { GoogleGenAI, Chat, Type } from "@google/genai";
+import { toDataURL as qrCodeToDataURL } from "qrcode";
+import jsQR from "jsqr";
+import { jsPDF } from "jspdf";
 
 type VisitorStatus = 'Pending' | 'Approved' | 'Rejected' | 'Checked-in' | 'Checked-out';
-type AppView = 'login' | 'dashboard' | 'overview';
-type UserRole = 'Admin' | 'Security' | 'Officer' | 'Resident';
+type AppView = 'login' | 'dashboard' | 'overview' | 'scanner' | 'account';
+type UserRole = string; // The name of one of state.roles
+type Permission =
+    | 'visitor.viewAll' | 'visitor.register' | 'visitor.preregister' | 'visitor.edit' | 'visitor.approve' | 'visitor.respond'
+    | 'visitor.checkin' | 'visitor.delete' | 'visitor.export' | 'users.manage' | 'units.manage' | 'company.manage'
+    | 'chat.reply' | 'audit.view' | 'watchlist.manage' | 'alerts.respond' | 'parking.manage';
+
+// Server records carry a version that increases on every save; updates send it back to detect conflicts.
+interface Versioned {
+    version?: number;
+}
 
-interface Visitor {
+interface Visitor extends Versioned {
     id: number;
     name: string;
     contact: string;
@@ -22,17 +34,93 @@ interface Visitor {
     status: VisitorStatus;
     checkInTime?: string; // ISO string
     checkOutTime?: string; // ISO string
+    expectedArrival?: string; // ISO string, start of the window the visitor is expected in
+    expectedDeparture?: string; // ISO string
+    preRegistered?: boolean; // Registered ahead of time by the resident, and so approved already
+    residentApprovalDeadline?: string; // ISO string; until then the walk-in waits on the unit's resident
+    decidedBy?: string; // Who approved or rejected the visit, e.g. "resident203 (Resident)"
+    scheduleId?: number; // Set when the visit is an arrival under a VisitSchedule
+    profileId?: number; // The VisitorProfile of the person visiting, linked by the server
+    overstayedAt?: string; // ISO string; set by the server's stay check once the visit runs over its limit
+    autoCheckedOut?: boolean; // Checked out by the end-of-day policy rather than at the gate
+    parkingBay?: string; // Bay id, e.g. "A-P3", given at check-in
+    idDocument?: string; // Masked ID document number, e.g. "*****567D"
+}
+
+// The person behind a series of visits, recognised by contact number when they return.
+interface VisitorProfile extends Versioned {
+    id: number;
+    name: string;
+    contact: string;
+    vehicle?: string;
+    carBrand?: string;
+    photo?: string; // Base64 data URL from their latest visit with a photo
+}
+
+// The visitor details a schedule copies into each visit it creates.
+type ScheduledVisitor = Pick<Visitor, 'name' | 'contact' | 'purpose' | 'resident' | 'block' | 'houseNo' | 'vehicle' | 'carBrand'>;
+
+interface VisitSchedule extends Versioned {
+    id: number;
+    visitor: ScheduledVisitor;
+    kind: 'once' | 'weekly'; // A one-off date range, or the chosen weekdays until endDate
+    startDate: string; // yyyy-mm-dd
+    endDate: string; // yyyy-mm-dd, when the schedule expires
+    days: number[]; // Weekdays for weekly schedules, 0 = Sunday
+    startTime: string; // hh:mm
+    endTime: string; // hh:mm
+    timeZone: string; // IANA zone the times are in, e.g. "Asia/Kuala_Lumpur"
+    createdBy: number;
+}
+
+// A banned or flagged person or vehicle, matched on name, contact number or plate.
+interface WatchlistEntry extends Versioned {
+    id: number;
+    name?: string;
+    contact?: string;
+    vehicle?: string;
+    photo?: string; // Base64 data URL, for guards to compare by eye
+    action: 'block' | 'warn';
+    reason: string;
+    createdBy: string;
+    createdAt: string; // ISO string
 }
 
-interface User {
+// Raised by the server for officers, e.g. when a watchlisted visitor is registered or checked in.
+interface SecurityAlert extends Versioned {
+    id: number;
+    kind: 'watchlist' | 'overstay';
+    message: string;
+    visitorName: string;
+    visitorId?: number;
+    stage: 'registration' | 'check-in' | 'stay';
+    raisedBy: string;
+    createdAt: string; // ISO string
+    acknowledgedBy?: string;
+}
+
+interface User extends Versioned {
     id: number;
     username: string;
-    password?: string; // Not ideal for frontend, but this is a mock
+    password?: string; // Only set in offline mocks or when sending a new password to the server
     role: UserRole;
     unitNo?: string; // For residents
+    invitedAt?: string; // Set until the user redeems their invite code
+    mustChangePassword?: boolean; // Keeps the user on the change-password screen until they pick a new one
+    twoFactorEnabledAt?: string; // Set while logins need a code from an authenticator app
+    mustSetUpTwoFactor?: boolean; // Keeps the user on the two-factor setup screen while the rules require it
 }
 
-interface CompanyInfo {
+// What users with this role may do. The built-in roles are presets that can be edited but not
+// deleted; users of a role with `hasUnit` belong to a unit, as residents do.
+interface Role extends Versioned {
+    name: string;
+    permissions: Permission[];
+    hasUnit: boolean;
+    builtIn?: boolean;
+}
+
+interface CompanyInfo extends Versioned {
     name: string;
     logo: string; // base64 data URL
     address: string;
@@ -41,10 +129,104 @@ interface CompanyInfo {
     contactNumber: string;
 }
 
-interface Activity {
+interface AuditEntry {
+    id: string;
+    timestamp: string;
+    actorId: number;
+    actorName: string;
+    actorRole: string;
+    action: string;
+    targetType: string;
+    targetId: string;
+    targetLabel: string;
+    changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+type VisitorSort = 'newest' | 'oldest' | 'name';
+
+// The dashboard's filters, besides the search box.
+interface VisitorFilters {
+    statuses: VisitorStatus[]; // Empty for all
+    from: string; // yyyy-mm-dd
+    to: string; // yyyy-mm-dd
+    block: string;
+    unit: string; // e.g. "A-101"
+    purpose: string;
+    sort: VisitorSort;
+}
+
+interface VisitorPage {
+    visitors: Visitor[];
+    nextCursor: string | null;
+    total: number;
+}
+
+// What the server found in a CSV of units and residents, from a dry run or the import itself.
+interface UnitImportReport {
+    dryRun: boolean;
+    rows: { line: number; unitNo: string; username: string; unit: 'new' | 'existing'; errors: string[] }[];
+    units: number; // Created, or to be created on a dry run
+    residents: number;
+    batchRows: number; // The most rows the server writes per request
+}
+
+interface AuditFilters {
+    action: string;
+    actor: string;
+    targetType: string;
+    from: string; // yyyy-mm-dd
+    to: string; // yyyy-mm-dd
+}
+
+// Maximum stays in hours (0 = no limit) and the optional end-of-day automatic check-out.
+interface StayPolicy extends Versioned {
+    defaultMaxHours: number;
+    maxHoursByPurpose: Record<string, number>; // Keyed by upper-case purpose, e.g. DELIVERY
+    autoCheckOutAt: string; // hh:mm in timeZone, or '' for none
+    timeZone: string;
+}
+
+// Rules for new passwords, and how many failed logins (0 for no limit) lock an account and for how long.
+interface PasswordPolicy extends Versioned {
+    minLength: number;
+    requireUppercase: boolean;
+    requireLowercase: boolean;
+    requireNumber: boolean;
+    requireSymbol: boolean;
+    maxFailedAttempts: number;
+    lockoutMinutes: number;
+    requireTwoFactor: boolean; // For roles that approve visitors or manage users
+}
+
+// A device the user is signed in on. `id` identifies the session without revealing its cookie.
+interface SessionInfo {
+    id: string;
+    createdAt: string;
+    lastSeenAt: string;
+    expiresAt: string;
+    userAgent: string;
+    current: boolean;
+}
+
+// A visitor parking bay. Its id is `${block}-${label}`, e.g. "A-P3".
+interface ParkingBay extends Versioned {
+    block: string;
+    label: string;
+}
+
+// A car registered to a unit, so guards can tell residents' cars from visitors'.
+interface ResidentVehicle extends Versioned {
     id: number;
-    message: string;
-    timestamp: Date;
+    plate: string; // Normalized, e.g. "WXY 1234"
+    unitNo: string;
+    carBrand?: string;
+    addedBy: string;
+}
+
+interface PlateLookup {
+    plate: string;
+    residentVehicles: ResidentVehicle[];
+    visits: Visitor[];
 }
 
 interface PredefinedUnit {
@@ -54,7 +236,7 @@ interface PredefinedUnit {
 
 type ChatMessage = { sender: 'user' | 'bot' | 'admin'; text: string };
 
-interface PendingChat {
+interface PendingChat extends Versioned {
     id: number;
     userId: number | null;
     userName: string;
@@ -86,6 +268,32 @@ const mockVisitors: Visitor[] = [
     { id: 3, name: 'CHARLIE BROWN', contact: '555-8765', purpose: 'PERSONAL VISIT', resident: 'C-305', block: 'C', houseNo: '305', status: 'Pending' },
 ];
 
+const defaultStayPolicy: StayPolicy = {
+    defaultMaxHours: 12,
+    maxHoursByPurpose: { DELIVERY: 1 },
+    autoCheckOutAt: '',
+    timeZone: 'UTC',
+};
+
+const defaultPasswordPolicy: PasswordPolicy = {
+    minLength: 10,
+    requireUppercase: false,
+    requireLowercase: false,
+    requireNumber: true,
+    requireSymbol: false,
+    maxFailedAttempts: 5,
+    lockoutMinutes: 15,
+    requireTwoFactor: false,
+};
+
+// The same presets the server starts with, for offline mode.
+const defaultRoles: Role[] = [
+    { name: 'Admin', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.edit', 'visitor.approve', 'visitor.checkin', 'visitor.delete', 'users.manage', 'units.manage', 'company.manage', 'chat.reply', 'audit.view', 'watchlist.manage', 'alerts.respond', 'parking.manage', 'visitor.export'] },
+    { name: 'Officer', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.edit', 'visitor.approve', 'chat.reply', 'audit.view', 'alerts.respond', 'visitor.export'] },
+    { name: 'Security', builtIn: true, hasUnit: false, permissions: ['visitor.viewAll', 'visitor.register', 'visitor.checkin', 'audit.view'] },
+    { name: 'Resident', builtIn: true, hasUnit: true, permissions: ['visitor.preregister', 'visitor.respond'] },
+];
+
 const defaultCompanyInfo: CompanyInfo = {
     name: 'ResiGuard Local',
     logo: '',
@@ -104,84 +312,553 @@ function getAi() {
     return ai;
 }
 
+interface PlateReading {
+    plate: string;
+    carBrand?: string;
+}
+
+// Reads the number plate, and the make if it can tell, from a camera snapshot. Resolves to null when no plate is visible.
+type PlateReader = (imageDataUrl: string) => Promise<PlateReading | null>;
+
+const readPlateWithGemini: PlateReader = async (imageDataUrl) => {
+    const [header, data] = imageDataUrl.split(',');
+    const response = await getAi().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { inlineData: { mimeType: header.match(/^data:(.*?);/)?.[1] ?? 'image/jpeg', data } },
+                { text: 'Read the licence plate of the vehicle in this photo, and name the car brand if you can recognise it. Leave plate empty if no plate is readable.' },
+            ],
+        },
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: { plate: { type: Type.STRING }, carBrand: { type: Type.STRING } },
+                required: ['plate'],
+            },
+        },
+    });
+    const reading = JSON.parse(response.text ?? '{}') as Partial<PlateReading>;
+    const plate = normalizePlate(reading.plate);
+    return plate ? { plate, carBrand: reading.carBrand?.trim().toUpperCase() || undefined } : null;
+};
+
+// Stands in for Gemini in tests and demos without an API key; set PLATE_READER=stub to use it.
+const stubPlateReader: PlateReader = async () => ({ plate: 'WXY 1234', carBrand: 'TOYOTA' });
+
+const readPlate: PlateReader = process.env.PLATE_READER === 'stub' ? stubPlateReader : readPlateWithGemini;
+
+interface IdReading {
+    name: string;
+    documentNumber: string;
+}
+
+// Reads the holder's name and document number from a photo of an ID card or driver's licence.
+type IdReader = (imageDataUrl: string) => Promise<IdReading | null>;
+
+const readIdWithGemini: IdReader = async (imageDataUrl) => {
+    const [header, data] = imageDataUrl.split(',');
+    const response = await getAi().models.generateContent({
+        model: 'gemini-2.5-flash',
+        contents: {
+            parts: [
+                { inlineData: { mimeType: header.match(/^data:(.*?);/)?.[1] ?? 'image/jpeg', data } },
+                { text: 'This is a photo of an identity card or driving licence. Give the holder\'s full name exactly as printed, and the document number. Leave both empty if the document is not readable.' },
+            ],
+        },
+        config: {
+            responseMimeType: 'application/json',
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: { name: { type: Type.STRING }, documentNumber: { type: Type.STRING } },
+                required: ['name', 'documentNumber'],
+            },
+        },
+    });
+    const reading = JSON.parse(response.text ?? '{}') as Partial<IdReading>;
+    const name = (reading.name ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+    const documentNumber = (reading.documentNumber ?? '').trim();
+    return name && documentNumber ? { name, documentNumber } : null;
+};
+
+// Set ID_READER=stub to scan every document as the same made-up card.
+const stubIdReader: IdReader = async () => ({ name: 'JANE TAN MEI LING', documentNumber: 'S1234567D' });
+
+const readIdDocument: IdReader = process.env.ID_READER === 'stub' ? stubIdReader : readIdWithGemini;
+
+// Only the last four letters or digits of a document number are kept, as on the server.
+function maskDocumentNumber(documentNumber: string): string {
+    return documentNumber.trim().toUpperCase().replace(/[A-Z0-9](?=(?:[^A-Z0-9]*[A-Z0-9]){4})/g, '*');
+}
+
 // --- DATA PERSISTENCE (SERVER) ---
-let saveTimeout: number;
+class ApiError extends Error {
+    constructor(public status: number, message: string, public body: any) {
+        super(message);
+    }
+}
+
+async function apiRequest<T = any>(path: string, method = 'GET', body?: unknown, headers: Record<string, string> = {}): Promise<T> {
+    const response = await fetch(path, {
+        method,
+        headers: body !== undefined ? { 'Content-Type': 'application/json', ...headers } : headers,
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+
+    if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        // The server ended the session: it timed out, or was signed out from another device.
+        if (response.status === 401 && state.isAuthenticated && !state.isOfflineMode) {
+            clearSession(SESSION_EXPIRED_MESSAGE);
+        }
+        // Everything but the change-password call is refused once the user has been told to change it.
+        if (data.mustChangePassword && state.currentUser && !state.currentUser.mustChangePassword) {
+            setState({ currentUser: { ...state.currentUser, mustChangePassword: true } });
+        }
+        if (data.mustSetUpTwoFactor && state.currentUser && !state.currentUser.mustSetUpTwoFactor) {
+            setState({ currentUser: { ...state.currentUser, mustSetUpTwoFactor: true } });
+        }
+        throw new ApiError(response.status, data.error || `Server responded with ${response.status}`, data);
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Creates a record and returns it with its server-assigned id. Offline mode keeps the local placeholder id.
+async function createRecord<T>(path: string, record: T): Promise<T> {
+    if (state.isOfflineMode) return record;
+    return apiRequest<T>(path, 'POST', record);
+}
+
+// Photos are uploaded on their own and records keep only the image id; offline they stay inline as data URLs.
+// The server makes the thumbnail.
+async function uploadImage(dataUrl: string): Promise<string> {
+    if (state.isOfflineMode || !dataUrl.startsWith('data:')) return dataUrl;
+    const { id } = await apiRequest<{ id: string }>('/api/images', 'POST', { image: dataUrl });
+    return id;
+}
+
+// Where to load a stored image from. Records made offline or before image storage hold the image itself.
+function imageSrc(ref: string, size: 'original' | 'thumb' = 'original'): string {
+    return ref.startsWith('data:') ? ref : `/api/images/${ref}${size === 'thumb' ? '?size=thumb' : ''}`;
+}
+
+// Sends a single-record change in the background; the local state has already been updated.
+function saveRecord(path: string, method: 'POST' | 'DELETE', body?: unknown) {
+    if (state.isOfflineMode) return;
+
+    apiRequest(path, method, body).catch(error => {
+        console.error(`Failed to save ${method} ${path} to server:`, error);
+        // In a real app, you might want to show a toast notification to the user
+    });
+}
+
+// Returns only the fields of `updated` that differ from `base`, so edits don't overwrite
+// fields someone else changed in the meantime.
+function changedFields<T extends object>(base: T, updated: T): Partial<T> {
+    return Object.fromEntries(
+        Object.entries(updated).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(base[key as keyof T]))
+    ) as Partial<T>;
+}
+
+// Decides how to re-apply `changes` after someone else saved `latest` on top of `base`.
+// Returns null when the same fields were changed to something else, i.e. a real conflict.
+type Rebase<T> = (base: T, latest: T, changes: Partial<T>) => Partial<T> | null;
+
+function rebaseChanges<T>(base: T, latest: T, changes: Partial<T>): Partial<T> | null {
+    const changedElsewhere = (Object.keys(changes) as (keyof T)[]).some(key => {
+        const latestValue = JSON.stringify(latest[key]);
+        return latestValue !== JSON.stringify(base[key]) && latestValue !== JSON.stringify(changes[key]);
+    });
+    return changedElsewhere ? null : changes;
+}
 
-function debounceSave() {
-    clearTimeout(saveTimeout);
-    saveTimeout = window.setTimeout(async () => {
-        if (!state.isAuthenticated) return;
+const MAX_SAVE_ATTEMPTS = 3;
 
+// PATCHes `changes` against the version the client last saw. If another device saved first (409),
+// the changes are rebased onto the latest copy and retried; if they can't be, the latest copy wins.
+async function patchRecord<T extends Versioned>(path: string, base: T, changes: Partial<T>, rebase: Rebase<T>): Promise<{ record: T; applied: boolean }> {
+    let current = base;
+    let pending = changes;
+
+    for (let attempt = 1; ; attempt++) {
         try {
-            const dataToSave = {
-                visitors: state.visitors,
-                users: state.users,
-                companyInfo: state.companyInfo,
-                predefinedUnits: state.predefinedUnits,
-                pendingChats: state.pendingChats,
-                sessions: state.sessions,
-            };
+            const record = await apiRequest<T>(path, 'PATCH', pending, { 'If-Match': `"${current.version ?? 0}"` });
+            return { record, applied: true };
+        } catch (error) {
+            const latest = error instanceof ApiError && error.status === 409 ? error.body.current as T | null : null;
+            if (!latest) throw error;
 
-            const response = await fetch('/api/data', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(dataToSave),
-            });
+            const rebased = rebase(current, latest, pending);
+            if (!rebased || attempt >= MAX_SAVE_ATTEMPTS) return { record: latest, applied: false };
+            current = latest;
+            pending = rebased;
+        }
+    }
+}
 
-            if (!response.ok) {
-                throw new Error(`Server responded with ${response.status}`);
+// Saves a change to one versioned record in the background and hands the server's copy (with its
+// new version) to `onSaved`. The local state has already been updated optimistically; `onFailed`
+// can undo that when the server refuses the change.
+function saveChanges<T extends Versioned>(path: string, base: T, changes: Partial<T>, onSaved: (record: T) => void, rebase: Rebase<T> = rebaseChanges, onFailed?: (error: unknown) => void) {
+    if (state.isOfflineMode || Object.keys(changes).length === 0) return;
+
+    patchRecord(path, base, changes, rebase)
+        .then(({ record, applied }) => {
+            onSaved(record);
+            if (!applied) {
+                alert('This record was changed on another device at the same time, so your change was not saved. The latest details are now shown.');
             }
+        })
+        .catch(error => {
+            console.error(`Failed to save PATCH ${path} to server:`, error);
+            onFailed?.(error);
+        });
+}
 
-            console.log("Data saved to server.");
-        } catch (error) {
-            console.error("Failed to save data to server:", error);
-            // In a real app, you might want to show a toast notification to the user
+function replaceVisitor(record: Visitor) {
+    setState({ visitors: state.visitors.map(v => v.id === record.id ? record : v) });
+}
+
+function replaceUser(record: User) {
+    setState({
+        users: state.users.map(u => u.id === record.id ? record : u),
+        currentUser: state.currentUser?.id === record.id ? record : state.currentUser,
+    });
+}
+
+function replaceChat(record: PendingChat) {
+    const isOpenChat = record.id === state.activeChatId || record.id === state.viewingChatId;
+    setState({
+        pendingChats: state.pendingChats.map(c => c.id === record.id ? record : c),
+        ...(isOpenChat ? { chatMessages: record.messages } : {}),
+    });
+}
+
+// Chat messages are append-only, so a concurrent reply is merged by appending ours after it.
+function rebaseChatMessages(base: PendingChat, latest: PendingChat, changes: Partial<PendingChat>): Partial<PendingChat> | null {
+    const { messages, ...otherChanges } = changes;
+    const rebased = rebaseChanges(base, latest, otherChanges);
+    if (!rebased || !messages) return rebased;
+    return { ...rebased, messages: [...latest.messages, ...messages.slice(base.messages.length)] };
+}
+
+function saveVisitorChanges(base: Visitor, changes: Partial<Visitor>) {
+    saveChanges(`/api/visitors/${base.id}`, base, changes, replaceVisitor);
+}
+
+function saveUserChanges(base: User, changes: Partial<User>) {
+    saveChanges(`/api/users/${base.id}`, base, changes, replaceUser);
+}
+
+function saveChatChanges(base: PendingChat, changes: Partial<PendingChat>) {
+    saveChanges(`/api/chats/${base.id}`, base, changes, replaceChat, rebaseChatMessages);
+}
+
+
+// --- LIVE UPDATES (SERVER-SENT EVENTS) ---
+type ChangeEvent = {
+    type: 'visitors' | 'users' | 'units' | 'chats' | 'schedules' | 'profiles' | 'watchlist' | 'alerts' | 'bays' | 'vehicles' | 'roles' | 'company' | 'stayPolicy' | 'passwordPolicy';
+    op: 'upsert' | 'delete';
+    id: string;
+    record?: any;
+};
+
+let liveUpdates: EventSource | null = null;
+
+function unitKey(unit: PredefinedUnit): string {
+    return `${unit.block}-${unit.houseNo}`;
+}
+
+function compareUnits(a: PredefinedUnit, b: PredefinedUnit): number {
+    if (a.block < b.block) return -1; if (a.block > b.block) return 1;
+    return a.houseNo.localeCompare(b.houseNo, undefined, { numeric: true });
+}
+
+// Built-in roles first, in their preset order, then custom roles by name, as the server lists them.
+function compareRoles(a: Role, b: Role): number {
+    const rank = (role: Role) => role.builtIn ? defaultRoles.findIndex(r => r.name === role.name) : defaultRoles.length;
+    return rank(a) - rank(b) || a.name.localeCompare(b.name);
+}
+
+function bayKey(bay: ParkingBay): string {
+    return `${bay.block}-${bay.label}`;
+}
+
+function compareBays(a: ParkingBay, b: ParkingBay): number {
+    return a.block.localeCompare(b.block) || a.label.localeCompare(b.label, undefined, { numeric: true });
+}
+
+// Inserts or replaces a record, ignoring pushes that are not newer than what we already show.
+function upsertRecord<T extends Versioned & { id: number }>(records: T[], record: T, insertAtStart = false): T[] {
+    const existing = records.find(r => r.id === record.id);
+    if (!existing) return insertAtStart ? [record, ...records] : [...records, record];
+    if ((existing.version ?? 0) >= (record.version ?? 0)) return records;
+    return records.map(r => r.id === record.id ? record : r);
+}
+
+function applyChange({ type, op, id, record }: ChangeEvent): Partial<typeof state> {
+    switch (type) {
+        case 'visitors':
+            return { visitors: op === 'delete' ? state.visitors.filter(v => String(v.id) !== id) : upsertRecord(state.visitors, record, true) };
+        case 'users': {
+            if (op === 'delete') return { users: state.users.filter(u => String(u.id) !== id) };
+            const users = upsertRecord(state.users, record);
+            return { users, currentUser: users.find(u => u.id === state.currentUser?.id) ?? state.currentUser };
+        }
+        case 'units': {
+            if (op === 'delete') return { predefinedUnits: state.predefinedUnits.filter(u => unitKey(u) !== id) };
+            if (state.predefinedUnits.some(u => unitKey(u) === id)) return {};
+            return { predefinedUnits: [...state.predefinedUnits, record].sort(compareUnits) };
+        }
+        case 'chats': {
+            if (op === 'delete') return { pendingChats: state.pendingChats.filter(c => String(c.id) !== id) };
+            const pendingChats = upsertRecord(state.pendingChats, record);
+            const openChat = pendingChats.find(c => c.id === (state.activeChatId ?? state.viewingChatId));
+            return { pendingChats, ...(openChat ? { chatMessages: openChat.messages } : {}) };
+        }
+        case 'schedules':
+            return { schedules: op === 'delete' ? state.schedules.filter(s => String(s.id) !== id) : upsertRecord(state.schedules, record) };
+        case 'profiles':
+            return { profiles: op === 'delete' ? state.profiles.filter(p => String(p.id) !== id) : upsertRecord(state.profiles, record) };
+        case 'watchlist':
+            return { watchlist: op === 'delete' ? state.watchlist.filter(w => String(w.id) !== id) : upsertRecord(state.watchlist, record, true) };
+        case 'alerts':
+            return { alerts: op === 'delete' ? state.alerts.filter(a => String(a.id) !== id) : upsertRecord(state.alerts, record, true) };
+        case 'bays': {
+            if (op === 'delete') return { bays: state.bays.filter(b => bayKey(b) !== id) };
+            if (state.bays.some(b => bayKey(b) === id)) return {};
+            return { bays: [...state.bays, record].sort(compareBays) };
+        }
+        case 'vehicles':
+            return { vehicles: op === 'delete' ? state.vehicles.filter(v => String(v.id) !== id) : upsertRecord(state.vehicles, record) };
+        case 'roles': {
+            if (op === 'delete') return { roles: state.roles.filter(r => r.name !== id) };
+            const existing = state.roles.find(r => r.name === id);
+            if (!existing) return { roles: [...state.roles, record].sort(compareRoles) };
+            return (record.version ?? 0) > (existing.version ?? 0) ? { roles: state.roles.map(r => r.name === id ? record : r) } : {};
         }
-    }, 1500); // Debounce for 1.5 seconds
+        case 'company':
+            return (record.version ?? 0) > (state.companyInfo.version ?? 0) ? { companyInfo: record } : {};
+        case 'stayPolicy':
+            return (record.version ?? 0) > (state.stayPolicy.version ?? 0) ? { stayPolicy: record } : {};
+        case 'passwordPolicy':
+            return (record.version ?? 0) > (state.passwordPolicy.version ?? 0) ? { passwordPolicy: record } : {};
+    }
+}
+
+// Re-rendering everything would wipe whatever the user is typing, so while a form is open only the grid refreshes.
+function renderRemoteChanges() {
+    const active = document.activeElement;
+    const isTyping = active instanceof HTMLInputElement || active instanceof HTMLTextAreaElement || active instanceof HTMLSelectElement;
+    if (isTyping || state.isModalOpen || state.isCompanySetupModalOpen || state.isEditUserModalOpen || state.isAddUserModalOpen || state.isScheduleModalOpen || state.isWatchlistModalOpen || state.isStayPolicyModalOpen || state.isPasswordPolicyModalOpen || state.isRolesModalOpen || state.isExportModalOpen || state.isParkingModalOpen || state.parkingVisitorId !== null) {
+        renderGridOnly();
+    } else {
+        render();
+    }
 }
 
+function connectLiveUpdates() {
+    if (state.isOfflineMode || !state.isAuthenticated || liveUpdates) return;
 
-// --- SESSION MANAGEMENT HELPERS ---
-function createSession(user: User): string {
-    const sessionId = crypto.randomUUID();
-    const newSessions = { ...state.sessions, [sessionId]: user.id };
-    
-    // Use setState to update state and trigger the debounced save
-    setState({ sessions: newSessions }); 
-    
-    sessionStorage.setItem('sessionId', sessionId);
-    return sessionId;
+    liveUpdates = new EventSource('/api/events');
+    liveUpdates.onerror = handleLiveUpdatesError;
+    liveUpdates.onmessage = (message) => {
+        state = { ...state, ...applyChange(JSON.parse(message.data)) };
+        notifyNewApprovalRequests();
+        notifyNewAlerts();
+        renderRemoteChanges();
+    };
+    // Sent when we were disconnected for longer than the server keeps changes, so reload everything.
+    liveUpdates.addEventListener('resync', () => {
+        fetchAppData()
+            .then(data => {
+                state = { ...state, ...data };
+                renderRemoteChanges();
+                loadVisitorPage();
+            })
+            .catch(error => console.error("Failed to reload data after losing live updates:", error));
+    });
+}
+
+const LIVE_UPDATES_RETRY_MS = 5000;
+
+// The stream stops for good when the server refuses to reconnect it, which is usually because
+// the session has ended while the tab sat idle.
+function handleLiveUpdatesError() {
+    if (liveUpdates?.readyState !== EventSource.CLOSED) return;
+    disconnectLiveUpdates();
+    fetchSessionUser()
+        .then(user => {
+            if (!user) {
+                if (state.isAuthenticated) clearSession(SESSION_EXPIRED_MESSAGE);
+            } else if (needsAccountSetup(user)) {
+                setState({ currentUser: user });
+            } else {
+                window.setTimeout(connectLiveUpdates, LIVE_UPDATES_RETRY_MS);
+            }
+        })
+        .catch(error => console.error("Failed to check the session after losing live updates:", error));
+}
+
+function disconnectLiveUpdates() {
+    liveUpdates?.close();
+    liveUpdates = null;
+}
+
+
+// --- PERMISSIONS ---
+// Every permission a role can be given, in the order the role editor lists them.
+const PERMISSION_LABELS: Record<Permission, string> = {
+    'visitor.viewAll': 'See all visitors, visitor profiles and plates',
+    'visitor.register': 'Register walk-ins and log scheduled arrivals',
+    'visitor.preregister': 'Pre-register guests for their own unit',
+    'visitor.edit': 'Edit visitor details',
+    'visitor.approve': 'Approve or reject any visitor',
+    'visitor.respond': 'Answer approval requests for their own unit',
+    'visitor.checkin': 'Check visitors in and out and scan passes',
+    'visitor.delete': 'Delete visitors',
+    'visitor.export': 'Export visitor reports',
+    'chat.reply': 'Reply to chats',
+    'alerts.respond': 'Receive watchlist alerts',
+    'watchlist.manage': 'Manage the watchlist',
+    'parking.manage': 'Manage parking bays',
+    'audit.view': 'View the audit log',
+    'units.manage': 'Manage units',
+    'company.manage': 'Edit the company profile and stay limits',
+    'users.manage': 'Manage users, roles and password rules',
+};
+
+// Only decides what to show; the server checks the same permissions on every request.
+// `roles` is passed while a session is starting, before the fetched roles are in the state.
+function can(user: User | null, action: Permission, roles: Role[] = state.roles): boolean {
+    return !!user && !!roles.find(r => r.name === user.role)?.permissions.includes(action);
+}
+
+function roleHasUnit(role: UserRole, roles: Role[] = state.roles): boolean {
+    return !!roles.find(r => r.name === role)?.hasUnit;
+}
+
+// Whether anyone could still manage users if roles were as given. The server refuses changes that
+// would leave nobody able to, since they couldn't be undone from the app.
+function hasUserManager(users: User[], roles: Role[] = state.roles): boolean {
+    return users.some(u => can(u, 'users.manage', roles));
+}
+
+// --- WALK-IN APPROVAL REQUESTS ---
+// Walk-ins go to the unit's resident first and only reach officers once the resident's deadline passes.
+function isAwaitingResident(visitor: Visitor, now = Date.now()): boolean {
+    return !!visitor.residentApprovalDeadline && new Date(visitor.residentApprovalDeadline).getTime() > now;
+}
+
+// Pending visitors this user is currently being asked to decide on.
+function visitorsAwaitingDecision(user: User, visitors: Visitor[], roles: Role[] = state.roles): Visitor[] {
+    const pending = visitors.filter(v => v.status === 'Pending');
+    if (can(user, 'visitor.respond', roles) && user.unitNo) return pending.filter(v => v.resident === user.unitNo && isAwaitingResident(v));
+    if (can(user, 'visitor.approve', roles)) return pending.filter(v => !isAwaitingResident(v));
+    return [];
+}
+
+const APPROVAL_WATCH_INTERVAL_MS = 15000;
+let approvalWatchTimer: number | null = null;
+let notifiedApprovalIds = new Set<number>();
+
+// Opens the approval modal when a request arrives or escalates that this user hasn't been shown yet.
+function notifyNewApprovalRequests() {
+    if (!state.currentUser) return;
+    const awaiting = visitorsAwaitingDecision(state.currentUser, state.visitors);
+    const hasNewRequest = awaiting.some(v => !notifiedApprovalIds.has(v.id));
+    notifiedApprovalIds = new Set(awaiting.map(v => v.id));
+    if (hasNewRequest) state.isApprovalModalOpen = true;
+}
+
+// Deadlines pass without any server change, so the client checks for escalations itself.
+function startApprovalWatch() {
+    if (!state.currentUser) return;
+    notifiedApprovalIds = new Set(visitorsAwaitingDecision(state.currentUser, state.visitors).map(v => v.id));
+    if (approvalWatchTimer !== null) return;
+    approvalWatchTimer = window.setInterval(() => {
+        const wasOpen = state.isApprovalModalOpen;
+        notifyNewApprovalRequests();
+        // Re-render anyway so the "waiting for resident" notes on the cards stay current.
+        if (state.isApprovalModalOpen !== wasOpen) renderRemoteChanges(); else renderGridOnly();
+    }, APPROVAL_WATCH_INTERVAL_MS);
+}
+
+function stopApprovalWatch() {
+    if (approvalWatchTimer !== null) window.clearInterval(approvalWatchTimer);
+    approvalWatchTimer = null;
+    notifiedApprovalIds = new Set();
+}
+
+// --- STAY LIMITS ---
+// The server flags overstays every few minutes; the client works them out too so the highlight is immediate.
+function maxStayHours(visitor: Visitor): number {
+    return state.stayPolicy.maxHoursByPurpose[visitor.purpose.toUpperCase()] ?? state.stayPolicy.defaultMaxHours;
+}
+
+function isOverstaying(visitor: Visitor, now = Date.now()): boolean {
+    if (visitor.status !== 'Checked-in' || !visitor.checkInTime) return false;
+    const hours = maxStayHours(visitor);
+    return !!visitor.overstayedAt || (hours > 0 && now > new Date(visitor.checkInTime).getTime() + hours * 3600 * 1000);
+}
+
+// --- PARKING ---
+// Plates are compared by letters and digits only, and stored upper case with single spaces, as on the server.
+function plateKey(plate: string | undefined): string {
+    return (plate ?? '').replace(/[^a-z0-9]/gi, '').toUpperCase();
 }
 
-function getSessionUser(): User | null {
-    const sessionId = sessionStorage.getItem('sessionId');
-    if (!sessionId) return null;
+function normalizePlate(plate: string | undefined): string {
+    return (plate ?? '').toUpperCase().replace(/[^A-Z0-9]+/g, ' ').trim();
+}
 
-    // Use state.sessions which is populated from the server/mocks
-    const userId = state.sessions[sessionId];
-    if (!userId) {
-        sessionStorage.removeItem('sessionId'); // Clean up stale session
-        return null;
+// Bays taken by checked-in visitors, mapped to the visitor in each.
+function occupiedBays(): Map<string, Visitor> {
+    const occupied = new Map<string, Visitor>();
+    for (const visitor of state.visitors) {
+        if (visitor.status === 'Checked-in' && visitor.parkingBay) occupied.set(visitor.parkingBay, visitor);
     }
-    
-    // Use state.users which is populated from the server/mocks
-    return state.users.find(u => u.id === userId) || null;
+    return occupied;
+}
+
+function findResidentVehicle(plate: string | undefined): ResidentVehicle | undefined {
+    const key = plateKey(plate);
+    return key ? state.vehicles.find(v => plateKey(v.plate) === key) : undefined;
 }
 
-function destroySession() {
-    const sessionId = sessionStorage.getItem('sessionId');
-    sessionStorage.removeItem('sessionId');
+// A visitor who came by car is asked for a bay at check-in, unless they are a resident's registered car.
+function needsParkingBay(visitor: Visitor): boolean {
+    return !!plateKey(visitor.vehicle) && !visitor.parkingBay && state.bays.length > 0 && !findResidentVehicle(visitor.vehicle);
+}
+
+
+// --- SESSION MANAGEMENT HELPERS ---
+// Sessions live server-side behind an HttpOnly cookie; the client only asks who is logged in.
+async function fetchSessionUser(): Promise<User | null> {
+    const response = await fetch('/api/auth/session');
+    if (response.status === 401) return null;
+    if (!response.ok) {
+        throw new Error(`Server responded with ${response.status}`);
+    }
+    const data = await response.json();
+    return data.user;
+}
 
-    if (sessionId && state.sessions[sessionId]) {
-        const newSessions = { ...state.sessions };
-        delete newSessions[sessionId];
-        // Use setState to update state and trigger the debounced save
-        setState({ sessions: newSessions });
+async function destroySession() {
+    try {
+        await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+        console.error("Failed to end session on server:", error);
     }
 }
 
 
 // --- STATE MANAGEMENT ---
+const EMPTY_AUDIT_FILTERS: AuditFilters = { action: '', actor: '', targetType: '', from: '', to: '' };
+const EMPTY_VISITOR_FILTERS: VisitorFilters = { statuses: [], from: '', to: '', block: '', unit: '', purpose: '', sort: 'newest' };
+
 let state = {
     isLoadingData: true,
     visitors: [] as Visitor[],
@@ -195,73 +872,91 @@ let state = {
     companyInfo: {
         name: 'ResiGuard', logo: '', address: '123 Security Lane, Suite 100',
         welcomeMessage: 'Welcome to our secure facility.', personInCharge: 'Admin User', contactNumber: '555-0100',
-    },
+    } as CompanyInfo,
     isUserRoleModalOpen: false,
     users: [] as User[],
-    activityLog: [] as Activity[],
+    roles: [...defaultRoles] as Role[],
+    isRolesModalOpen: false,
+    editingRoleName: null as string | null, // Role shown in the permissions modal; null for the first one
+    auditEntries: [] as AuditEntry[],
+    auditCursor: null as string | null,
+    auditFilters: { ...EMPTY_AUDIT_FILTERS },
+    isLoadingAudit: false,
     searchQuery: '',
+    visitorFilters: { ...EMPTY_VISITOR_FILTERS },
+    visitorCursor: null as string | null,
+    visitorPageEnd: null as Visitor | null, // Last visit paged in; the grid stops there while there are more
+    visitorTotal: 0,
+    isLoadingVisitors: false,
     predefinedUnits: [] as PredefinedUnit[],
     isUnitManagementModalOpen: false,
+    unitImport: null as { fileName: string; csv: string; report: UnitImportReport; importedRows?: number; role?: UserRole } | null,
+    isImportingUnits: false,
     isApprovalModalOpen: false,
     capturedPhotoData: null as string | null,
     cameraStream: null as MediaStream | null,
     isEditUserModalOpen: false,
     editingUserId: null as number | null,
+    isAddUserModalOpen: false,
+    issuedInvite: null as { username: string; code: string; expiresAt: string } | null,
+    isRedeemingInvite: false,
     isChatOpen: false,
     chatState: 'pre-form' as 'pre-form' | 'chatting',
     chatMessages: [] as ChatMessage[],
     isBotTyping: false,
     chatSession: null as Chat | null,
     pendingChats: [] as PendingChat[],
+    schedules: [] as VisitSchedule[],
+    isScheduleModalOpen: false,
+    profiles: [] as VisitorProfile[],
+    visitHistory: null as { profile: VisitorProfile; visits: Visitor[] } | null,
+    visitorPrefill: null as Partial<Visitor> | null,
+    watchlist: [] as WatchlistEntry[],
+    isWatchlistModalOpen: false,
+    alerts: [] as SecurityAlert[],
+    isAlertsModalOpen: false,
+    stayPolicy: { ...defaultStayPolicy } as StayPolicy,
+    isStayPolicyModalOpen: false,
+    passwordPolicy: { ...defaultPasswordPolicy } as PasswordPolicy,
+    isPasswordPolicyModalOpen: false,
+    sessionsUserId: null as number | null, // Whose sessions are listed, on the account page or in the sessions modal
+    sessions: null as SessionInfo[] | null, // null while loading
+    isSessionsModalOpen: false,
+    loginChallenge: null as string | null, // Set between the password and the two-factor code at login
+    twoFactorSetup: null as { secret: string; qrDataUrl: string } | null,
+    recoveryCodes: null as string[] | null, // Shown once, right after they are created
+    isExportModalOpen: false,
+    isExporting: false,
+    bays: [] as ParkingBay[],
+    vehicles: [] as ResidentVehicle[],
+    isParkingModalOpen: false,
+    parkingVisitorId: null as number | null, // Visitor waiting for a bay before check-in
+    plateLookup: null as PlateLookup | null,
     isChatNotificationModalOpen: false,
     viewingChatId: null as number | null,
     activeChatId: null as number | null,
-    sessions: {} as Record<string, number>,
+    isOfflineMode: false,
+    passVisitorId: null as number | null,
+    passQrDataUrl: null as string | null,
+    scanResult: null as { success: boolean; message: string } | null,
 };
 
 function setState(newState: Partial<typeof state>) {
-    const oldState = { ...state };
     state = { ...state, ...newState };
-
     render();
-
-    // List of state keys that should be persisted to the server.
-    const keysToPersist = ['visitors', 'users', 'companyInfo', 'predefinedUnits', 'pendingChats', 'sessions'];
-    
-    // Check if any of the persisted keys have actually changed.
-    const hasPersistentChange = keysToPersist.some(key =>
-        // @ts-ignore
-        newState.hasOwnProperty(key) && JSON.stringify(newState[key]) !== JSON.stringify(oldState[key])
-    );
-
-    if (hasPersistentChange && state.isAuthenticated) {
-        debounceSave();
-    }
-}
-
-const MAX_LOG_ENTRIES = 20;
-function logActivity(message: string) {
-    const newActivity: Activity = {
-        id: Date.now(),
-        message,
-        timestamp: new Date(),
-    };
-    const updatedLog = [newActivity, ...state.activityLog].slice(0, MAX_LOG_ENTRIES);
-    state.activityLog = updatedLog;
 }
 
 // --- EVENT HANDLERS ---
-function initializeUserSession(user: User, dataContext?: any) {
-    const context = dataContext || state;
-    const pendingVisitorsExist = context.visitors.some(v => v.status === 'Pending');
-    const shouldShowApprovalModal = ['Admin', 'Officer'].includes(user.role) && pendingVisitorsExist;
+function initializeUserSession(user: User, data: Partial<typeof state> = {}) {
+    const context = { ...state, ...data };
+    const shouldShowApprovalModal = visitorsAwaitingDecision(user, context.visitors, context.roles).length > 0;
     
     const pendingChats = context.pendingChats;
     const pendingChatsExist = pendingChats.some(c => !c.dismissed);
-    const shouldShowChatModal = ['Admin', 'Officer'].includes(user.role) && pendingChatsExist;
+    const shouldShowChatModal = can(user, 'chat.reply', context.roles) && pendingChatsExist;
     
     let userActiveChatId: number | null = null;
-    if (user.role === 'Resident') {
+    if (!can(user, 'chat.reply', context.roles)) {
         const theirChats = pendingChats
             .filter(c => c.userId === user.id && !c.adminReplied && !c.dismissed)
             .sort((a, b) => b.id - a.id);
@@ -273,6 +968,7 @@ function initializeUserSession(user: User, dataContext?: any) {
     }
 
     setState({
+        ...data,
         isAuthenticated: true,
         currentView: 'dashboard',
         currentUser: user,
@@ -281,55 +977,186 @@ function initializeUserSession(user: User, dataContext?: any) {
         isChatNotificationModalOpen: shouldShowChatModal,
         activeChatId: userActiveChatId,
     });
+    connectLiveUpdates();
+    startApprovalWatch();
+    showOpenAlerts();
 }
 
-function handleLoginSubmit(event: Event) {
+async function handleLoginSubmit(event: Event) {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const formData = new FormData(form);
     const username = formData.get('username') as string;
     const password = formData.get('password') as string;
 
-    const user = state.users.find(u => u.username === username && u.password === password);
+    // Without a server there is nothing to verify against, so offline mode checks the local mocks.
+    if (state.isOfflineMode) {
+        const user = state.users.find(u => u.username === username && u.password === password);
+        if (user) {
+            initializeUserSession(user);
+        } else {
+            setState({ loginError: 'Invalid username or password.' });
+        }
+        return;
+    }
 
-    if (user) {
-        createSession(user);
-        initializeUserSession(user);
-    } else {
-        setState({ loginError: 'Invalid username or password.' });
+    try {
+        const response = await fetch('/api/auth/login', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ username, password }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+            setState({ loginError: data.error || 'Invalid username or password.' });
+            return;
+        }
+
+        if (data.twoFactorRequired) {
+            setState({ loginChallenge: data.challenge, loginError: '' });
+            return;
+        }
+        await beginSession(data.user);
+    } catch (error) {
+        console.error("Login request failed:", error);
+        setState({ loginError: 'Could not reach the server. Please try again.' });
     }
 }
 
-function handleLogout() {
-    destroySession();
-    sessionStorage.removeItem('activeChatId');
-    setState({
-        isAuthenticated: false,
-        currentView: 'login',
-        currentUser: null,
-        isModalOpen: false,
-        editingVisitorId: null,
-        isCompanySetupModalOpen: false,
-        isUserRoleModalOpen: false,
-        isEditUserModalOpen: false,
-        isUnitManagementModalOpen: false,
-        isApprovalModalOpen: false,
-        activityLog: [],
-        searchQuery: '',
-        // Reset chat state
-        isChatOpen: false,
-        chatState: 'pre-form',
-        chatMessages: [],
-        isBotTyping: false,
-        chatSession: null,
-        viewingChatId: null,
-        activeChatId: null,
-        isChatNotificationModalOpen: false,
-    });
+// Users who still have to change their password or set up two-factor authentication only get the
+// password rules until they have; everyone else gets the app's data.
+function needsAccountSetup(user: User): boolean {
+    return !!(user.mustChangePassword || user.mustSetUpTwoFactor);
+}
+
+async function beginSession(user: User, extra: Partial<typeof state> = {}) {
+    if (needsAccountSetup(user)) {
+        setState({ ...extra, isAuthenticated: true, currentUser: user, loginError: '', loginChallenge: null, ...(await fetchPasswordPolicy()) });
+        return;
+    }
+    initializeUserSession(user, { ...(await fetchAppData()), ...extra, loginChallenge: null });
+    loadVisitorPage();
+}
+
+async function handleShowInviteForm(show: boolean) {
+    setState({ isRedeemingInvite: show, loginError: '', ...(show ? await fetchPasswordPolicy() : {}) });
+}
+
+// New users set their own password with the one-time code from the management office.
+async function handleInviteSubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const code = formData.get('inviteCode') as string;
+    const password = formData.get('newPassword') as string;
+    if (password !== formData.get('confirmPassword')) {
+        setState({ loginError: 'Passwords do not match.' });
+        return;
+    }
+    const weak = passwordError(password, '');
+    if (weak) {
+        setState({ loginError: weak });
+        return;
+    }
+    if (state.isOfflineMode) {
+        setState({ loginError: 'Invite codes are checked by the server, so they can\'t be used offline.' });
+        return;
+    }
+
+    try {
+        const response = await fetch('/api/auth/invite', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ code, password }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+            setState({ loginError: data.error || 'This invite code is not valid.' });
+            return;
+        }
+
+        await beginSession(data.user, { isRedeemingInvite: false });
+    } catch (error) {
+        console.error("Invite request failed:", error);
+        setState({ loginError: 'Could not reach the server. Please try again.' });
+    }
+}
+
+const SESSION_EXPIRED_MESSAGE = 'Your session has ended. Please log in again.';
+
+function handleLogout() {
+    if (!state.isOfflineMode) destroySession();
+    clearSession();
+}
+
+// Drops everything belonging to the signed-in user, after logging out or once the server has ended the session.
+function clearSession(loginError = '') {
+    disconnectLiveUpdates();
+    stopApprovalWatch();
+    stopScanner();
+    sessionStorage.removeItem('activeChatId');
+    setState({
+        // Online, the loaded data belongs to this user's session, so drop it until the next login.
+        ...(state.isOfflineMode ? {} : { visitors: [], users: [], predefinedUnits: [], pendingChats: [], schedules: [], profiles: [], watchlist: [], alerts: [], bays: [], vehicles: [] }),
+        isAuthenticated: false,
+        currentView: 'login',
+        currentUser: null,
+        loginError,
+        isModalOpen: false,
+        editingVisitorId: null,
+        isCompanySetupModalOpen: false,
+        isUserRoleModalOpen: false,
+        isRolesModalOpen: false,
+        editingRoleName: null,
+        isAddUserModalOpen: false,
+        issuedInvite: null,
+        isEditUserModalOpen: false,
+        isUnitManagementModalOpen: false,
+        unitImport: null,
+        isApprovalModalOpen: false,
+        isScheduleModalOpen: false,
+        visitHistory: null,
+        visitorPrefill: null,
+        isWatchlistModalOpen: false,
+        isAlertsModalOpen: false,
+        isStayPolicyModalOpen: false,
+        isPasswordPolicyModalOpen: false,
+        sessionsUserId: null,
+        sessions: null,
+        isSessionsModalOpen: false,
+        loginChallenge: null,
+        twoFactorSetup: null,
+        recoveryCodes: null,
+        isExportModalOpen: false,
+        isParkingModalOpen: false,
+        parkingVisitorId: null,
+        plateLookup: null,
+        auditEntries: [],
+        auditCursor: null,
+        auditFilters: { ...EMPTY_AUDIT_FILTERS },
+        searchQuery: '',
+        visitorFilters: { ...EMPTY_VISITOR_FILTERS },
+        visitorCursor: null,
+        visitorPageEnd: null,
+        visitorTotal: 0,
+        // Reset chat state
+        isChatOpen: false,
+        chatState: 'pre-form',
+        chatMessages: [],
+        isBotTyping: false,
+        chatSession: null,
+        viewingChatId: null,
+        activeChatId: null,
+        isChatNotificationModalOpen: false,
+        passVisitorId: null,
+        passQrDataUrl: null,
+        scanResult: null,
+    });
 }
 
 function handleRegisterClick() {
-    setState({ isModalOpen: true, editingVisitorId: null, capturedPhotoData: null });
+    setState({ isModalOpen: true, editingVisitorId: null, capturedPhotoData: null, visitorPrefill: null });
 }
 
 function handleEditClick(id: number) {
@@ -343,10 +1170,60 @@ function handleEditClick(id: number) {
 
 function handleCloseModal() {
     stopCameraStream();
-    setState({ isModalOpen: false, editingVisitorId: null, capturedPhotoData: null });
+    setState({ isModalOpen: false, editingVisitorId: null, capturedPhotoData: null, visitorPrefill: null });
+}
+
+// Contact numbers are compared by their digits only, as the server does.
+function contactKey(contact: string | undefined): string {
+    return (contact ?? '').replace(/\D/g, '');
+}
+
+// Looks up a returning visitor by contact number: their profile if we have it, otherwise
+// their latest earlier visit, so visits from before profiles existed are recognised too.
+function findReturningVisitor(contact: string): { details: Partial<Visitor>; visitCount: number } | null {
+    const key = contactKey(contact);
+    if (!key) return null;
+    const visits = state.visitors.filter(v => contactKey(v.contact) === key);
+    const profile = state.profiles.find(p => contactKey(p.contact) === key);
+    const latest = profile ?? visits[0];
+    if (!latest) return null;
+    return {
+        details: { name: latest.name, vehicle: latest.vehicle, carBrand: latest.carBrand, photo: latest.photo, profileId: profile?.id ?? visits[0].profileId },
+        visitCount: visits.length,
+    };
+}
+
+// Fills in a returning visitor's details as soon as their contact number is entered. Only empty
+// fields are filled, and the form is updated in place so nothing already typed is lost.
+function handleContactChange(event: Event) {
+    if (state.editingVisitorId) return;
+    const form = (event.target as HTMLInputElement).form;
+    const note = document.getElementById('returning-visitor-note');
+    const returning = findReturningVisitor((event.target as HTMLInputElement).value);
+    if (!form || !note) return;
+    if (!returning) {
+        note.textContent = '';
+        return;
+    }
+
+    const { details, visitCount } = returning;
+    for (const field of ['name', 'vehicle', 'carBrand'] as const) {
+        const input = form.elements.namedItem(field) as HTMLInputElement | null;
+        if (input && !input.value && details[field]) input.value = details[field]!;
+    }
+    if (details.photo && !state.capturedPhotoData && !state.cameraStream) {
+        state.capturedPhotoData = details.photo;
+        const preview = document.getElementById('photo-preview') as HTMLImageElement | null;
+        const cameraButton = document.getElementById('camera-action-btn') as HTMLButtonElement | null;
+        if (preview) preview.src = imageSrc(details.photo);
+        if (cameraButton) { cameraButton.dataset.action = 'retake'; cameraButton.textContent = 'Retake Snapshot'; }
+    }
+    note.textContent = visitCount > 0
+        ? `Returning visitor, ${visitCount} earlier visit${visitCount === 1 ? '' : 's'}. Their details have been filled in.`
+        : 'Returning visitor. Their details have been filled in.';
 }
 
-function handleFormSubmit(event: Event) {
+async function handleFormSubmit(event: Event) {
     event.preventDefault();
     stopCameraStream();
     const form = event.target as HTMLFormElement;
@@ -358,848 +1235,3813 @@ function handleFormSubmit(event: Event) {
     
     const name = (formData.get('name') as string).trim().toUpperCase();
     const purpose = (formData.get('purpose') as string).trim().toUpperCase();
-    const vehicle = (formData.get('vehicle') as string).trim().toUpperCase();
+    const vehicle = normalizePlate(formData.get('vehicle') as string);
     const carBrand = (formData.get('carBrand') as string).trim().toUpperCase();
     const contact = (formData.get('contact') as string).trim();
-    const photo = state.capturedPhotoData;
+    const idDocument = (formData.get('idDocument') as string | null) || undefined;
+    const arrivalInput = formData.get('expectedArrival') as string;
+    const departureInput = formData.get('expectedDeparture') as string;
+    const expectedArrival = arrivalInput ? new Date(arrivalInput).toISOString() : undefined;
+    const expectedDeparture = departureInput ? new Date(departureInput).toISOString() : undefined;
+
+    if ((expectedArrival || expectedDeparture) && !(expectedArrival && expectedDeparture && expectedDeparture > expectedArrival)) {
+        alert('Please give an arrival window that ends after it starts.');
+        return;
+    }
+
+    let photo: string | null;
+    try {
+        photo = state.capturedPhotoData && await uploadImage(state.capturedPhotoData);
+    } catch (error) {
+        console.error("Failed to upload visitor photo:", error);
+        alert('Could not upload the photo. Please try again.');
+        return;
+    }
 
     if (state.editingVisitorId) {
-        const updatedVisitors = state.visitors.map(v => {
-            if (v.id === state.editingVisitorId) {
-                return {
-                    ...v, name, contact, purpose, resident: residentUnit,
-                    block, houseNo, vehicle, carBrand, photo: photo || v.photo,
-                };
-            }
-            return v;
+        const existing = state.visitors.find(v => v.id === state.editingVisitorId);
+        if (!existing) return;
+        const changes = changedFields(existing, {
+            ...existing, name, contact, purpose, resident: residentUnit,
+            block, houseNo, vehicle, carBrand, photo: photo || existing.photo,
+            expectedArrival, expectedDeparture, idDocument: idDocument || existing.idDocument,
         });
-        logActivity(`Updated details for ${name}.`);
+        const updatedVisitors = state.visitors.map(v => v.id === existing.id ? { ...v, ...changes } : v);
         setState({ visitors: updatedVisitors, isModalOpen: false, editingVisitorId: null, capturedPhotoData: null });
+        saveVisitorChanges(existing, changes);
     } else {
+        if (!screenAgainstWatchlist({ name, contact, vehicle })) return;
+        // A resident's own guests are approved up front; the server applies the same rule.
+        const isPreRegistration = !can(state.currentUser, 'visitor.register');
+        // The server files the visit under the returning visitor's profile; offline we link it here.
+        const returning = findReturningVisitor(contact);
         const newVisitor: Visitor = {
             id: Date.now(), name, contact, purpose, resident: residentUnit,
-            block, houseNo, vehicle, carBrand, photo: photo || undefined, status: 'Pending',
+            block, houseNo, vehicle, carBrand, photo: photo || undefined, idDocument,
+            expectedArrival, expectedDeparture, profileId: returning?.details.profileId,
+            status: isPreRegistration ? 'Approved' : 'Pending',
+            ...(isPreRegistration ? { preRegistered: true } : {}),
         };
-        logActivity(`Registered new visitor: ${newVisitor.name}`);
-        setState({
-            visitors: [newVisitor, ...state.visitors],
-            isModalOpen: false,
-            capturedPhotoData: null,
-        });
+
+        try {
+            const created = await createRecord('/api/visitors', newVisitor);
+            setState({
+                visitors: upsertRecord(state.visitors, created, true),
+                isModalOpen: false,
+                capturedPhotoData: null,
+                visitorPrefill: null,
+            });
+        } catch (error) {
+            console.error("Failed to register visitor:", error);
+            alert(error instanceof ApiError ? error.message : 'Could not register the visitor. Please try again.');
+        }
     }
 }
 
-function handleCheckIn(id: number) {
+// How a check-in ended, so the gate scanner can show what actually happened. `stopped` means the
+// watchlist blocked it or the guard cancelled; `refused` carries the server's reason.
+type CheckInResult =
+    | { outcome: 'checked-in' | 'needs-bay' | 'stopped' | 'sent-back' }
+    | { outcome: 'refused'; reason: string };
+
+// Visitors who came by car are given a bay first; `parkingBay` is '' when they don't need one.
+// Resolves once the server has answered.
+function handleCheckIn(id: number, parkingBay?: string): Promise<CheckInResult> {
     const visitor = state.visitors.find(v => v.id === id);
-    if (visitor) logActivity(`${visitor.name} checked in.`);
-    const visitors = state.visitors.map(v => 
-        v.id === id ? { ...v, status: 'Checked-in' as VisitorStatus, checkInTime: new Date().toISOString() } : v
-    );
+    if (!visitor) return Promise.resolve({ outcome: 'stopped' });
+    if (parkingBay === undefined) {
+        if (!screenAgainstWatchlist(visitor)) return Promise.resolve({ outcome: 'stopped' });
+        if (needsParkingBay(visitor)) {
+            setState({ parkingVisitorId: id });
+            return Promise.resolve({ outcome: 'needs-bay' });
+        }
+    }
+    const changes = { status: 'Checked-in' as VisitorStatus, checkInTime: new Date().toISOString(), ...(parkingBay ? { parkingBay } : {}) };
+    const visitors = state.visitors.map(v => v.id === id ? { ...v, ...changes } : v);
     setState({ visitors });
+    if (state.isOfflineMode) return Promise.resolve({ outcome: 'checked-in' });
+
+    return new Promise(resolve => {
+        saveChanges(`/api/visitors/${id}`, visitor, changes, record => {
+            replaceVisitor(record);
+            // The server refuses automatic approvals outside the expected window and sends them back to Pending.
+            if (record.status === 'Pending') {
+                alert(`${record.name} arrived outside their expected window, so the visit has been sent back for approval.`);
+                resolve({ outcome: 'sent-back' });
+            } else if (record.status === 'Checked-in') {
+                resolve({ outcome: 'checked-in' });
+            } else {
+                // Someone else changed the visit at the same moment and theirs won.
+                resolve({ outcome: 'refused', reason: `This visit is now ${record.status}.` });
+            }
+        }, rebaseChanges, error => {
+            const reason = error instanceof ApiError ? error.message : 'The check-in could not be saved.';
+            resolve({ outcome: 'refused', reason });
+            // Refused at the gate (e.g. by a watchlist entry added since this page loaded or a bay that was
+            // just taken) or not saved at all, so the visitor is shown as they were.
+            replaceVisitor(visitor);
+            alert(reason);
+        });
+    });
 }
 
-function handleCheckOut(id: number) {
+type CheckOutResult = { outcome: 'checked-out' } | { outcome: 'refused'; reason: string };
+
+// Resolves once the server has answered. A refused check-out puts the visitor back as checked in.
+function handleCheckOut(id: number): Promise<CheckOutResult> {
     const visitor = state.visitors.find(v => v.id === id);
-    if (visitor) logActivity(`${visitor.name} checked out.`);
-    const visitors = state.visitors.map(v => 
-        v.id === id ? { ...v, status: 'Checked-out' as VisitorStatus, checkOutTime: new Date().toISOString() } : v
-    );
+    if (!visitor) return Promise.resolve({ outcome: 'refused', reason: 'This visit is no longer listed.' });
+    const changes = { status: 'Checked-out' as VisitorStatus, checkOutTime: new Date().toISOString() };
+    const visitors = state.visitors.map(v => v.id === id ? { ...v, ...changes } : v);
     setState({ visitors });
+    if (state.isOfflineMode) return Promise.resolve({ outcome: 'checked-out' });
+
+    return new Promise(resolve => {
+        saveChanges(`/api/visitors/${id}`, visitor, changes, record => {
+            replaceVisitor(record);
+            resolve(record.status === 'Checked-out'
+                ? { outcome: 'checked-out' }
+                : { outcome: 'refused', reason: `This visit is now ${record.status}.` });
+        }, rebaseChanges, error => {
+            replaceVisitor(visitor);
+            resolve({ outcome: 'refused', reason: error instanceof ApiError ? error.message : 'The check-out could not be saved.' });
+        });
+    });
 }
 
 function handleApprove(id: number) {
     const visitor = state.visitors.find(v => v.id === id);
-    if (visitor) logActivity(`Visit for ${visitor.name} was approved.`);
-    const visitors = state.visitors.map(v => 
-        v.id === id ? { ...v, status: 'Approved' as VisitorStatus } : v
-    );
-    const stillPending = visitors.some(v => v.status === 'Pending');
+    const changes = { status: 'Approved' as VisitorStatus };
+    const visitors = state.visitors.map(v => v.id === id ? { ...v, ...changes } : v);
+    const stillPending = !!state.currentUser && visitorsAwaitingDecision(state.currentUser, visitors).length > 0;
     setState({ visitors, isApprovalModalOpen: state.isApprovalModalOpen && stillPending });
+    if (visitor) saveVisitorChanges(visitor, changes);
 }
 
 function handleReject(id: number) {
     const visitor = state.visitors.find(v => v.id === id);
-    if (visitor) logActivity(`Visit for ${visitor.name} was rejected.`);
-    const visitors = state.visitors.map(v => 
-        v.id === id ? { ...v, status: 'Rejected' as VisitorStatus } : v
-    );
-    const stillPending = visitors.some(v => v.status === 'Pending');
+    const changes = { status: 'Rejected' as VisitorStatus };
+    const visitors = state.visitors.map(v => v.id === id ? { ...v, ...changes } : v);
+    const stillPending = !!state.currentUser && visitorsAwaitingDecision(state.currentUser, visitors).length > 0;
     setState({ visitors, isApprovalModalOpen: state.isApprovalModalOpen && stillPending });
+    if (visitor) saveVisitorChanges(visitor, changes);
 }
 
-function handleCompanySetupClick() {
-    setState({ isCompanySetupModalOpen: true });
+// --- WATCHLIST HANDLERS ---
+const watchNameKey = (name: string | undefined) => (name ?? '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+// Same matching as the server: any of the details an entry names.
+function watchlistMatches(visit: Pick<Visitor, 'name' | 'contact' | 'vehicle'>): WatchlistEntry[] {
+    return state.watchlist.filter(entry =>
+        (!!watchNameKey(entry.name) && watchNameKey(entry.name) === watchNameKey(visit.name)) ||
+        (!!contactKey(entry.contact) && contactKey(entry.contact) === contactKey(visit.contact)) ||
+        (!!plateKey(entry.vehicle) && plateKey(entry.vehicle) === plateKey(visit.vehicle))
+    );
 }
 
-function handleCloseCompanySetupModal() {
-    setState({ isCompanySetupModalOpen: false });
+// Stops a blocked visitor at the desk and asks before letting a flagged one through. The server
+// checks again and alerts officers either way; residents don't have the list and rely on that.
+function screenAgainstWatchlist(visit: Pick<Visitor, 'name' | 'contact' | 'vehicle'>): boolean {
+    const matches = watchlistMatches(visit);
+    const blocking = matches.find(entry => entry.action === 'block');
+    if (blocking) {
+        alert(`${visit.name} is on the watchlist and may not enter.\n\nReason: ${blocking.reason}`);
+        return false;
+    }
+    if (matches.length > 0) {
+        return confirm(`${visit.name} is on the watchlist.\n\n${matches.map(entry => `Reason: ${entry.reason}`).join('\n')}\n\nContinue anyway? Officers will be alerted.`);
+    }
+    return true;
 }
 
-function handleCompanySetupFormSubmit(event: Event) {
+function handleWatchlistClick() {
+    setState({ isWatchlistModalOpen: true });
+}
+
+function handleCloseWatchlistModal() {
+    setState({ isWatchlistModalOpen: false });
+}
+
+function handleAddWatchlistSubmit(event: Event) {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const formData = new FormData(form);
 
-    const saveAndSetState = (logoDataUrl: string) => {
-        const newCompanyInfo: CompanyInfo = {
-            name: formData.get('companyName') as string,
-            address: formData.get('companyAddress') as string,
-            welcomeMessage: formData.get('welcomeMessage') as string,
-            personInCharge: formData.get('personInCharge') as string,
-            contactNumber: formData.get('contactNumber') as string,
-            logo: logoDataUrl,
+    const save = async (photoDataUrl?: string) => {
+        const entry: WatchlistEntry = {
+            id: Date.now(),
+            name: (formData.get('watch-name') as string).trim().toUpperCase() || undefined,
+            contact: (formData.get('watch-contact') as string).trim() || undefined,
+            vehicle: (formData.get('watch-vehicle') as string).trim().toUpperCase() || undefined,
+            photo: photoDataUrl,
+            action: formData.get('watch-action') as WatchlistEntry['action'],
+            reason: (formData.get('watch-reason') as string).trim(),
+            createdBy: `${state.currentUser?.username} (${state.currentUser?.role})`,
+            createdAt: new Date().toISOString(),
         };
-        logActivity(`Company profile updated by ${state.currentUser?.username}.`);
-        setState({ companyInfo: newCompanyInfo, isCompanySetupModalOpen: false });
+        if (!entry.name && !entry.contact && !entry.vehicle) {
+            alert('Please give a name, contact number or vehicle plate to match visitors on.');
+            return;
+        }
+        try {
+            if (entry.photo) entry.photo = await uploadImage(entry.photo);
+            const created = await createRecord('/api/watchlist', entry);
+            setState({ watchlist: upsertRecord(state.watchlist, created, true) });
+        } catch (error) {
+            console.error("Failed to add watchlist entry:", error);
+            alert(error instanceof ApiError ? error.message : 'Could not save the watchlist entry. Please try again.');
+        }
     };
 
-    const logoFile = (form.querySelector('#companyLogo') as HTMLInputElement).files?.[0];
-    if (logoFile) {
+    const photoFile = (form.querySelector('#watch-photo') as HTMLInputElement).files?.[0];
+    if (photoFile) {
         const reader = new FileReader();
-        reader.onload = (e) => saveAndSetState(e.target?.result as string);
-        reader.readAsDataURL(logoFile);
+        reader.onload = (e) => save(e.target?.result as string);
+        reader.readAsDataURL(photoFile);
     } else {
-        saveAndSetState(state.companyInfo.logo);
+        save();
     }
 }
 
-// User Role and Edit Handlers
-function handleUserRolesClick() { setState({ isUserRoleModalOpen: true }); }
-function handleCloseUserRoleModal() { setState({ isUserRoleModalOpen: false }); }
+function handleDeleteWatchlistEntry(id: number) {
+    const entry = state.watchlist.find(w => w.id === id);
+    if (!entry || !confirm(`Remove ${entry.name || entry.vehicle || entry.contact} from the watchlist?`)) return;
+    setState({ watchlist: state.watchlist.filter(w => w.id !== id) });
+    saveRecord(`/api/watchlist/${id}`, 'DELETE');
+}
 
-function handleOpenEditUserModal(id: number) {
-    setState({ isEditUserModalOpen: true, editingUserId: id });
+// --- PASSWORD HANDLERS ---
+// The same rules the server applies, checked here first so mistakes show before anything is sent.
+function passwordError(password: string, username: string): string | null {
+    const policy = state.passwordPolicy;
+    if (password.length < policy.minLength) return `Passwords must be at least ${policy.minLength} characters long.`;
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) return 'Passwords must contain an upper-case letter.';
+    if (policy.requireLowercase && !/[a-z]/.test(password)) return 'Passwords must contain a lower-case letter.';
+    if (policy.requireNumber && !/[0-9]/.test(password)) return 'Passwords must contain a number.';
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) return 'Passwords must contain a symbol.';
+    if (username && password.toLowerCase().includes(username.toLowerCase())) return 'Passwords must not contain the username.';
+    return null;
 }
-function handleCloseEditUserModal() {
-    setState({ isEditUserModalOpen: false, editingUserId: null });
+
+function describePasswordPolicy(): string {
+    const policy = state.passwordPolicy;
+    const needs = [
+        policy.requireUppercase && 'an upper-case letter',
+        policy.requireLowercase && 'a lower-case letter',
+        policy.requireNumber && 'a number',
+        policy.requireSymbol && 'a symbol',
+    ].filter(Boolean);
+    return `At least ${policy.minLength} characters${needs.length > 0 ? `, including ${needs.join(', ')}` : ''}.`;
 }
 
-function handleEditUserFormSubmit(event: Event) {
+async function fetchPasswordPolicy(): Promise<Partial<typeof state>> {
+    if (state.isOfflineMode) return {};
+    try {
+        return { passwordPolicy: await apiRequest<PasswordPolicy>('/api/password-policy') };
+    } catch (error) {
+        console.error("Failed to load the password rules:", error);
+        return {};
+    }
+}
+
+function handleAccountClick() {
+    setState({ currentView: 'account' });
+    if (!state.isOfflineMode && state.currentUser) loadSessions(state.currentUser.id);
+}
+
+async function handleChangePasswordSubmit(event: Event) {
     event.preventDefault();
-    const form = event.target as HTMLFormElement;
-    const formData = new FormData(form);
-    const username = (formData.get('username') as string).trim();
+    const user = state.currentUser;
+    if (!user) return;
+    const formData = new FormData(event.target as HTMLFormElement);
+    const currentPassword = formData.get('currentPassword') as string;
     const newPassword = formData.get('newPassword') as string;
-    const confirmPassword = formData.get('confirmPassword') as string;
 
-    if (!username) {
-        alert('Username cannot be empty.');
-        return;
-    }
-    if (newPassword !== confirmPassword) {
-        alert('Passwords do not match.');
-        return;
-    }
+    if (newPassword !== formData.get('confirmPassword')) { alert('Passwords do not match.'); return; }
+    if (newPassword === currentPassword) { alert('Your new password must be different from the current one.'); return; }
+    const weak = passwordError(newPassword, user.username);
+    if (weak) { alert(weak); return; }
 
-    const isUsernameTaken = state.users.some(u => u.username === username && u.id !== state.editingUserId);
-    if (isUsernameTaken) {
-        alert('This username is already taken. Please choose another.');
+    if (state.isOfflineMode) {
+        if (state.users.find(u => u.id === user.id)?.password !== currentPassword) { alert('Your current password is incorrect.'); return; }
+        const changed = { ...user, password: newPassword, mustChangePassword: undefined };
+        setState({ users: state.users.map(u => u.id === user.id ? changed : u), currentUser: changed });
+        alert('Your password has been changed.');
         return;
     }
 
-    const updatedUsers = state.users.map(user => {
-        if (user.id === state.editingUserId) {
-            logActivity(`Updated user: ${user.username} -> ${username}.`);
-            return {
-                ...user,
-                username,
-                password: newPassword ? newPassword : user.password,
-            };
+    try {
+        const { user: changed } = await apiRequest<{ user: User }>('/api/auth/password', 'POST', { currentPassword, newPassword });
+        if (user.mustChangePassword) {
+            // Until now the server held back the app's data, so this is where the session really starts
+            // (unless two-factor authentication still has to be set up).
+            await beginSession(changed);
+        } else {
+            setState({ currentUser: changed });
+            alert('Your password has been changed.');
         }
-        return user;
-    });
-
-    setState({ users: updatedUsers, isEditUserModalOpen: false, editingUserId: null });
+    } catch (error) {
+        console.error("Failed to change password:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not change your password. Please try again.');
+    }
 }
 
-function handleDeleteUser(id: number) {
-    const userToDelete = state.users.find(u => u.id === id);
-    if (!userToDelete) return;
+function handlePasswordPolicyClick() { setState({ isPasswordPolicyModalOpen: true }); }
+function handleClosePasswordPolicyModal() { setState({ isPasswordPolicyModalOpen: false }); }
 
-    if (userToDelete.id === state.currentUser?.id) {
-        alert('You cannot delete your own account.');
-        return;
+function handlePasswordPolicySubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const base = state.passwordPolicy;
+    const updated: PasswordPolicy = {
+        ...base,
+        minLength: Number(formData.get('policy-minLength')),
+        requireUppercase: formData.has('policy-requireUppercase'),
+        requireLowercase: formData.has('policy-requireLowercase'),
+        requireNumber: formData.has('policy-requireNumber'),
+        requireSymbol: formData.has('policy-requireSymbol'),
+        maxFailedAttempts: Number(formData.get('policy-maxFailedAttempts')),
+        lockoutMinutes: Number(formData.get('policy-lockoutMinutes')),
+        requireTwoFactor: formData.has('policy-requireTwoFactor'),
+    };
+    setState({ passwordPolicy: updated, isPasswordPolicyModalOpen: false });
+    saveChanges('/api/password-policy', base, changedFields(base, updated), passwordPolicy => setState({ passwordPolicy }));
+}
+
+// --- SESSION HANDLERS ---
+// Sessions only exist on the server, so none of this is available offline.
+async function loadSessions(userId: number) {
+    setState({ sessionsUserId: userId, sessions: null });
+    try {
+        const sessions = await apiRequest<SessionInfo[]>(`/api/sessions?userId=${userId}`);
+        if (state.sessionsUserId === userId) setState({ sessions });
+    } catch (error) {
+        console.error("Failed to load sessions:", error);
+        if (state.sessionsUserId === userId) setState({ sessions: [] });
     }
+}
+
+function handleOpenSessionsModal(userId: number) {
+    setState({ isSessionsModalOpen: true });
+    loadSessions(userId);
+}
+
+function handleCloseSessionsModal() {
+    setState({ isSessionsModalOpen: false, sessionsUserId: null, sessions: null });
+    // The modal can be opened over the account page, which lists the user's own sessions.
+    if (state.currentView === 'account' && state.currentUser) loadSessions(state.currentUser.id);
+}
+
+// Signs out one listed session, or all of the user's sessions when no id is given.
+async function handleRevokeSessions(sessionId?: string) {
+    const userId = state.sessionsUserId;
+    if (userId === null) return;
+    const isSelf = userId === state.currentUser?.id;
+    const endsThisSession = isSelf && (!sessionId || state.sessions?.find(s => s.id === sessionId)?.current);
+    const username = state.users.find(u => u.id === userId)?.username ?? 'this user';
+    const question = !sessionId
+        ? (isSelf ? 'Sign out on every device, including this one?' : `Sign ${username} out on every device?`)
+        : endsThisSession ? 'Sign out on this device?' : 'Sign out this session?';
+    if (!confirm(question)) return;
 
-    if (userToDelete.role === 'Admin') {
-        const adminCount = state.users.filter(u => u.role === 'Admin').length;
-        if (adminCount <= 1) {
-            alert('You cannot delete the last administrator.');
+    try {
+        await apiRequest(`/api/sessions?userId=${userId}${sessionId ? `&id=${sessionId}` : ''}`, 'DELETE');
+        if (endsThisSession) {
+            clearSession();
             return;
         }
+        loadSessions(userId);
+    } catch (error) {
+        console.error("Failed to sign out sessions:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not sign out. Please try again.');
     }
+}
 
-    if (confirm(`Are you sure you want to delete user "${userToDelete.username}"? This action cannot be undone.`)) {
-        const updatedUsers = state.users.filter(user => user.id !== id);
-        logActivity(`Deleted user: ${userToDelete.username}.`);
-        setState({ users: updatedUsers });
-    }
+// --- TWO-FACTOR HANDLERS ---
+// Users who can let people into the building or manage accounts can have (or, under the password
+// rules, must have) their logins confirmed with a code from an authenticator app. Codes are checked
+// by the server, so offline mode has no second factor.
+function canUseTwoFactor(user: User): boolean {
+    return can(user, 'visitor.approve') || can(user, 'users.manage');
 }
 
-function handleRoleChange(event: Event) {
-    const select = event.target as HTMLSelectElement;
-    const userIdToUpdate = parseInt(select.dataset.userid || '', 10);
-    const newRole = select.value as UserRole;
+async function handleTwoFactorLoginSubmit(event: Event) {
+    event.preventDefault();
+    const code = new FormData(event.target as HTMLFormElement).get('code') as string;
 
-    if (!userIdToUpdate) return;
-    
-    const isChangingSelf = state.currentUser?.id === userIdToUpdate;
-    if (isChangingSelf && newRole !== 'Admin') {
-        const adminCount = state.users.filter(u => u.role === 'Admin').length;
-        if (adminCount <= 1) {
-            alert('You cannot change your role as you are the only administrator. Please assign the Admin role to another user first.');
-            select.value = 'Admin'; // Revert dropdown
+    try {
+        const response = await fetch('/api/auth/two-factor', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ challenge: state.loginChallenge, code }),
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+            // After a lockout or a long wait the password has to be entered again.
+            setState({ loginError: data.error || 'That code is not correct.', ...(data.challengeExpired ? { loginChallenge: null } : {}) });
             return;
         }
+        await beginSession(data.user);
+    } catch (error) {
+        console.error("Two-factor login failed:", error);
+        setState({ loginError: 'Could not reach the server. Please try again.' });
     }
+}
 
-    const updatedUsers = state.users.map(user => {
-        if (user.id === userIdToUpdate) {
-            return { ...user, role: newRole };
-        }
-        return user;
-    });
-
-    setState({ users: updatedUsers });
+function handleCancelTwoFactorLogin() {
+    setState({ loginChallenge: null, loginError: '' });
 }
 
-function handleOverviewClick() { setState({ currentView: 'overview' }); }
-function handleDashboardClick() { setState({ currentView: 'dashboard' }); }
-function handleSearch(event: Event) {
-    const input = event.target as HTMLInputElement;
-    state.searchQuery = input.value;
-    renderGridOnly();
+async function handleStartTwoFactorSetup() {
+    try {
+        const { secret, uri } = await apiRequest<{ secret: string; uri: string }>('/api/two-factor', 'POST');
+        setState({ twoFactorSetup: { secret, qrDataUrl: await qrCodeToDataURL(uri, { width: 200, margin: 1 }) } });
+    } catch (error) {
+        console.error("Failed to start two-factor setup:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not start two-factor setup. Please try again.');
+    }
 }
 
-// Unit Management Handlers
-function handleManageUnitsClick() { setState({ isUnitManagementModalOpen: true }); }
-function handleCloseUnitManagementModal() { setState({ isUnitManagementModalOpen: false }); }
+function handleCancelTwoFactorSetup() {
+    setState({ twoFactorSetup: null });
+}
 
-function handleAddUnitSubmit(event: Event) {
+async function handleTwoFactorSetupSubmit(event: Event) {
     event.preventDefault();
-    const form = event.target as HTMLFormElement;
-    const blockInput = form.querySelector('#newUnitBlock') as HTMLInputElement;
-    const houseNoInput = form.querySelector('#newUnitHouseNo') as HTMLInputElement;
-
-    const block = blockInput.value.trim().toUpperCase();
-    const houseNo = houseNoInput.value.trim();
+    const code = new FormData(event.target as HTMLFormElement).get('code') as string;
+    const wasRequired = !!state.currentUser?.mustSetUpTwoFactor;
 
-    if (!block || !houseNo) { alert('Both Block and House No. are required.'); return; }
-    if (state.predefinedUnits.some(u => u.block === block && u.houseNo === houseNo)) { alert('This unit already exists.'); return; }
+    try {
+        const { user, recoveryCodes } = await apiRequest<{ user: User; recoveryCodes: string[] }>('/api/two-factor', 'PUT', { code });
+        setState({ twoFactorSetup: null, recoveryCodes });
+        if (wasRequired) await beginSession(user);
+        else setState({ currentUser: user });
+    } catch (error) {
+        console.error("Failed to turn on two-factor authentication:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not turn on two-factor authentication. Please try again.');
+    }
+}
 
-    const newUnit: PredefinedUnit = { block, houseNo };
-    const updatedUnits = [...state.predefinedUnits, newUnit].sort((a, b) => {
-        if (a.block < b.block) return -1; if (a.block > b.block) return 1;
-        return a.houseNo.localeCompare(b.houseNo, undefined, { numeric: true });
-    });
-    
-    // Use setState to trigger re-render and save to storage
-    setState({ predefinedUnits: updatedUnits });
-    
-    form.reset();
-    blockInput.focus();
+// Replacing the recovery codes and turning two-factor off both need a current code, typed into the
+// same field on the account page.
+function readTwoFactorCode(): string | null {
+    const code = (document.getElementById('two-factor-code') as HTMLInputElement | null)?.value.trim();
+    if (!code) alert('Please enter a code from your authenticator app or one of your recovery codes.');
+    return code || null;
 }
 
-function handleDeleteUnit(block: string, houseNo: string) {
-    if (!confirm(`Are you sure you want to delete unit ${block}-${houseNo}? This action cannot be undone.`)) return;
-    const updatedUnits = state.predefinedUnits.filter(u => !(u.block === block && u.houseNo === houseNo));
-    setState({ predefinedUnits: updatedUnits });
+async function handleNewRecoveryCodes() {
+    const code = readTwoFactorCode();
+    if (!code) return;
+    try {
+        const { recoveryCodes } = await apiRequest<{ recoveryCodes: string[] }>('/api/two-factor', 'PATCH', { code });
+        setState({ recoveryCodes });
+    } catch (error) {
+        console.error("Failed to replace recovery codes:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not create new recovery codes. Please try again.');
+    }
 }
 
-// Approval Modal Handlers
-function handleCloseApprovalModal() { setState({ isApprovalModalOpen: false }); }
-
-// Camera Handlers
-async function handleCameraAction(e: Event) {
-    const button = e.currentTarget as HTMLButtonElement;
-    const action = button.dataset.action;
-    const video = document.getElementById('video-feed') as HTMLVideoElement;
-    const videoContainer = document.querySelector('.photo-capture-area') as HTMLElement;
-
-    if (action === 'open' || action === 'retake') {
-        stopCameraStream();
-        videoContainer.classList.add('capturing');
-        
-        try {
-            const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { exact: "environment" } } });
-            video.srcObject = stream;
-            state.cameraStream = stream;
-        } catch (err) {
-            console.warn("Environment camera not found, trying default.", err);
-            try {
-                const stream = await navigator.mediaDevices.getUserMedia({ video: true });
-                video.srcObject = stream;
-                state.cameraStream = stream;
-            } catch (mediaErr) {
-                alert("Could not access camera. Please check permissions.");
-                videoContainer.classList.remove('capturing');
-                return;
-            }
-        }
-        button.dataset.action = 'capture'; button.textContent = 'Capture';
-    } else if (action === 'capture') {
-        const canvas = document.getElementById('photo-canvas') as HTMLCanvasElement;
-        const context = canvas.getContext('2d');
-        canvas.width = video.videoWidth; canvas.height = video.videoHeight;
-        context?.drawImage(video, 0, 0, canvas.width, canvas.height);
-        
-        const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
-        stopCameraStream();
-        
-        // This will cause a re-render to show the photo and update button text
-        setState({ capturedPhotoData: dataUrl });
+async function handleDisableTwoFactor() {
+    const user = state.currentUser;
+    const code = readTwoFactorCode();
+    if (!user || !code || !confirm('Turn off two-factor authentication? Logins will only ask for your password.')) return;
+    try {
+        await apiRequest('/api/two-factor', 'DELETE', { code });
+        setState({ currentUser: { ...user, twoFactorEnabledAt: undefined } });
+    } catch (error) {
+        console.error("Failed to turn off two-factor authentication:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not turn off two-factor authentication. Please try again.');
     }
 }
 
-function stopCameraStream() {
-    if (state.cameraStream) {
-        state.cameraStream.getTracks().forEach(track => track.stop());
-        state.cameraStream = null;
+function handleCloseRecoveryCodes() {
+    setState({ recoveryCodes: null });
+}
+
+// For someone who has lost their phone and their recovery codes.
+async function handleResetTwoFactor(userId: number) {
+    const user = state.users.find(u => u.id === userId);
+    if (!user) return;
+    const next = state.passwordPolicy.requireTwoFactor ? 'log in with their password and set it up again' : 'log in with just their password';
+    if (!confirm(`Reset two-factor authentication for ${user.username}? They will be signed out everywhere and can ${next}.`)) return;
+    try {
+        await apiRequest(`/api/two-factor?userId=${userId}`, 'DELETE');
+        setState({ users: state.users.map(u => u.id === userId ? { ...u, twoFactorEnabledAt: undefined } : u) });
+    } catch (error) {
+        console.error("Failed to reset two-factor authentication:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not reset two-factor authentication. Please try again.');
     }
 }
 
-// --- CHATBOT HANDLERS ---
-function handleToggleChat() {
-    const willBeOpen = !state.isChatOpen;
-    if (willBeOpen) {
-        // When opening the chat, if the user has an active chat, resume it.
-        // Otherwise, show the form to start a new one.
-        const activeChat = state.pendingChats.find(c => c.id === state.activeChatId);
-        if (activeChat && state.currentUser?.role === 'Resident') {
-             setState({
-                isChatOpen: true,
-                viewingChatId: null,
-                chatMessages: activeChat.messages, // Restore messages
-                chatState: 'chatting',
-            });
-        } else {
-            // Default to starting a new chat
-            setState({
-                isChatOpen: true,
-                viewingChatId: null, // Clear any admin view
-                chatState: 'pre-form', // Show the form
-                chatMessages: [],
-                activeChatId: null, // Ensure any lingering ID is cleared if we're showing the form
-            });
-        }
-    } else {
-        // --- Closing the chat window ---
-        const activeChat = state.pendingChats.find(c => c.id === state.activeChatId || c.id === state.viewingChatId);
-        const isLockedForUser = state.currentUser?.role === 'Resident' && activeChat?.adminReplied;
+// --- ROLE HANDLERS ---
+const MAX_ROLE_NAME_LENGTH = 40;
 
-        // If the chat is locked, closing it is an acknowledgment. Reset the user's chat state.
-        if (isLockedForUser) {
-             sessionStorage.removeItem('activeChatId');
-             setState({
-                isChatOpen: false,
-                chatState: 'pre-form',
-                chatMessages: [],
-                isBotTyping: false,
-                chatSession: null,
-                activeChatId: null,
-                viewingChatId: null,
-            });
-        } else {
-            // If not locked, or for an admin, just close the window.
-            // This preserves the resident's activeChatId for later.
-            setState({
-                isChatOpen: false,
-                viewingChatId: null, // Always reset admin view on close
-            });
-        }
+function handleRolesClick() { setState({ isRolesModalOpen: true, editingRoleName: null }); }
+function handleCloseRolesModal() { setState({ isRolesModalOpen: false, editingRoleName: null }); }
+
+function replaceRole(record: Role) {
+    setState({ roles: state.roles.map(r => r.name === record.name ? record : r) });
+}
+
+function handleRoleSubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const base = state.roles.find(r => r.name === formData.get('roleName'));
+    if (!base) return;
+    const updated: Role = {
+        ...base,
+        permissions: (Object.keys(PERMISSION_LABELS) as Permission[]).filter(p => formData.has(`perm-${p}`)),
+        hasUnit: base.builtIn ? base.hasUnit : formData.has('hasUnit'),
+    };
+    const roles = state.roles.map(r => r.name === base.name ? updated : r);
+    if (!hasUserManager(state.users, roles)) {
+        alert('Nobody would be left who can manage users. Please give this permission to another user\'s role first.');
+        return;
     }
+    setState({ roles });
+    saveChanges(`/api/roles/${encodeURIComponent(base.name)}`, base, changedFields(base, updated), replaceRole, rebaseChanges, error => {
+        if (!(error instanceof ApiError)) return;
+        replaceRole(base);
+        alert(error.message);
+    });
 }
 
-async function handleStartChatSubmit(event: Event) {
+async function handleAddRoleSubmit(event: Event) {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
     const formData = new FormData(form);
-    const name = formData.get('chat-name') as string;
-    const block = formData.get('chat-block') as string;
-    const houseNo = formData.get('chat-houseNo') as string;
-    const initialQuery = (formData.get('chat-initial-query') as string).trim();
+    const name = (formData.get('newRoleName') as string).trim().replace(/\s+/g, ' ');
+    const copyFrom = state.roles.find(r => r.name === formData.get('copyFrom'));
 
-    if (!name || !block || !houseNo || !initialQuery) {
-        alert("Please fill out all fields to start the chat.");
+    if (!name || name.length > MAX_ROLE_NAME_LENGTH || name.includes('/')) { alert(`Please name the role in up to ${MAX_ROLE_NAME_LENGTH} characters, without "/".`); return; }
+    if (state.roles.some(r => r.name.toLowerCase() === name.toLowerCase())) { alert('There is already a role with this name.'); return; }
+    const role: Role = { name, permissions: [...(copyFrom?.permissions ?? [])], hasUnit: formData.has('newRoleHasUnit') };
+
+    if (state.isOfflineMode) {
+        setState({ roles: [...state.roles, role].sort(compareRoles), editingRoleName: name });
         return;
     }
+    try {
+        const created = await apiRequest<Role>('/api/roles', 'POST', role);
+        const roles = state.roles.some(r => r.name === created.name) ? state.roles : [...state.roles, created].sort(compareRoles);
+        setState({ roles, editingRoleName: created.name });
+    } catch (error) {
+        console.error("Failed to create role:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not create the role. Please try again.');
+    }
+}
 
-    const systemInstruction = `You are ResiBot, a helpful AI assistant for the ResiGuard Visitor Management System. You assist both residents and staff. A user has initiated a chat. Their details and initial query are provided in the first message context. Your primary role is to be helpful and answer their questions based on the provided real-time system data which includes a list of all visitors. If you are asked to perform an action (like pre-registering a visitor), state that you will assist and provide a structured summary of the request for confirmation. For example: 'Ok, I can help pre-register a visitor. Please provide their name, purpose of visit, and expected arrival time.'. You can also answer questions about visitor statuses, counts, and details for specific residents. Always be professional, friendly, and concise.`;
-    const chatInstance = getAi().chats.create({
-        model: 'gemini-2.5-flash',
-        config: { systemInstruction },
-    });
+async function handleDeleteRole(name: string) {
+    const holders = state.users.filter(u => u.role === name).length;
+    if (holders > 0) {
+        alert(`${holders} user(s) still have the ${name} role. Give them another role first.`);
+        return;
+    }
+    if (!confirm(`Delete the ${name} role? This cannot be undone.`)) return;
+    if (!state.isOfflineMode) {
+        try {
+            await apiRequest(`/api/roles/${encodeURIComponent(name)}`, 'DELETE');
+        } catch (error) {
+            console.error("Failed to delete role:", error);
+            alert(error instanceof ApiError ? error.message : 'Could not delete the role. Please try again.');
+            return;
+        }
+    }
+    setState({ roles: state.roles.filter(r => r.name !== name), editingRoleName: null });
+}
 
-    const firstUserMessage: ChatMessage = { sender: 'user', text: initialQuery };
-    const newChatId = Date.now();
+// --- STAY POLICY HANDLERS ---
+function handleStayPolicyClick() {
+    setState({ isStayPolicyModalOpen: true });
+}
 
-    // Track active chat in both state and tab-specific session storage
-    sessionStorage.setItem('activeChatId', newChatId.toString());
+function handleCloseStayPolicyModal() {
+    setState({ isStayPolicyModalOpen: false });
+}
 
-    setState({
-        chatSession: chatInstance,
-        chatState: 'chatting',
-        chatMessages: [firstUserMessage],
-        isBotTyping: true,
-        activeChatId: newChatId,
+function handleStayPolicySubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const purposes = formData.getAll('stay-purpose') as string[];
+    const hours = formData.getAll('stay-hours') as string[];
+
+    const maxHoursByPurpose: Record<string, number> = {};
+    purposes.forEach((purpose, index) => {
+        const key = purpose.trim().toUpperCase();
+        if (key && hours[index] !== '') maxHoursByPurpose[key] = Number(hours[index]);
     });
 
-    try {
-        const visitorSummary = state.visitors.map(v => ({
-            name: v.name, status: v.status, visiting: v.resident, purpose: v.purpose
-        }));
-        const context = {
-            initiatingUser: { name: name, role: state.currentUser?.role, unit: `${block}-${houseNo}` },
-            currentVisitorList: visitorSummary,
-        };
-        const prompt = `CONTEXT:\n${JSON.stringify(context, null, 2)}\n\nUSER'S INITIAL QUERY:\n${initialQuery}`;
-        
-        const response = await chatInstance.sendMessage({ message: prompt });
-        const botText = response.text;
-        const firstBotMessage: ChatMessage = { sender: 'bot', text: botText };
-        const finalMessages = [firstUserMessage, firstBotMessage];
+    const base = state.stayPolicy;
+    const updated: StayPolicy = {
+        ...base,
+        defaultMaxHours: Number(formData.get('stay-default')),
+        maxHoursByPurpose,
+        autoCheckOutAt: formData.get('stay-autoCheckOut') as string,
+        // The check-out time is entered in the admin's local time.
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+    setState({ stayPolicy: updated, isStayPolicyModalOpen: false });
+    saveChanges('/api/stay-policy', base, changedFields(base, updated), stayPolicy => setState({ stayPolicy }));
+}
 
-        const newPendingChat: PendingChat = {
-            id: newChatId,
-            userId: state.currentUser?.id || null,
-            userName: name,
-            unit: `${block}-${houseNo}`,
-            initialQuery: initialQuery,
-            messages: finalMessages,
-            dismissed: false,
-            adminReplied: false,
-        };
-        
-        const updatedPendingChats = [...state.pendingChats, newPendingChat];
-        
-        setState({
-            chatMessages: finalMessages,
-            isBotTyping: false,
-            pendingChats: updatedPendingChats,
-        });
+// --- PARKING HANDLERS ---
+function handleParkingClick() {
+    setState({ isParkingModalOpen: true });
+}
 
-    } catch (error) {
-        console.error("Gemini API Error:", error);
-        const errorMessage = "Sorry, I'm having trouble connecting. Please try again later.";
-        setState({
-            chatMessages: [...state.chatMessages, { sender: 'bot', text: errorMessage }],
-            isBotTyping: false,
-        });
-    }
+function handleCloseParkingModal() {
+    setState({ isParkingModalOpen: false, plateLookup: null });
 }
 
-async function handleUserChatSubmit(event: Event) {
+function handleAddBaysSubmit(event: Event) {
     event.preventDefault();
     const form = event.target as HTMLFormElement;
-    const input = form.querySelector('#chat-input') as HTMLInputElement;
-    const userInput = input.value.trim();
-
-    if (!userInput || !state.chatSession || !state.activeChatId) return;
-
-    const userMessage: ChatMessage = { sender: 'user', text: userInput };
-    const currentMessages = state.chatMessages.slice();
-    currentMessages.push(userMessage);
+    const formData = new FormData(form);
+    const block = (formData.get('bay-block') as string).trim().toUpperCase();
+    const count = Number(formData.get('bay-count'));
+    if (!block || !(count > 0)) { alert('Please choose a block and how many bays to add.'); return; }
+
+    const addBays = (created: ParkingBay[]) => {
+        const known = new Set(state.bays.map(bayKey));
+        setState({ bays: [...state.bays, ...created.filter(b => !known.has(bayKey(b)))].sort(compareBays) });
+        form.reset();
+    };
+    if (state.isOfflineMode) {
+        // Numbered on from the block's existing bays, as the server does.
+        const taken = new Set(state.bays.filter(b => b.block === block).map(b => b.label));
+        const created: ParkingBay[] = [];
+        for (let n = 1; created.length < count; n++) {
+            if (!taken.has(`P${n}`)) created.push({ block, label: `P${n}` });
+        }
+        addBays(created);
+        return;
+    }
+    apiRequest<ParkingBay[]>('/api/parking', 'POST', { block, count }).then(addBays).catch(error => {
+        console.error("Failed to add parking bays:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not add the parking bays. Please try again.');
+    });
+}
 
-    setState({ chatMessages: currentMessages, isBotTyping: true });
-    
-    const updatedPendingChats = state.pendingChats.map(chat =>
-        chat.id === state.activeChatId ? { ...chat, messages: currentMessages } : chat
-    );
-    setState({ pendingChats: updatedPendingChats });
+function handleDeleteBay(id: string) {
+    if (occupiedBays().has(id)) { alert(`Parking bay ${id} is in use. Check its visitor out first.`); return; }
+    if (!confirm(`Delete parking bay ${id}?`)) return;
+    setState({ bays: state.bays.filter(b => bayKey(b) !== id) });
+    saveRecord(`/api/parking/${encodeURIComponent(id)}`, 'DELETE');
+}
 
-    input.value = '';
+async function handleAddVehicleSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+    const plate = normalizePlate(formData.get('vehicle-plate') as string);
+    const unitNo = (formData.get('vehicle-unit') as string | null) ?? state.currentUser?.unitNo ?? '';
+    if (!plate || !unitNo) { alert('Please give the plate number and the unit it belongs to.'); return; }
+    const registered = findResidentVehicle(plate);
+    if (registered) { alert(`${registered.plate} is already registered to ${registered.unitNo}.`); return; }
 
+    const vehicle: ResidentVehicle = {
+        id: Date.now(),
+        plate,
+        unitNo,
+        carBrand: (formData.get('vehicle-brand') as string).trim().toUpperCase() || undefined,
+        addedBy: `${state.currentUser?.username} (${state.currentUser?.role})`,
+    };
     try {
-        const response = await state.chatSession.sendMessage({ message: userInput });
-        const botText = response.text;
-        const botMessage: ChatMessage = { sender: 'bot', text: botText };
-        const finalMessages = [...currentMessages, botMessage];
+        const created = await createRecord('/api/vehicles', vehicle);
+        setState({ vehicles: upsertRecord(state.vehicles, created) });
+    } catch (error) {
+        console.error("Failed to register vehicle:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not register the vehicle. Please try again.');
+    }
+}
 
-        const finalPendingChats = state.pendingChats.map(chat =>
-            chat.id === state.activeChatId ? { ...chat, messages: finalMessages } : chat
-        );
+function handleDeleteVehicle(id: number) {
+    const vehicle = state.vehicles.find(v => v.id === id);
+    if (!vehicle || !confirm(`Remove ${vehicle.plate} from ${vehicle.unitNo}'s vehicles?`)) return;
+    setState({ vehicles: state.vehicles.filter(v => v.id !== id) });
+    saveRecord(`/api/vehicles/${id}`, 'DELETE');
+}
 
-        setState({
-            chatMessages: finalMessages,
-            isBotTyping: false,
-            pendingChats: finalPendingChats,
-        });
+// Who a plate belongs to and when it was last here. Offline mode looks through the local records instead.
+// The server searches every visit, not just the ones loaded here, so local records are only
+// searched in offline mode. Either way only the latest visits come back.
+const PLATE_LOOKUP_VISITS = 10;
+
+async function lookUpPlate(plate: string): Promise<PlateLookup> {
+    if (!state.isOfflineMode) return apiRequest<PlateLookup>(`/api/plates/${encodeURIComponent(plate)}`);
+    const key = plateKey(plate);
+    return {
+        plate,
+        residentVehicles: state.vehicles.filter(v => plateKey(v.plate) === key),
+        visits: state.visitors.filter(v => plateKey(v.vehicle) === key).sort((a, b) => b.id - a.id).slice(0, PLATE_LOOKUP_VISITS),
+    };
+}
 
+async function handlePlateLookup(event: Event) {
+    event.preventDefault();
+    const plate = normalizePlate(new FormData(event.target as HTMLFormElement).get('lookup-plate') as string);
+    if (!plate) return;
+    try {
+        setState({ plateLookup: await lookUpPlate(plate) });
     } catch (error) {
-        console.error("Gemini API Error:", error);
-        const errorMessage = "Sorry, I'm having trouble connecting right now. Please try again later.";
-        const errorMessages = [...currentMessages, { sender: 'bot' as const, text: errorMessage }];
-        setState({
-            chatMessages: errorMessages,
-            isBotTyping: false,
-        });
+        console.error("Failed to look up plate:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not look up the plate. Please try again.');
     }
 }
 
-async function handleAdminChatSubmit(event: Event) {
+function handleCloseBayPicker() {
+    setState({ parkingVisitorId: null });
+}
+
+function handleBayPickerSubmit(event: Event) {
     event.preventDefault();
-    const form = event.target as HTMLFormElement;
-    const input = form.querySelector('#chat-input') as HTMLInputElement;
-    const adminInput = input.value.trim();
+    const id = state.parkingVisitorId;
+    const bay = new FormData(event.target as HTMLFormElement).get('parking-bay') as string;
+    state.parkingVisitorId = null;
+    if (id !== null) handleCheckIn(id, bay);
+}
 
-    if (!adminInput || !state.viewingChatId) return;
+// --- SECURITY ALERTS ---
+let notifiedAlertIds = new Set<number>();
 
-    const adminMessage: ChatMessage = { sender: 'admin', text: adminInput };
+const openAlerts = () => state.alerts.filter(a => !a.acknowledgedBy);
 
-    const updatedPendingChats = state.pendingChats.map(chat => {
-        if (chat.id === state.viewingChatId) {
-            const newMessages = [...chat.messages, adminMessage];
-            // Also update the live chat view
-            setState({ chatMessages: newMessages });
-            return { ...chat, messages: newMessages, adminReplied: true };
-        }
-        return chat;
-    });
-    
-    setState({ pendingChats: updatedPendingChats });
-    
-    input.value = '';
+// Opens the alerts modal when an alert arrives that this user hasn't been shown yet. The server
+// only sends each user the alerts meant for them: watchlist matches to officers, overstays to Security.
+function notifyNewAlerts() {
+    if (!state.currentUser) return;
+    const open = openAlerts();
+    if (open.some(a => !notifiedAlertIds.has(a.id))) state.isAlertsModalOpen = true;
+    notifiedAlertIds = new Set(open.map(a => a.id));
 }
 
-function handleCloseChatNotificationModal() { setState({ isChatNotificationModalOpen: false }); }
+// Open alerts are shown when the session starts, then each new one as it arrives.
+function showOpenAlerts() {
+    notifiedAlertIds = new Set();
+    notifyNewAlerts();
+    if (state.isAlertsModalOpen) render();
+}
 
-function handleReplyToChat(chatId: number) {
-    const chatToView = state.pendingChats.find(c => c.id === chatId);
-    if (!chatToView) return;
+function handleAlertsClick() {
+    setState({ isAlertsModalOpen: true });
+}
 
-    setState({
-        isChatNotificationModalOpen: false,
-        isChatOpen: true,
-        chatState: 'chatting',
-        viewingChatId: chatId,
-        chatMessages: chatToView.messages,
-    });
+function handleCloseAlertsModal() {
+    setState({ isAlertsModalOpen: false });
 }
 
-function handleDismissChat(chatId: number) {
-    const updatedChats = state.pendingChats.map(c =>
-        c.id === chatId ? { ...c, dismissed: true } : c
-    );
-    const stillPending = updatedChats.some(c => !c.dismissed);
+function handleAcknowledgeAlert(id: number) {
+    const alertRecord = state.alerts.find(a => a.id === id);
+    if (!alertRecord) return;
+    const changes = { acknowledgedBy: `${state.currentUser?.username} (${state.currentUser?.role})` };
+    const alerts = state.alerts.map(a => a.id === id ? { ...a, ...changes } : a);
+    setState({ alerts, isAlertsModalOpen: alerts.some(a => !a.acknowledgedBy) });
+    saveChanges(`/api/alerts/${id}`, alertRecord, changes, record => setState({ alerts: state.alerts.map(a => a.id === record.id ? record : a) }));
+}
+
+// --- VISIT HISTORY HANDLERS ---
+async function handleShowHistory(visitorId: number) {
+    const visitor = state.visitors.find(v => v.id === visitorId);
+    if (!visitor) return;
+
+    // Offline, or for visits that were never linked, the history is whatever visits share the contact number.
+    if (state.isOfflineMode || visitor.profileId === undefined) {
+        const key = contactKey(visitor.contact);
+        const visits = state.visitors.filter(v => v.id === visitor.id || (key && contactKey(v.contact) === key));
+        const profile = state.profiles.find(p => p.id === visitor.profileId)
+            ?? { id: visitor.profileId ?? 0, name: visitor.name, contact: visitor.contact, vehicle: visitor.vehicle, carBrand: visitor.carBrand, photo: visitor.photo };
+        setState({ visitHistory: { profile, visits: [...visits].sort((a, b) => b.id - a.id) } });
+        return;
+    }
+
+    try {
+        const visitHistory = await apiRequest<{ profile: VisitorProfile; visits: Visitor[] }>(`/api/profiles/${visitor.profileId}`);
+        setState({ visitHistory });
+    } catch (error) {
+        console.error("Failed to load visit history:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not load the visit history. Please try again.');
+    }
+}
+
+function handleCloseHistoryModal() {
+    setState({ visitHistory: null });
+}
+
+// Starts a new visit for a returning visitor instead of reusing their old record.
+function handleNewVisitFromHistory() {
+    if (!state.visitHistory) return;
+    const { name, contact, vehicle, carBrand, photo } = state.visitHistory.profile;
     setState({
-        pendingChats: updatedChats,
-        isChatNotificationModalOpen: stillPending,
+        visitHistory: null,
+        isModalOpen: true,
+        editingVisitorId: null,
+        capturedPhotoData: photo || null,
+        visitorPrefill: { name, contact, vehicle, carBrand },
+    });
+}
+
+function handleCompanySetupClick() {
+    setState({ isCompanySetupModalOpen: true });
+}
+
+function handleCloseCompanySetupModal() {
+    setState({ isCompanySetupModalOpen: false });
+}
+
+function handleCompanySetupFormSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+
+    const saveAndSetState = async (logoDataUrl: string) => {
+        let logo: string;
+        try {
+            logo = logoDataUrl && await uploadImage(logoDataUrl);
+        } catch (error) {
+            console.error("Failed to upload logo:", error);
+            alert('Could not upload the logo. Please try again.');
+            return;
+        }
+        const base = state.companyInfo;
+        const newCompanyInfo: CompanyInfo = {
+            ...base,
+            name: formData.get('companyName') as string,
+            address: formData.get('companyAddress') as string,
+            welcomeMessage: formData.get('welcomeMessage') as string,
+            personInCharge: formData.get('personInCharge') as string,
+            contactNumber: formData.get('contactNumber') as string,
+            logo,
+        };
+        setState({ companyInfo: newCompanyInfo, isCompanySetupModalOpen: false });
+        saveChanges('/api/company', base, changedFields(base, newCompanyInfo), companyInfo => setState({ companyInfo }));
+    };
+
+    const logoFile = (form.querySelector('#companyLogo') as HTMLInputElement).files?.[0];
+    if (logoFile) {
+        const reader = new FileReader();
+        reader.onload = (e) => saveAndSetState(e.target?.result as string);
+        reader.readAsDataURL(logoFile);
+    } else {
+        saveAndSetState(state.companyInfo.logo);
+    }
+}
+
+// User Role and Edit Handlers
+function handleUserRolesClick() { setState({ isUserRoleModalOpen: true }); }
+function handleCloseUserRoleModal() { setState({ isUserRoleModalOpen: false, issuedInvite: null }); }
+function handleAddUserClick() { setState({ isAddUserModalOpen: true }); }
+function handleCloseAddUserModal() { setState({ isAddUserModalOpen: false }); }
+
+async function handleAddUserSubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const username = (formData.get('username') as string).trim();
+    const role = formData.get('role') as UserRole;
+    const unitNo = roleHasUnit(role) ? formData.get('unitNo') as string : undefined;
+    const sendInvite = formData.get('setup') === 'invite';
+    const password = sendInvite ? '' : formData.get('newPassword') as string;
+
+    if (!username) { alert('Username cannot be empty.'); return; }
+    if (state.users.some(u => u.username === username)) { alert('This username is already taken. Please choose another.'); return; }
+    if (roleHasUnit(role) && !state.predefinedUnits.some(u => `${u.block}-${u.houseNo}` === unitNo)) { alert('Please choose the user\'s unit.'); return; }
+    if (!sendInvite && (!password || password !== formData.get('confirmPassword'))) { alert('Please enter the password twice.'); return; }
+    const weak = sendInvite ? null : passwordError(password, username);
+    if (weak) { alert(weak); return; }
+
+    if (state.isOfflineMode) {
+        const user: User = { id: Date.now(), username, role, unitNo, password };
+        setState({ users: [...state.users, user], isAddUserModalOpen: false });
+        return;
+    }
+    try {
+        const { user, invite } = await apiRequest<{ user: User; invite: { code: string; expiresAt: string } | null }>('/api/users', 'POST', { username, role, unitNo, password: password || undefined });
+        setState({
+            users: upsertRecord(state.users, user),
+            isAddUserModalOpen: false,
+            issuedInvite: invite && { username: user.username, ...invite },
+        });
+    } catch (error) {
+        console.error("Failed to create user:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not create the user. Please try again.');
+    }
+}
+
+// A new code for an account whose invite expired or was lost; the old code stops working.
+async function handleReissueInvite(id: number) {
+    const user = state.users.find(u => u.id === id);
+    if (!user) return;
+    try {
+        const invite = await apiRequest<{ code: string; expiresAt: string }>('/api/invites', 'POST', { userId: id });
+        setState({ issuedInvite: { username: user.username, ...invite } });
+    } catch (error) {
+        console.error("Failed to issue invite:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not issue a new invite code. Please try again.');
+    }
+}
+
+function handleDismissInvite() { setState({ issuedInvite: null }); }
+
+function roleOptionsHTML(selectedRole: UserRole): string {
+    return state.roles.map(({ name }) => `<option value="${escapeHtml(name)}" ${name === selectedRole ? 'selected' : ''}>${escapeHtml(name)}</option>`).join('');
+}
+
+function unitOptionsHTML(selectedUnitNo?: string): string {
+    return [
+        '<option value="">-- Select Unit --</option>',
+        ...[...state.predefinedUnits].sort(compareUnits).map(({ block, houseNo }) =>
+            `<option value="${escapeHtml(`${block}-${houseNo}`)}" ${`${block}-${houseNo}` === selectedUnitNo ? 'selected' : ''}>${escapeHtml(`${block}-${houseNo}`)}</option>`
+        ),
+    ].join('');
+}
+
+
+function handleOpenEditUserModal(id: number) {
+    setState({ isEditUserModalOpen: true, editingUserId: id });
+}
+function handleCloseEditUserModal() {
+    setState({ isEditUserModalOpen: false, editingUserId: null });
+}
+
+function handleEditUserFormSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+    const username = (formData.get('username') as string).trim();
+    const unitNo = (formData.get('unitNo') as string | null) ?? undefined;
+    const newPassword = formData.get('newPassword') as string;
+    const confirmPassword = formData.get('confirmPassword') as string;
+
+    if (!username) {
+        alert('Username cannot be empty.');
+        return;
+    }
+    if (newPassword !== confirmPassword) {
+        alert('Passwords do not match.');
+        return;
+    }
+    const weak = newPassword ? passwordError(newPassword, username) : null;
+    if (weak) {
+        alert(weak);
+        return;
+    }
+
+    const isUsernameTaken = state.users.some(u => u.username === username && u.id !== state.editingUserId);
+    if (isUsernameTaken) {
+        alert('This username is already taken. Please choose another.');
+        return;
+    }
+
+    const existing = state.users.find(u => u.id === state.editingUserId);
+    if (!existing) return;
+    const changes: Partial<User> = { ...changedFields(existing, { ...existing, username, unitNo }), ...(newPassword ? { password: newPassword } : {}) };
+    const updatedUsers = state.users.map(user => {
+        if (user.id === existing.id) {
+            // Only offline mode keeps passwords locally; online, the server stores the hash.
+            return {
+                ...user,
+                username,
+                unitNo,
+                password: state.isOfflineMode && newPassword ? newPassword : user.password,
+            };
+        }
+        return user;
+    });
+
+    setState({ users: updatedUsers, isEditUserModalOpen: false, editingUserId: null });
+    saveUserChanges(existing, changes);
+}
+
+function handleDeleteUser(id: number) {
+    const userToDelete = state.users.find(u => u.id === id);
+    if (!userToDelete) return;
+
+    if (userToDelete.id === state.currentUser?.id) {
+        alert('You cannot delete your own account.');
+        return;
+    }
+
+    if (!hasUserManager(state.users.filter(u => u.id !== id))) {
+        alert('You cannot delete the last user who can manage users.');
+        return;
+    }
+
+    if (confirm(`Are you sure you want to delete user "${userToDelete.username}"? This action cannot be undone.`)) {
+        const updatedUsers = state.users.filter(user => user.id !== id);
+        setState({ users: updatedUsers });
+        saveRecord(`/api/users/${id}`, 'DELETE');
+    }
+}
+
+function handleRoleChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    const userIdToUpdate = parseInt(select.dataset.userid || '', 10);
+    const newRole = select.value as UserRole;
+
+    if (!userIdToUpdate) return;
+
+    const existing = state.users.find(u => u.id === userIdToUpdate);
+    if (roleHasUnit(newRole) && !existing?.unitNo) {
+        alert(`Users with the ${newRole} role belong to a unit. Use Edit to choose their unit first, then change the role.`);
+        select.value = existing?.role ?? '';
+        return;
+    }
+
+    const updatedUsers = state.users.map(user => {
+        if (user.id === userIdToUpdate) {
+            return { ...user, role: newRole };
+        }
+        return user;
+    });
+
+    if (!hasUserManager(updatedUsers)) {
+        alert('Nobody would be left who can manage users. Please give another user a role that can first.');
+        select.value = existing?.role ?? ''; // Revert dropdown
+        return;
+    }
+
+    setState({ users: updatedUsers });
+    if (existing) saveUserChanges(existing, { role: newRole });
+}
+
+function handleOverviewClick() {
+    stopScanner();
+    setState({ currentView: 'overview' });
+    loadAuditLog();
+}
+function handleDashboardClick() {
+    stopScanner();
+    setState({ currentView: 'dashboard', scanResult: null });
+}
+// The grid narrows down straight away from what is loaded, then the server is asked once typing pauses.
+const SEARCH_DELAY_MS = 300;
+let searchTimer: number | null = null;
+
+function handleSearch(event: Event) {
+    const input = event.target as HTMLInputElement;
+    state.searchQuery = input.value;
+    renderGridOnly();
+    if (searchTimer !== null) window.clearTimeout(searchTimer);
+    searchTimer = window.setTimeout(() => loadVisitorPage(), SEARCH_DELAY_MS);
+}
+
+// Visitor Query Handlers
+const VISITOR_PAGE_SIZE = 50;
+const MAX_VISITOR_PAGE_SIZE = 500;
+const VISITOR_STATUSES: VisitorStatus[] = ['Pending', 'Approved', 'Checked-in', 'Checked-out', 'Rejected'];
+let visitorQueryId = 0;
+
+// The same filters and order the server applies, so live changes and offline data show up in the grid too.
+function visitTime(visitor: Visitor): number {
+    return Date.parse(visitor.checkInTime ?? visitor.expectedArrival ?? '') || visitor.id;
+}
+
+function matchesVisitorFilters(visitor: Visitor, filters: VisitorFilters, search: string): boolean {
+    if (filters.statuses.length > 0 && !filters.statuses.includes(visitor.status)) return false;
+    const time = visitTime(visitor);
+    if (filters.from && time < new Date(`${filters.from}T00:00:00`).getTime()) return false;
+    if (filters.to && time > new Date(`${filters.to}T23:59:59.999`).getTime()) return false;
+    if (filters.block && visitor.resident.split('-')[0] !== filters.block) return false;
+    if (filters.unit && visitor.resident !== filters.unit) return false;
+    if (filters.purpose && visitor.purpose.toUpperCase() !== filters.purpose.toUpperCase()) return false;
+    const lowerCaseQuery = search.trim().toLowerCase();
+    return !lowerCaseQuery || [visitor.name, visitor.resident, visitor.purpose, visitor.vehicle, visitor.carBrand]
+        .some(field => field?.toLowerCase().includes(lowerCaseQuery));
+}
+
+function compareVisitors(a: Visitor, b: Visitor, sort: VisitorSort): number {
+    const primary = sort === 'name' ? a.name.localeCompare(b.name) : visitTime(a) - visitTime(b);
+    return (primary || a.id - b.id) * (sort === 'newest' ? -1 : 1);
+}
+
+// Every loaded visit that matches, in order, up to the last one paged in.
+function visibleVisitors(): Visitor[] {
+    const { visitorFilters: filters, searchQuery, visitorPageEnd: end } = state;
+    return state.visitors
+        .filter(v => matchesVisitorFilters(v, filters, searchQuery))
+        .sort((a, b) => compareVisitors(a, b, filters.sort))
+        .filter(v => !end || compareVisitors(v, end, filters.sort) <= 0);
+}
+
+// Fetches the first page for the current filters, or the next one when `loadMore` is set. Offline, everything is already loaded.
+async function loadVisitorPage(loadMore = false) {
+    if (state.isOfflineMode || !state.currentUser) return;
+
+    const { statuses, from, to, block, unit, purpose, sort } = state.visitorFilters;
+    const params = new URLSearchParams({ limit: String(VISITOR_PAGE_SIZE), sort });
+    if (statuses.length > 0) params.set('status', statuses.join(','));
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+    if (block) params.set('block', block);
+    if (unit) params.set('unit', unit);
+    if (purpose) params.set('purpose', purpose);
+    if (state.searchQuery.trim()) params.set('q', state.searchQuery.trim());
+    if (loadMore && state.visitorCursor) params.set('cursor', state.visitorCursor);
+
+    // Only the newest request's answer is used, so a slow page for an old search can't overwrite a newer one.
+    const queryId = ++visitorQueryId;
+    state.isLoadingVisitors = true;
+    try {
+        const page = await apiRequest<VisitorPage>(`/api/visitors?${params}`);
+        if (queryId !== visitorQueryId) return;
+        // The grid is only re-rendered, so the search box keeps focus while results arrive.
+        state.visitors = page.visitors.reduce((all, visitor) => upsertRecord(all, visitor), state.visitors);
+        state.visitorCursor = page.nextCursor;
+        state.visitorPageEnd = page.nextCursor ? page.visitors[page.visitors.length - 1] : null;
+        state.visitorTotal = page.total;
+    } catch (error) {
+        console.error("Failed to load visitors:", error);
+    } finally {
+        if (queryId === visitorQueryId) state.isLoadingVisitors = false;
+    }
+    renderGridOnly();
+}
+
+function setVisitorFilters(changes: Partial<VisitorFilters>) {
+    // Pressing Enter in the purpose box fires both change and submit.
+    if (JSON.stringify({ ...state.visitorFilters, ...changes }) === JSON.stringify(state.visitorFilters)) return;
+    setState({ visitorFilters: { ...state.visitorFilters, ...changes } });
+    loadVisitorPage();
+}
+
+function handleStatusChipClick(status: string) {
+    const { statuses } = state.visitorFilters;
+    if (!status) { setVisitorFilters({ statuses: [] }); return; }
+    const chosen = status as VisitorStatus;
+    setVisitorFilters({ statuses: statuses.includes(chosen) ? statuses.filter(s => s !== chosen) : [...statuses, chosen] });
+}
+
+function handleVisitorFilterChange(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(document.getElementById('visitor-filter-form') as HTMLFormElement);
+    const block = (formData.get('block') as string | null) ?? '';
+    setVisitorFilters({
+        from: formData.get('from') as string,
+        to: formData.get('to') as string,
+        block,
+        // A unit from another block no longer applies.
+        unit: block === state.visitorFilters.block ? (formData.get('unit') as string | null) ?? '' : '',
+        purpose: (formData.get('purpose') as string).trim().toUpperCase(),
+        sort: formData.get('sort') as VisitorSort,
     });
 }
 
-// --- HELPERS (continued) ---
-function getInitials(name: string): string {
-    if (!name) return '??';
-    const parts = name.trim().split(' ');
-    if (parts.length > 1) return `${parts[0][0]}${parts[parts.length - 1][0]}`.toUpperCase();
-    return `${parts[0]?.[0] || ''}`.toUpperCase();
-}
+function handleClearVisitorFilter(key: keyof VisitorFilters | 'all') {
+    if (key === 'all') setVisitorFilters({ ...EMPTY_VISITOR_FILTERS, sort: state.visitorFilters.sort });
+    else if (key === 'block') setVisitorFilters({ block: '', unit: '' });
+    else setVisitorFilters({ [key]: EMPTY_VISITOR_FILTERS[key] });
+}
+
+// Audit Trail Handlers
+const AUDIT_PAGE_SIZE = 25;
+
+// Fetches the first page for the current filters, or appends the next page when `loadMore` is set.
+async function loadAuditLog(loadMore = false) {
+    if (state.isOfflineMode) return;
+
+    const { action, actor, targetType, from, to } = state.auditFilters;
+    const params = new URLSearchParams({ limit: String(AUDIT_PAGE_SIZE) });
+    if (action) params.set('action', action);
+    if (actor) params.set('actor', actor);
+    if (targetType) params.set('targetType', targetType);
+    // Date inputs are local calendar days, so widen them to cover the whole day.
+    if (from) params.set('from', new Date(`${from}T00:00:00`).toISOString());
+    if (to) params.set('to', new Date(`${to}T23:59:59.999`).toISOString());
+    if (loadMore && state.auditCursor) params.set('cursor', state.auditCursor);
+
+    setState({ isLoadingAudit: true });
+    try {
+        const page = await apiRequest<{ entries: AuditEntry[]; nextCursor: string | null }>(`/api/audit?${params}`);
+        setState({
+            auditEntries: loadMore ? [...state.auditEntries, ...page.entries] : page.entries,
+            auditCursor: page.nextCursor,
+            isLoadingAudit: false,
+        });
+    } catch (error) {
+        console.error("Failed to load audit log:", error);
+        setState({ isLoadingAudit: false });
+    }
+}
+
+function handleAuditFilterChange(event: Event) {
+    event.preventDefault();
+    const form = document.getElementById('audit-filter-form') as HTMLFormElement;
+    const formData = new FormData(form);
+    const auditFilters: AuditFilters = {
+        action: formData.get('action') as string,
+        actor: (formData.get('actor') as string).trim(),
+        targetType: formData.get('targetType') as string,
+        from: formData.get('from') as string,
+        to: formData.get('to') as string,
+    };
+    // Pressing Enter in the actor box fires both change and submit.
+    if (JSON.stringify(auditFilters) === JSON.stringify(state.auditFilters)) return;
+    state.auditFilters = auditFilters;
+    loadAuditLog();
+}
+
+// Scheduled Visit Handlers
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Matches the server's allowance for visitors who turn up a little early.
+const EARLY_ARRIVAL_GRACE_MS = 15 * 60 * 1000;
+
+// Today's window for a schedule. Gate devices run in the property's time zone, so local time is used.
+function scheduleWindowToday(schedule: VisitSchedule): { start: Date; end: Date } | null {
+    const now = new Date();
+    const today = toDateTimeInputValue(now.toISOString()).slice(0, 10);
+    if (today < schedule.startDate || today > schedule.endDate) return null;
+    if (schedule.kind === 'weekly' && !schedule.days.includes(now.getDay())) return null;
+    return { start: new Date(`${today}T${schedule.startTime}`), end: new Date(`${today}T${schedule.endTime}`) };
+}
+
+// The visit already logged today under a schedule, if the visitor has arrived.
+function todaysScheduledVisit(schedule: VisitSchedule): Visitor | undefined {
+    const today = new Date().toDateString();
+    return state.visitors.find(v => v.scheduleId === schedule.id && !!v.expectedArrival && new Date(v.expectedArrival).toDateString() === today);
+}
+
+function handleScheduleModalClick() { setState({ isScheduleModalOpen: true }); }
+function handleCloseScheduleModal() { setState({ isScheduleModalOpen: false }); }
+
+async function handleAddScheduleSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+
+    const block = (formData.get('schedule-block') as string).trim().toUpperCase();
+    const houseNo = (formData.get('schedule-houseNo') as string).trim();
+    const kind = formData.get('schedule-kind') as VisitSchedule['kind'];
+    const days = formData.getAll('schedule-days').map(Number);
+    const schedule: VisitSchedule = {
+        id: Date.now(),
+        visitor: {
+            name: (formData.get('schedule-name') as string).trim().toUpperCase(),
+            contact: (formData.get('schedule-contact') as string).trim(),
+            purpose: (formData.get('schedule-purpose') as string).trim().toUpperCase(),
+            resident: `${block}-${houseNo}`,
+            block, houseNo,
+            vehicle: (formData.get('schedule-vehicle') as string).trim().toUpperCase(),
+        },
+        kind,
+        startDate: formData.get('schedule-startDate') as string,
+        endDate: formData.get('schedule-endDate') as string,
+        days: kind === 'weekly' ? days : [],
+        startTime: formData.get('schedule-startTime') as string,
+        endTime: formData.get('schedule-endTime') as string,
+        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        createdBy: state.currentUser?.id ?? 0,
+    };
+
+    if (kind === 'weekly' && days.length === 0) { alert('Please choose at least one day of the week.'); return; }
+    if (schedule.endDate < schedule.startDate) { alert('The schedule must end on or after the day it starts.'); return; }
+    if (schedule.endTime <= schedule.startTime) { alert('The daily window must end after it starts.'); return; }
+
+    try {
+        const created = await createRecord('/api/schedules', schedule);
+        setState({ schedules: upsertRecord(state.schedules, created) });
+    } catch (error) {
+        console.error("Failed to create schedule:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not save the schedule. Please try again.');
+    }
+}
+
+function handleDeleteSchedule(id: number) {
+    const schedule = state.schedules.find(s => s.id === id);
+    if (!schedule || !confirm(`Cancel all scheduled visits for ${schedule.visitor.name}?`)) return;
+    setState({ schedules: state.schedules.filter(s => s.id !== id) });
+    saveRecord(`/api/schedules/${id}`, 'DELETE');
+}
+
+// Logs a scheduled visitor's arrival. The server makes the same on-time check and its answer wins.
+async function handleScheduledArrival(scheduleId: number) {
+    const schedule = state.schedules.find(s => s.id === scheduleId);
+    if (!schedule || !screenAgainstWatchlist(schedule.visitor)) return;
+
+    const window = scheduleWindowToday(schedule);
+    const now = Date.now();
+    const isOnTime = !!window && now >= window.start.getTime() - EARLY_ARRIVAL_GRACE_MS && now <= window.end.getTime();
+    const visit: Visitor = {
+        ...schedule.visitor,
+        id: Date.now(),
+        scheduleId,
+        expectedArrival: window?.start.toISOString(),
+        expectedDeparture: window?.end.toISOString(),
+        status: isOnTime ? 'Approved' : 'Pending',
+    };
+
+    try {
+        const created = await createRecord('/api/visitors', visit);
+        setState({ visitors: upsertRecord(state.visitors, created, true) });
+        if (created.status === 'Pending') {
+            alert(`${created.name} is outside their scheduled window, so the visit needs approval.`);
+        }
+    } catch (error) {
+        console.error("Failed to log scheduled arrival:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not log the arrival. Please try again.');
+    }
+}
+
+// Unit Management Handlers
+function handleManageUnitsClick() { setState({ isUnitManagementModalOpen: true }); }
+function handleCloseUnitManagementModal() { setState({ isUnitManagementModalOpen: false, unitImport: null }); }
+
+function handleAddUnitSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const blockInput = form.querySelector('#newUnitBlock') as HTMLInputElement;
+    const houseNoInput = form.querySelector('#newUnitHouseNo') as HTMLInputElement;
+
+    const block = blockInput.value.trim().toUpperCase();
+    const houseNo = houseNoInput.value.trim();
+
+    if (!block || !houseNo) { alert('Both Block and House No. are required.'); return; }
+    if (state.predefinedUnits.some(u => u.block === block && u.houseNo === houseNo)) { alert('This unit already exists.'); return; }
+
+    const newUnit: PredefinedUnit = { block, houseNo };
+    const updatedUnits = [...state.predefinedUnits, newUnit].sort(compareUnits);
+    
+    setState({ predefinedUnits: updatedUnits });
+    saveRecord('/api/units', 'POST', newUnit);
+    
+    form.reset();
+    blockInput.focus();
+}
+
+function handleDeleteUnit(block: string, houseNo: string) {
+    if (!confirm(`Are you sure you want to delete unit ${block}-${houseNo}? This action cannot be undone.`)) return;
+    const updatedUnits = state.predefinedUnits.filter(u => !(u.block === block && u.houseNo === houseNo));
+    setState({ predefinedUnits: updatedUnits });
+    saveRecord(`/api/units/${encodeURIComponent(`${block}-${houseNo}`)}`, 'DELETE');
+}
+
+// CSV import: the file is checked with a dry run first, and only imported once the preview is confirmed.
+async function handleUnitImportFileChange(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+    if (state.isOfflineMode) {
+        alert('Importing checks the file against the server, so it is not available offline.');
+        input.value = '';
+        return;
+    }
+
+    const csv = await file.text();
+    setState({ isImportingUnits: true, unitImport: null });
+    try {
+        const report = await apiRequest<UnitImportReport>('/api/imports/units', 'POST', { csv, dryRun: true });
+        setState({ isImportingUnits: false, unitImport: { fileName: file.name, csv, report } });
+    } catch (error) {
+        console.error("Failed to check the import file:", error);
+        setState({ isImportingUnits: false });
+        alert(error instanceof ApiError ? error.message : 'Could not check the file. Please try again.');
+    }
+}
+
+// The role new accounts from an import get: the one chosen, or Resident, or else the first role tied to a unit.
+function unitImportRole(): UserRole | undefined {
+    const unitRoles = state.roles.filter(r => r.hasUnit).map(r => r.name);
+    const chosen = state.unitImport?.role;
+    return chosen && unitRoles.includes(chosen) ? chosen : unitRoles.includes('Resident') ? 'Resident' : unitRoles[0];
+}
+
+// The file goes to the server in parts of at most the `batchRows` its check answered with, since
+// hashing each resident's password takes a while and a large file would outlast the function timeout.
+async function handleConfirmUnitImport() {
+    const pending = state.unitImport;
+    if (!pending) return;
+
+    const { batchRows } = pending.report;
+    const role = unitImportRole();
+    const lines = pending.report.rows.map(r => r.line);
+    const report: UnitImportReport = { dryRun: false, rows: [], units: 0, residents: 0, batchRows };
+    setState({ isImportingUnits: true, unitImport: { ...pending, importedRows: 0 } });
+    try {
+        for (let start = 0; start < lines.length; start += batchRows) {
+            const batch = lines.slice(start, start + batchRows);
+            const fromLine = batch[0];
+            const toLine = batch[batch.length - 1];
+            const part = await apiRequest<UnitImportReport>('/api/imports/units', 'POST', { csv: pending.csv, dryRun: false, fromLine, toLine, role });
+            report.rows.push(...part.rows.filter(r => r.line >= fromLine && r.line <= toLine));
+            report.units += part.units;
+            report.residents += part.residents;
+            setState({ unitImport: { ...pending, importedRows: report.rows.length } });
+        }
+    } catch (error) {
+        console.error("Failed to import units:", error);
+        const imported = report.rows.length > 0 ? ` The first ${report.rows.length} rows were imported; importing the file again adds the rest.` : '';
+        alert(`${error instanceof ApiError ? error.message : 'Could not import the file.'}${imported}`);
+    }
+    try {
+        // The new records also arrive on the change feed; reloading covers clients without it.
+        const [predefinedUnits, users] = await Promise.all([apiRequest<PredefinedUnit[]>('/api/units'), apiRequest<User[]>('/api/users')]);
+        setState({ predefinedUnits: predefinedUnits.sort(compareUnits), users });
+    } catch (error) {
+        console.error("Failed to reload units after importing:", error);
+    }
+    setState({ isImportingUnits: false, unitImport: report.rows.length > 0 ? { ...pending, report } : pending });
+}
+
+function handleCancelUnitImport() { setState({ unitImport: null }); }
+
+
+// Approval Modal Handlers
+function handleCloseApprovalModal() { setState({ isApprovalModalOpen: false }); }
+
+// Camera Handlers
+// Starts the rear camera where there is one, falling back to any camera, and shows it in `video`.
+async function openCameraStream(video: HTMLVideoElement): Promise<MediaStream | null> {
+    try {
+        const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { exact: "environment" } } });
+        video.srcObject = stream;
+        state.cameraStream = stream;
+        return stream;
+    } catch (err) {
+        console.warn("Environment camera not found, trying default.", err);
+        try {
+            const stream = await navigator.mediaDevices.getUserMedia({ video: true });
+            video.srcObject = stream;
+            state.cameraStream = stream;
+            return stream;
+        } catch (mediaErr) {
+            alert("Could not access camera. Please check permissions.");
+            return null;
+        }
+    }
+}
+
+// Set while the camera is pointed at an ID document rather than the visitor; that frame is read, not kept.
+let isScanningId = false;
+
+async function handleCameraAction(e: Event) {
+    const button = e.currentTarget as HTMLButtonElement;
+    const action = button.dataset.action;
+    const video = document.getElementById('video-feed') as HTMLVideoElement;
+    const videoContainer = document.querySelector('.photo-capture-area') as HTMLElement;
+
+    if (action === 'open' || action === 'retake') {
+        stopCameraStream();
+        isScanningId = false;
+        videoContainer.classList.add('capturing');
+        
+        if (!(await openCameraStream(video))) {
+            videoContainer.classList.remove('capturing');
+            return;
+        }
+        button.dataset.action = 'capture'; button.textContent = 'Capture';
+    } else if (action === 'capture') {
+        const canvas = document.getElementById('photo-canvas') as HTMLCanvasElement;
+        const context = canvas.getContext('2d');
+        canvas.width = video.videoWidth; canvas.height = video.videoHeight;
+        context?.drawImage(video, 0, 0, canvas.width, canvas.height);
+        
+        const dataUrl = canvas.toDataURL('image/jpeg', 0.9);
+        stopCameraStream();
+
+        if (isScanningId) {
+            // Put the form back as it was without re-rendering, so typed details survive.
+            isScanningId = false;
+            videoContainer.classList.remove('capturing');
+            button.dataset.action = state.capturedPhotoData ? 'retake' : 'open';
+            button.textContent = state.capturedPhotoData ? 'Retake Snapshot' : 'Take Snapshot';
+            (document.getElementById('scan-id-btn') as HTMLButtonElement | null)?.removeAttribute('disabled');
+            fillFromIdDocument(button.form, dataUrl);
+            return;
+        }
+        
+        // This will cause a re-render to show the photo and update button text
+        setState({ capturedPhotoData: dataUrl });
+    }
+}
+
+async function handleScanId(e: Event) {
+    const scanButton = e.currentTarget as HTMLButtonElement;
+    const cameraButton = document.getElementById('camera-action-btn') as HTMLButtonElement;
+    const video = document.getElementById('video-feed') as HTMLVideoElement;
+    const videoContainer = document.querySelector('.photo-capture-area') as HTMLElement;
+
+    stopCameraStream();
+    videoContainer.classList.add('capturing');
+    if (!(await openCameraStream(video))) {
+        videoContainer.classList.remove('capturing');
+        return;
+    }
+    isScanningId = true;
+    scanButton.disabled = true;
+    cameraButton.dataset.action = 'capture'; cameraButton.textContent = 'Capture ID';
+}
+
+// Fills the name and masked document number in place. The full number is never kept.
+async function fillFromIdDocument(form: HTMLFormElement | null, imageDataUrl: string) {
+    const note = document.getElementById('id-scan-note');
+    if (!form || !note) return;
+    note.textContent = 'Reading the document...';
+    try {
+        const reading = await readIdDocument(imageDataUrl);
+        if (!reading) {
+            note.textContent = 'The document could not be read. Please try again or type the name in.';
+            return;
+        }
+        (form.elements.namedItem('name') as HTMLInputElement).value = reading.name;
+        (form.elements.namedItem('idDocument') as HTMLInputElement).value = maskDocumentNumber(reading.documentNumber);
+        note.textContent = 'Filled from the ID. Please check the name against the document.';
+    } catch (error) {
+        console.error("Failed to read the ID document:", error);
+        note.textContent = 'The document could not be read. Please try again or type the name in.';
+    }
+}
+
+function stopCameraStream() {
+    if (state.cameraStream) {
+        state.cameraStream.getTracks().forEach(track => track.stop());
+        state.cameraStream = null;
+    }
+}
+
+// Fills the vehicle fields from the snapshot in place, so anything already typed in the form is kept.
+// The guard can still correct the reading before saving.
+async function handleReadPlate(e: Event) {
+    const button = e.currentTarget as HTMLButtonElement;
+    const form = button.form;
+    const note = document.getElementById('plate-reading-note');
+    // Only a fresh snapshot is read; a stored photo is just an image id.
+    if (!form || !note || !state.capturedPhotoData?.startsWith('data:')) return;
+
+    button.disabled = true; button.textContent = 'Reading...';
+    try {
+        const reading = await readPlate(state.capturedPhotoData);
+        if (!reading) {
+            note.textContent = 'No plate could be read from the snapshot.';
+            return;
+        }
+        (form.elements.namedItem('vehicle') as HTMLInputElement).value = reading.plate;
+        if (reading.carBrand) (form.elements.namedItem('carBrand') as HTMLInputElement).value = reading.carBrand;
+        note.textContent = await describePlateMatches(reading.plate);
+    } catch (error) {
+        console.error("Failed to read the plate:", error);
+        note.textContent = 'Could not read the plate. Please type it in.';
+    } finally {
+        button.disabled = false; button.textContent = 'Read Plate';
+    }
+}
+
+// Only users who can see every visitor are told where else the plate has been seen. If the lookup
+// fails the reading is still shown.
+async function describePlateMatches(plate: string): Promise<string> {
+    const parts = [`Read ${plate}. Please check it against the vehicle.`];
+    if (!can(state.currentUser, 'visitor.viewAll')) return parts.join(' ');
+    try {
+        const { residentVehicles, visits } = await lookUpPlate(plate);
+        if (residentVehicles.length > 0) parts.push(`Registered to ${residentVehicles[0].unitNo}.`);
+        if (visits.length > 0) parts.push(`Seen on ${visits.length === PLATE_LOOKUP_VISITS ? 'at least ' : ''}${visits.length} earlier visit${visits.length === 1 ? '' : 's'}, last with ${visits[0].name} visiting ${visits[0].resident}.`);
+    } catch (error) {
+        console.error("Failed to look up plate:", error);
+    }
+    return parts.join(' ');
+}
+
+// --- VISITOR PASS HANDLERS ---
+async function handleShowPass(id: number) {
+    if (state.isOfflineMode) {
+        alert('Visitor passes are signed by the server, so they are not available in offline mode.');
+        return;
+    }
+    try {
+        const { token } = await apiRequest<{ visitorId: number; token: string }>(`/api/passes/${id}`);
+        const passQrDataUrl = await qrCodeToDataURL(token, { width: 320, margin: 1 });
+        setState({ passVisitorId: id, passQrDataUrl });
+    } catch (error) {
+        console.error("Failed to load visitor pass:", error);
+        alert(error instanceof ApiError ? error.message : 'Could not load the visitor pass. Please try again.');
+    }
+}
+
+function handleClosePassModal() { setState({ passVisitorId: null, passQrDataUrl: null }); }
+
+// Lays the pass out on a canvas so the PNG and PDF downloads look the same.
+function drawPassCanvas(visitor: Visitor, qrDataUrl: string): Promise<HTMLCanvasElement> {
+    return new Promise((resolve, reject) => {
+        const qrImage = new Image();
+        qrImage.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = 400; canvas.height = 560;
+            const context = canvas.getContext('2d');
+            if (!context) { reject(new Error('Canvas is not supported')); return; }
+
+            context.fillStyle = '#ffffff';
+            context.fillRect(0, 0, canvas.width, canvas.height);
+            context.fillStyle = '#007bff';
+            context.fillRect(0, 0, canvas.width, 64);
+
+            context.textAlign = 'center';
+            context.fillStyle = '#ffffff';
+            context.font = '600 22px Inter, sans-serif';
+            context.fillText(state.companyInfo.name, 200, 41);
+            context.fillStyle = '#212529';
+            context.font = '600 20px Inter, sans-serif';
+            context.fillText(visitor.name, 200, 104);
+            context.fillStyle = '#6c757d';
+            context.font = '15px Inter, sans-serif';
+            context.fillText(`Visiting ${visitor.resident}`, 200, 130);
+            if (visitor.expectedArrival) {
+                context.fillText(`${formatDateTime(visitor.expectedArrival)} - ${formatDateTime(visitor.expectedDeparture)}`, 200, 152);
+            }
+            context.drawImage(qrImage, 60, 176, 280, 280);
+            context.font = '13px Inter, sans-serif';
+            context.fillText('Show this code to security at the gate', 200, 492);
+            resolve(canvas);
+        };
+        qrImage.onerror = reject;
+        qrImage.src = qrDataUrl;
+    });
+}
+
+function downloadDataUrl(dataUrl: string, filename: string) {
+    const link = document.createElement('a');
+    link.href = dataUrl;
+    link.download = filename;
+    link.click();
+}
+
+async function handleDownloadPass(format: 'png' | 'pdf') {
+    const visitor = state.visitors.find(v => v.id === state.passVisitorId);
+    if (!visitor || !state.passQrDataUrl) return;
+
+    const canvas = await drawPassCanvas(visitor, state.passQrDataUrl);
+    const filename = `visitor-pass-${visitor.name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+    if (format === 'png') {
+        downloadDataUrl(canvas.toDataURL('image/png'), `${filename}.png`);
+        return;
+    }
+    // A6 is close enough to the canvas's 5:7 proportions to print without distortion.
+    const pdf = new jsPDF({ unit: 'mm', format: 'a6' });
+    pdf.addImage(canvas.toDataURL('image/png'), 'PNG', 0, 0, 105, 147);
+    pdf.save(`${filename}.pdf`);
+}
+
+// --- REPORT EXPORTS ---
+type ExportFilters = Omit<VisitorFilters, 'sort'>;
+
+function handleExportClick() { setState({ isExportModalOpen: true }); }
+function handleCloseExportModal() { setState({ isExportModalOpen: false }); }
+
+async function handleExportSubmit(event: Event) {
+    event.preventDefault();
+    const formData = new FormData(event.target as HTMLFormElement);
+    const filters: ExportFilters = {
+        statuses: formData.getAll('export-status') as VisitorStatus[],
+        from: formData.get('export-from') as string,
+        to: formData.get('export-to') as string,
+        block: formData.get('export-block') as string,
+        unit: formData.get('export-unit') as string,
+        purpose: (formData.get('export-purpose') as string).trim().toUpperCase(),
+    };
+    if (filters.from && filters.to && filters.to < filters.from) {
+        alert('The report period must end on or after the day it starts.');
+        return;
+    }
+
+    setState({ isExporting: true });
+    try {
+        const visitors = await fetchExportVisitors(filters);
+        const filename = `visitor-report-${filters.from || 'start'}-to-${filters.to || 'today'}`;
+        if (formData.get('export-format') === 'csv') downloadVisitorCsv(visitors, filename);
+        else await downloadVisitorReportPdf(visitors, filters, filename);
+        setState({ isExporting: false, isExportModalOpen: false });
+    } catch (error) {
+        console.error("Failed to export visitors:", error);
+        setState({ isExporting: false });
+        alert(error instanceof ApiError ? error.message : 'Could not export the report. Please try again.');
+    }
+}
+
+// Offline there is no server to ask, so the report is made from the sample data.
+async function fetchExportVisitors(filters: ExportFilters): Promise<Visitor[]> {
+    if (state.isOfflineMode) {
+        return state.visitors
+            .filter(v => matchesVisitorFilters(v, { ...filters, sort: 'oldest' }, ''))
+            .sort((a, b) => compareVisitors(a, b, 'oldest'));
+    }
+    const params = new URLSearchParams();
+    if (filters.statuses.length > 0) params.set('status', filters.statuses.join(','));
+    // The dates are local calendar days, so they're widened to cover the whole day.
+    if (filters.from) params.set('from', new Date(`${filters.from}T00:00:00`).toISOString());
+    if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+    if (filters.block) params.set('block', filters.block);
+    if (filters.unit) params.set('unit', filters.unit);
+    if (filters.purpose) params.set('purpose', filters.purpose);
+    return apiRequest<Visitor[]>(`/api/exports/visitors?${params}`);
+}
+
+const EXPORT_COLUMNS: { title: string; value: (visitor: Visitor) => string }[] = [
+    { title: 'Visit ID', value: v => String(v.id) },
+    { title: 'Name', value: v => v.name },
+    { title: 'Contact', value: v => v.contact },
+    { title: 'ID Document', value: v => v.idDocument ?? '' },
+    { title: 'Unit', value: v => v.resident },
+    { title: 'Purpose', value: v => v.purpose },
+    { title: 'Vehicle', value: v => v.vehicle ?? '' },
+    { title: 'Car Brand', value: v => v.carBrand ?? '' },
+    { title: 'Status', value: v => v.status },
+    { title: 'Expected Arrival', value: v => v.expectedArrival ?? '' },
+    { title: 'Expected Departure', value: v => v.expectedDeparture ?? '' },
+    { title: 'Checked In', value: v => v.checkInTime ?? '' },
+    { title: 'Checked Out', value: v => v.checkOutTime ?? '' },
+    { title: 'Parking Bay', value: v => v.parkingBay ?? '' },
+    { title: 'Decided By', value: v => v.decidedBy ?? '' },
+    { title: 'Pre-registered', value: v => v.preRegistered ? 'Yes' : 'No' },
+];
+
+// Quotes cells that need it, and defuses values a spreadsheet would otherwise run as a formula.
+function csvCell(value: string): string {
+    const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function downloadVisitorCsv(visitors: Visitor[], filename: string) {
+    const rows = [EXPORT_COLUMNS.map(c => c.title), ...visitors.map(v => EXPORT_COLUMNS.map(c => c.value(v)))];
+    // The byte order mark makes Excel open the file as UTF-8.
+    const csv = '\uFEFF' + rows.map(row => row.map(csvCell).join(',')).join('\r\n');
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    downloadDataUrl(url, `${filename}.csv`);
+    // Some browsers only start the download after the click returns, so the URL is kept a little longer.
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// jsPDF only embeds PNG and JPEG, so the logo is redrawn as PNG first. Null if it can't be loaded.
+function loadImageAsPng(src: string): Promise<string | null> {
+    return new Promise(resolve => {
+        const image = new Image();
+        image.onload = () => {
+            const canvas = document.createElement('canvas');
+            canvas.width = image.naturalWidth;
+            canvas.height = image.naturalHeight;
+            canvas.getContext('2d')?.drawImage(image, 0, 0);
+            resolve(canvas.toDataURL('image/png'));
+        };
+        image.onerror = () => resolve(null);
+        image.src = src;
+    });
+}
+
+function describeExportFilters(filters: ExportFilters): string {
+    const day = (value: string) => new Date(`${value}T00:00:00`).toLocaleDateString();
+    const period = filters.from || filters.to
+        ? `${filters.from ? day(filters.from) : 'The start'} to ${filters.to ? day(filters.to) : 'today'}`
+        : 'All dates';
+    return [
+        period,
+        filters.block && !filters.unit ? `Block ${filters.block}` : '',
+        filters.unit ? `Unit ${filters.unit}` : '',
+        filters.purpose ? `Purpose ${filters.purpose}` : '',
+        filters.statuses.join(', '),
+    ].filter(Boolean).join('  |  ');
+}
+
+const REPORT_COLUMNS: { title: string; width: number; value: (visitor: Visitor) => string }[] = [
+    { title: 'Date', width: 32, value: v => formatDateTime(new Date(visitTime(v)).toISOString()) },
+    { title: 'Name', width: 48, value: v => v.name },
+    { title: 'Contact', width: 28, value: v => v.contact },
+    { title: 'Unit', width: 18, value: v => v.resident },
+    { title: 'Purpose', width: 32, value: v => v.purpose },
+    { title: 'Vehicle', width: 26, value: v => v.vehicle ?? '' },
+    { title: 'Status', width: 22, value: v => v.status },
+    { title: 'Checked In', width: 33, value: v => v.checkInTime ? formatDateTime(v.checkInTime) : '' },
+    { title: 'Checked Out', width: 33, value: v => v.checkOutTime ? formatDateTime(v.checkOutTime) : '' },
+];
+
+// A printable A4 report: the company's letterhead, the filters used, a summary and one row per visit.
+async function downloadVisitorReportPdf(visitors: Visitor[], filters: ExportFilters, filename: string) {
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4', orientation: 'landscape' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const pageHeight = pdf.internal.pageSize.getHeight();
+    const margin = 12;
+    const company = state.companyInfo;
+
+    const logo = company.logo ? await loadImageAsPng(imageSrc(company.logo)) : null;
+    const textLeft = logo ? margin + 22 : margin;
+    if (logo) pdf.addImage(logo, 'PNG', margin, 10, 18, 18);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(16);
+    pdf.setTextColor(33, 37, 41);
+    pdf.text(company.name || 'Visitor Management System', textLeft, 16);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(108, 117, 125);
+    pdf.text([company.address, [company.personInCharge, company.contactNumber].filter(Boolean).join(', ')].filter(Boolean), textLeft, 21);
+    pdf.setDrawColor(0, 123, 255);
+    pdf.setLineWidth(0.6);
+    pdf.line(margin, 31, pageWidth - margin, 31);
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(13);
+    pdf.setTextColor(33, 37, 41);
+    pdf.text('Visitor Report', margin, 39);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(108, 117, 125);
+    pdf.text(describeExportFilters(filters), margin, 44);
+    pdf.text(`Generated ${formatDateTime(new Date().toISOString())} by ${state.currentUser?.username ?? ''}`, margin, 48);
+
+    const countBy = (key: (v: Visitor) => string) => Object.entries(visitors.reduce((acc, v) => {
+        acc[key(v)] = (acc[key(v)] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>)).sort(([, a], [, b]) => b - a);
+    pdf.setTextColor(33, 37, 41);
+    pdf.text(`${visitors.length} visit${visitors.length === 1 ? '' : 's'}: ${countBy(v => v.status).map(([status, count]) => `${count} ${status}`).join(', ') || 'none'}`, margin, 55);
+    pdf.text(`By purpose: ${countBy(v => v.purpose).map(([purpose, count]) => `${purpose} ${count}`).join(', ') || 'none'}`, margin, 60, { maxWidth: pageWidth - margin * 2 });
+
+    // The column headings are repeated at the top of every page.
+    const rowHeight = 6;
+    const drawHeaderRow = (top: number) => {
+        pdf.setFillColor(233, 236, 239);
+        pdf.rect(margin, top - 4, pageWidth - margin * 2, rowHeight, 'F');
+        pdf.setFont('helvetica', 'bold');
+        let x = margin + 1;
+        for (const column of REPORT_COLUMNS) {
+            pdf.text(column.title, x, top);
+            x += column.width;
+        }
+        pdf.setFont('helvetica', 'normal');
+        return top + rowHeight;
+    };
+
+    let y = drawHeaderRow(70);
+    for (const visitor of visitors) {
+        if (y > pageHeight - 14) {
+            pdf.addPage();
+            y = drawHeaderRow(16);
+        }
+        let x = margin + 1;
+        for (const column of REPORT_COLUMNS) {
+            pdf.text(pdf.splitTextToSize(column.value(visitor), column.width - 2)[0] ?? '', x, y);
+            x += column.width;
+        }
+        y += rowHeight;
+    }
+    if (visitors.length === 0) pdf.text('No visits match these filters.', margin + 1, y);
+
+    const pages = pdf.getNumberOfPages();
+    pdf.setFontSize(8);
+    pdf.setTextColor(108, 117, 125);
+    for (let page = 1; page <= pages; page++) {
+        pdf.setPage(page);
+        pdf.text(`Page ${page} of ${pages}`, pageWidth - margin, pageHeight - 6, { align: 'right' });
+    }
+    pdf.save(`${filename}.pdf`);
+}
+
+
+// --- GATE SCANNER HANDLERS ---
+const SCAN_REPEAT_DELAY_MS = 3000;
+let scanFrameRequest: number | null = null;
+let lastScan = { token: '', at: 0 };
+let isResolvingScan = false;
+
+async function handleScannerClick() {
+    stopScanner();
+    setState({ currentView: 'scanner', scanResult: null });
+    const video = document.getElementById('scanner-video') as HTMLVideoElement | null;
+    if (video && await openCameraStream(video)) {
+        scanFrameRequest = requestAnimationFrame(scanVideoFrame);
+    }
+}
+
+function stopScanner() {
+    if (scanFrameRequest !== null) cancelAnimationFrame(scanFrameRequest);
+    scanFrameRequest = null;
+    stopCameraStream();
+}
+
+// Looks for a QR code in the current camera frame, once per animation frame.
+function scanVideoFrame() {
+    scanFrameRequest = requestAnimationFrame(scanVideoFrame);
+    // Looked up every frame, since a re-render replaces these elements.
+    const video = document.getElementById('scanner-video') as HTMLVideoElement | null;
+    const canvas = document.getElementById('scanner-canvas') as HTMLCanvasElement | null;
+    if (!video || !canvas || video.readyState !== video.HAVE_ENOUGH_DATA || isResolvingScan) return;
+
+    canvas.width = video.videoWidth; canvas.height = video.videoHeight;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) return;
+    context.drawImage(video, 0, 0, canvas.width, canvas.height);
+    const code = jsQR(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+    if (!code) return;
+
+    // A pass stays in view for many frames, so act on it once.
+    if (code.data === lastScan.token && Date.now() - lastScan.at < SCAN_REPEAT_DELAY_MS) return;
+    lastScan = { token: code.data, at: Date.now() };
+    handlePassScanned(code.data);
+}
+
+async function handlePassScanned(token: string) {
+    isResolvingScan = true;
+    try {
+        const visitor = await apiRequest<Visitor>('/api/passes', 'POST', { token });
+        // Start from the server's copy, so the check-in isn't based on a stale record.
+        state.visitors = state.visitors.some(v => v.id === visitor.id)
+            ? state.visitors.map(v => v.id === visitor.id ? visitor : v)
+            : [visitor, ...state.visitors];
+
+        if (visitor.status === 'Approved') {
+            const result = await handleCheckIn(visitor.id);
+            const scanResult = {
+                'checked-in': { success: true, message: `${visitor.name} checked in to visit ${visitor.resident}.` },
+                'needs-bay': { success: true, message: `${visitor.name} came by car. Choose a parking bay to finish checking them in.` },
+                'stopped': { success: false, message: `${visitor.name} was not checked in.` },
+                'sent-back': { success: false, message: `${visitor.name} arrived outside their expected window. The visit needs approval again.` },
+                'refused': { success: false, message: `${visitor.name} cannot pass: ${result.outcome === 'refused' ? result.reason : ''}` },
+            }[result.outcome];
+            setState({ scanResult });
+        } else if (visitor.status === 'Checked-in') {
+            const result = await handleCheckOut(visitor.id);
+            setState({
+                scanResult: result.outcome === 'checked-out'
+                    ? { success: true, message: `${visitor.name} checked out.` }
+                    : { success: false, message: `${visitor.name} was not checked out: ${result.reason}` },
+            });
+        } else {
+            setState({ scanResult: { success: false, message: `${visitor.name} cannot pass: this visit is ${visitor.status}.` } });
+        }
+    } catch (error) {
+        console.error("Failed to verify scanned pass:", error);
+        setState({ scanResult: { success: false, message: error instanceof ApiError ? error.message : 'Could not verify this pass. Please try again.' } });
+    } finally {
+        isResolvingScan = false;
+    }
+}
+
+// --- CHATBOT HANDLERS ---
+function handleToggleChat() {
+    const willBeOpen = !state.isChatOpen;
+    if (willBeOpen) {
+        // When opening the chat, if the user has an active chat, resume it.
+        // Otherwise, show the form to start a new one.
+        const activeChat = state.pendingChats.find(c => c.id === state.activeChatId);
+        if (activeChat && !can(state.currentUser, 'chat.reply')) {
+             setState({
+                isChatOpen: true,
+                viewingChatId: null,
+                chatMessages: activeChat.messages, // Restore messages
+                chatState: 'chatting',
+            });
+        } else {
+            // Default to starting a new chat
+            setState({
+                isChatOpen: true,
+                viewingChatId: null, // Clear any admin view
+                chatState: 'pre-form', // Show the form
+                chatMessages: [],
+                activeChatId: null, // Ensure any lingering ID is cleared if we're showing the form
+            });
+        }
+    } else {
+        // --- Closing the chat window ---
+        const activeChat = state.pendingChats.find(c => c.id === state.activeChatId || c.id === state.viewingChatId);
+        const isLockedForUser = !can(state.currentUser, 'chat.reply') && activeChat?.adminReplied;
+
+        // If the chat is locked, closing it is an acknowledgment. Reset the user's chat state.
+        if (isLockedForUser) {
+             sessionStorage.removeItem('activeChatId');
+             setState({
+                isChatOpen: false,
+                chatState: 'pre-form',
+                chatMessages: [],
+                isBotTyping: false,
+                chatSession: null,
+                activeChatId: null,
+                viewingChatId: null,
+            });
+        } else {
+            // If not locked, or for an admin, just close the window.
+            // This preserves the resident's activeChatId for later.
+            setState({
+                isChatOpen: false,
+                viewingChatId: null, // Always reset admin view on close
+            });
+        }
+    }
+}
+
+async function handleStartChatSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const formData = new FormData(form);
+    const name = formData.get('chat-name') as string;
+    const block = formData.get('chat-block') as string;
+    const houseNo = formData.get('chat-houseNo') as string;
+    const initialQuery = (formData.get('chat-initial-query') as string).trim();
+
+    if (!name || !block || !houseNo || !initialQuery) {
+        alert("Please fill out all fields to start the chat.");
+        return;
+    }
+
+    const systemInstruction = `You are ResiBot, a helpful AI assistant for the ResiGuard Visitor Management System. You assist both residents and staff. A user has initiated a chat. Their details and initial query are provided in the first message context. Your primary role is to be helpful and answer their questions based on the provided real-time system data which includes a list of all visitors. If you are asked to perform an action (like pre-registering a visitor), state that you will assist and provide a structured summary of the request for confirmation. For example: 'Ok, I can help pre-register a visitor. Please provide their name, purpose of visit, and expected arrival time.'. You can also answer questions about visitor statuses, counts, and details for specific residents. Always be professional, friendly, and concise.`;
+    const chatInstance = getAi().chats.create({
+        model: 'gemini-2.5-flash',
+        config: { systemInstruction },
+    });
+
+    const firstUserMessage: ChatMessage = { sender: 'user', text: initialQuery };
+    const newChatId = Date.now();
+
+    // Track active chat in both state and tab-specific session storage
+    sessionStorage.setItem('activeChatId', newChatId.toString());
+
+    setState({
+        chatSession: chatInstance,
+        chatState: 'chatting',
+        chatMessages: [firstUserMessage],
+        isBotTyping: true,
+        activeChatId: newChatId,
+    });
+
+    try {
+        const visitorSummary = state.visitors.map(v => ({
+            name: v.name, status: v.status, visiting: v.resident, purpose: v.purpose
+        }));
+        const context = {
+            initiatingUser: { name: name, role: state.currentUser?.role, unit: `${block}-${houseNo}` },
+            currentVisitorList: visitorSummary,
+        };
+        const prompt = `CONTEXT:\n${JSON.stringify(context, null, 2)}\n\nUSER'S INITIAL QUERY:\n${initialQuery}`;
+        
+        const response = await chatInstance.sendMessage({ message: prompt });
+        const botText = response.text;
+        const firstBotMessage: ChatMessage = { sender: 'bot', text: botText };
+        const finalMessages = [firstUserMessage, firstBotMessage];
+
+        const pendingChat: PendingChat = {
+            id: newChatId,
+            userId: state.currentUser?.id || null,
+            userName: name,
+            unit: `${block}-${houseNo}`,
+            initialQuery: initialQuery,
+            messages: finalMessages,
+            dismissed: false,
+            adminReplied: false,
+        };
+        
+        // The server assigns the final id, so the active chat is re-pointed at it.
+        const newPendingChat = await createRecord('/api/chats', pendingChat);
+        const updatedPendingChats = upsertRecord(state.pendingChats, newPendingChat);
+        sessionStorage.setItem('activeChatId', newPendingChat.id.toString());
+
+        setState({
+            chatMessages: finalMessages,
+            isBotTyping: false,
+            pendingChats: updatedPendingChats,
+            activeChatId: newPendingChat.id,
+        });
+
+    } catch (error) {
+        console.error("Gemini API Error:", error);
+        const errorMessage = "Sorry, I'm having trouble connecting. Please try again later.";
+        setState({
+            chatMessages: [...state.chatMessages, { sender: 'bot', text: errorMessage }],
+            isBotTyping: false,
+        });
+    }
+}
+
+async function handleUserChatSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const input = form.querySelector('#chat-input') as HTMLInputElement;
+    const userInput = input.value.trim();
+
+    if (!userInput || !state.chatSession || !state.activeChatId) return;
+
+    const userMessage: ChatMessage = { sender: 'user', text: userInput };
+    const currentMessages = state.chatMessages.slice();
+    currentMessages.push(userMessage);
+
+    setState({ chatMessages: currentMessages, isBotTyping: true });
+    
+    const baseChat = state.pendingChats.find(chat => chat.id === state.activeChatId);
+    const updatedPendingChats = state.pendingChats.map(chat =>
+        chat.id === state.activeChatId ? { ...chat, messages: currentMessages } : chat
+    );
+    setState({ pendingChats: updatedPendingChats });
+    if (baseChat) saveChatChanges(baseChat, { messages: currentMessages });
+
+    input.value = '';
+
+    try {
+        const response = await state.chatSession.sendMessage({ message: userInput });
+        const botText = response.text;
+        const botMessage: ChatMessage = { sender: 'bot', text: botText };
+        const finalMessages = [...currentMessages, botMessage];
+
+        const activeChat = state.pendingChats.find(chat => chat.id === state.activeChatId);
+        const finalPendingChats = state.pendingChats.map(chat =>
+            chat.id === state.activeChatId ? { ...chat, messages: finalMessages } : chat
+        );
+
+        setState({
+            chatMessages: finalMessages,
+            isBotTyping: false,
+            pendingChats: finalPendingChats,
+        });
+        if (activeChat) saveChatChanges(activeChat, { messages: finalMessages });
+
+    } catch (error) {
+        console.error("Gemini API Error:", error);
+        const errorMessage = "Sorry, I'm having trouble connecting right now. Please try again later.";
+        const errorMessages = [...currentMessages, { sender: 'bot' as const, text: errorMessage }];
+        setState({
+            chatMessages: errorMessages,
+            isBotTyping: false,
+        });
+    }
+}
+
+async function handleAdminChatSubmit(event: Event) {
+    event.preventDefault();
+    const form = event.target as HTMLFormElement;
+    const input = form.querySelector('#chat-input') as HTMLInputElement;
+    const adminInput = input.value.trim();
+
+    if (!adminInput || !state.viewingChatId) return;
+
+    const adminMessage: ChatMessage = { sender: 'admin', text: adminInput };
+    const viewingChatId = state.viewingChatId;
+
+    const updatedPendingChats = state.pendingChats.map(chat => {
+        if (chat.id === viewingChatId) {
+            const newMessages = [...chat.messages, adminMessage];
+            // Also update the live chat view
+            setState({ chatMessages: newMessages });
+            saveChatChanges(chat, { messages: newMessages, adminReplied: true });
+            return { ...chat, messages: newMessages, adminReplied: true };
+        }
+        return chat;
+    });
+    
+    setState({ pendingChats: updatedPendingChats });
+    
+    input.value = '';
+}
+
+function handleCloseChatNotificationModal() { setState({ isChatNotificationModalOpen: false }); }
+
+function handleReplyToChat(chatId: number) {
+    const chatToView = state.pendingChats.find(c => c.id === chatId);
+    if (!chatToView) return;
+
+    setState({
+        isChatNotificationModalOpen: false,
+        isChatOpen: true,
+        chatState: 'chatting',
+        viewingChatId: chatId,
+        chatMessages: chatToView.messages,
+    });
+}
+
+function handleDismissChat(chatId: number) {
+    const chat = state.pendingChats.find(c => c.id === chatId);
+    const updatedChats = state.pendingChats.map(c =>
+        c.id === chatId ? { ...c, dismissed: true } : c
+    );
+    const stillPending = updatedChats.some(c => !c.dismissed);
+    setState({
+        pendingChats: updatedChats,
+        isChatNotificationModalOpen: stillPending,
+    });
+    if (chat) saveChatChanges(chat, { dismissed: true });
+}
+
+// --- HELPERS (continued) ---
+function getInitials(name: string): string {
+    if (!name) return '??';
+    const parts = name.trim().split(' ');
+    if (parts.length > 1) return `${parts[0][0]}${parts[parts.length - 1][0]}`.toUpperCase();
+    return `${parts[0]?.[0] || ''}`.toUpperCase();
+}
+
+function getAvatarColor(name: string): string {
+    const avatarColors = ['#e57373', '#81c784', '#64b5f6', '#ffb74d', '#9575cd', '#4db6ac', '#f06292'];
+    const colorIndex = (name.charCodeAt(0) || 0) % avatarColors.length;
+    return avatarColors[colorIndex];
+}
+
+function formatTimeAgo(date: Date): string {
+    const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
+    if (seconds < 5) return "just now";
+    let interval = seconds / 31536000; if (interval > 1) return Math.floor(interval) + " years ago";
+    interval = seconds / 2592000; if (interval > 1) return Math.floor(interval) + " months ago";
+    interval = seconds / 86400; if (interval > 1) return Math.floor(interval) + " days ago";
+    interval = seconds / 3600; if (interval > 1) return Math.floor(interval) + " hours ago";
+    interval = seconds / 60; if (interval > 1) return Math.floor(interval) + " minutes ago";
+    return Math.floor(seconds) + " seconds ago";
+}
+
+function formatDateTime(isoString?: string): string {
+    if (!isoString) return 'N/A';
+    try {
+        const date = new Date(isoString);
+        return date.toLocaleString(undefined, {
+            year: 'numeric',
+            month: 'short',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: '2-digit',
+            hour12: true,
+        });
+    } catch (e) {
+        return 'Invalid Date';
+    }
+}
+
+function formatTime(date: Date): string {
+    return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
+
+// Splits a unit label such as "A-101" into its block and house number.
+function parseUnitNo(unitNo: string): { block: string; houseNo: string } | null {
+    const unitParts = unitNo.split('-');
+    return unitParts.length === 2 ? { block: unitParts[0], houseNo: unitParts[1] } : null;
+}
+
+// Converts an ISO timestamp into the local "yyyy-mm-ddThh:mm" value a datetime-local input expects.
+function toDateTimeInputValue(isoString?: string): string {
+    if (!isoString) return '';
+    const date = new Date(isoString);
+    return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// The server stores text exactly as it was sent, so anything from a record is escaped before it
+// goes into a template; otherwise a visitor's name could carry a script into a guard's browser.
+function escapeHtml(value: unknown): string {
+    return String(value ?? '').replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function getHouseNoOptionsHTML(block: string, selectedHouseNo?: string): string {
+    if (!block) return '<option value="">-- Select a Block First --</option>';
+
+    const unitsForBlock = state.predefinedUnits
+        .filter(u => u.block === block)
+        .sort((a, b) => a.houseNo.localeCompare(b.houseNo, undefined, { numeric: true }));
+
+    if (unitsForBlock.length === 0) {
+        return '<option value="">-- No Units in this Block --</option>';
+    }
+
+    return [
+        '<option value="">-- Select House No. --</option>',
+        ...unitsForBlock.map(unit =>
+            `<option value="${escapeHtml(unit.houseNo)}" ${unit.houseNo === selectedHouseNo ? 'selected' : ''}>${escapeHtml(unit.houseNo)}</option>`
+        )
+    ].join('');
+}
+
+
+// --- RENDER FUNCTIONS ---
+function renderLoginPage() {
+    return `
+        <div class="login-container">
+            <div class="login-card">
+                 <svg class="login-logo" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
+                    <path d="M12 2L2 7L12 12L22 7L12 2Z" fill="var(--primary-color)"></path>
+                    <path d="M2 17L12 22L22 17" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
+                    <path d="M2 12L12 17L22 12" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
+                    <path d="M2 7L12 12L22 7" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
+                    <path d="M12 2L12 12" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
+                </svg>
+                <h1 class="login-title">ResiGuard</h1>
+                <p class="login-subtitle">Secure Visitor Management</p>
+                ${state.loginError ? `<div class="login-error">${escapeHtml(state.loginError)}</div>` : ''}
+                ${state.loginChallenge ? `
+                    <form id="two-factor-login-form">
+                        <div class="form-group">
+                            <label for="twoFactorCode">Authentication Code</label>
+                            <input type="text" id="twoFactorCode" name="code" inputmode="numeric" autocomplete="one-time-code" required>
+                            <small class="visitor-note">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</small>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-full-width">Verify</button>
+                    </form>
+                    <p class="login-hint"><a href="#" id="cancel-two-factor-link">Back to login</a></p>
+                ` : state.isRedeemingInvite ? `
+                    <form id="invite-form">
+                        <div class="form-group">
+                            <label for="inviteCode">Invite Code</label>
+                            <input type="text" id="inviteCode" name="inviteCode" class="uppercase-input" placeholder="e.g., ABCD-EFGH" autocomplete="off" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="newPassword">Choose a Password</label>
+                            <input type="password" id="newPassword" name="newPassword" autocomplete="new-password" required>
+                            <small class="visitor-note">${describePasswordPolicy()}</small>
+                        </div>
+                        <div class="form-group">
+                            <label for="confirmPassword">Confirm Password</label>
+                            <input type="password" id="confirmPassword" name="confirmPassword" autocomplete="new-password" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-full-width">Set Password and Log In</button>
+                    </form>
+                    <p class="login-hint"><a href="#" id="show-login-link">Back to login</a></p>
+                ` : `
+                    <form id="login-form">
+                        <div class="form-group">
+                            <label for="username">Username</label>
+                            <input type="text" id="username" name="username" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="password">Password</label>
+                            <input type="password" id="password" name="password" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary btn-full-width">Login</button>
+                    </form>
+                    <p class="login-hint"><a href="#" id="show-invite-link">Have an invite code?</a></p>
+                    <p class="login-hint">Hint: Log in with credentials like admin/password, security/password, or resident101/password. You will be asked to choose a new password.</p>
+                `}
+            </div>
+        </div>
+    `;
+}
+
+function renderHeader() {
+    if (!state.currentUser) return '';
+
+    const defaultLogoSvg = `
+        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="50" height="50">
+            <path d="M12 2L2 7v10l10 5 10-5V7L12 2zm0 2.236L19.36 7 12 10.236 4.64 7 12 4.236zM4 9.123l8 4.5V19.9L4 15.4V9.123zm16 0V15.4l-8 4.5V13.623l8-4.5z"/>
+        </svg>
+    `;
+
+    const logoSrc = state.companyInfo.logo ? imageSrc(state.companyInfo.logo) : `data:image/svg+xml;base64,${btoa(defaultLogoSvg)}`;
+
+    return `
+        <header class="header">
+            <div class="header-branding">
+                <img src="${escapeHtml(logoSrc)}" alt="Company Logo" class="header-logo">
+                <div class="header-info-wrapper">
+                    <div class="header-title-role">
+                        <h1>${escapeHtml(state.companyInfo.name || 'Visitor Management System')}</h1>
+                        <span class="user-role-badge">${escapeHtml(state.currentUser.role)}</span>
+                    </div>
+                    <div class="header-sub-info">
+                        ${state.companyInfo.address ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path fill-rule="evenodd" d="M9.69 18.933l.003.001C9.89 19.02 10 19 10 19s.11.02.308-.066l.002-.001.006-.003.018-.008a5.741 5.741 0 00.281-.14c.186-.1.4-.223.654-.369.257-.146.533-.304.828-.475V5.111a1 1 0 00-1-1H4a1 1 0 00-1 1v12.315a1.8 1.8 0 01.228.859c.074.33.19.643.343.932.152.289.324.55.51.782.186.232.384.44.6.622l.01.008.004.003.002.001a.752.752 0 00.246.136.25.25 0 00.37-.246l-.004-.012-1.292-4.13a.75.75 0 01.943-.944l4.13 1.292a.25.25 0 00.246-.37zM14.25 5.25a.75.75 0 000-1.5H12a.75.75 0 000 1.5h2.25z" clip-rule="evenodd" /></svg>${escapeHtml(state.companyInfo.address)}</span>` : ''}
+                        ${state.companyInfo.personInCharge ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M10 8a3 3 0 100-6 3 3 0 000 6zM3.465 14.493a1.23 1.23 0 00.41 1.412A9.957 9.957 0 0010 18c2.31 0 4.438-.784 6.131-2.095a1.23 1.23 0 00.41-1.412A9.992 9.992 0 0010 12c-2.31 0-4.438.784-6.131 2.095z" /></svg>${escapeHtml(state.companyInfo.personInCharge)}</span>` : ''}
+                        ${state.companyInfo.contactNumber ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M3.52 7.377a1.858 1.858 0 012.793 0l.228.227.113.113a1.858 1.858 0 010 2.628l-.113.113-.228.228a1.858 1.858 0 01-2.628 0l-.895-.895a.25.25 0 00-.354 0l-.895.895a1.858 1.858 0 01-2.628 0l-.228-.228-.113-.113a1.858 1.858 0 010-2.628l.113-.113.228-.228a1.858 1.858 0 012.628 0l.895.895a.25.25 0 00.354 0l.895-.895zM16.48 7.377a1.858 1.858 0 012.628 0l.228.227.113.113a1.858 1.858 0 010 2.628l-.113.113-.228.228a1.858 1.858 0 01-2.628 0l-.895-.895a.25.25 0 00-.354 0l-.895.895a1.858 1.858 0 01-2.793 0l-.228-.228-.113-.113a1.858 1.858 0 010-2.628l.113-.113.228-.228a1.858 1.858 0 012.793 0l.895.895a.25.25 0 00.354 0l.895-.895z" /></svg>${escapeHtml(state.companyInfo.contactNumber)}</span>` : ''}
+                    </div>
+                </div>
+            </div>
+            <div class="header-actions">
+                 ${can(state.currentUser, 'company.manage') ? `
+                    <button id="company-setup-btn" class="btn btn-secondary">Company Profile</button>
+                ` : ''}
+                ${can(state.currentUser, 'users.manage') ? `
+                    <button id="user-roles-btn" class="btn btn-secondary">User Roles</button>
+                    <button id="roles-btn" class="btn btn-secondary">Permissions</button>
+                ` : ''}
+                ${can(state.currentUser, 'units.manage') ? `
+                    <button id="unit-management-btn" class="btn btn-secondary">Manage Units</button>
+                ` : ''}
+                ${can(state.currentUser, 'company.manage') ? `
+                    <button id="stay-policy-btn" class="btn btn-secondary">Stay Limits</button>
+                ` : ''}
+                ${can(state.currentUser, 'users.manage') ? `
+                    <button id="password-policy-btn" class="btn btn-secondary">Password Rules</button>
+                ` : ''}
+                ${can(state.currentUser, 'visitor.checkin') ? `
+                    <button id="scanner-btn" class="btn btn-info">Scan Pass</button>
+                ` : ''}
+                ${can(state.currentUser, 'visitor.viewAll') ? `
+                    <button id="overview-btn" class="btn btn-info">Overview</button>
+                    <button id="watchlist-btn" class="btn btn-secondary">Watchlist</button>
+                    <button id="parking-btn" class="btn btn-secondary">Parking</button>
+                ` : state.currentUser.unitNo ? `
+                    <button id="parking-btn" class="btn btn-secondary">My Vehicles</button>
+                ` : ''}
+                ${openAlerts().length > 0 ? `
+                    <button id="alerts-btn" class="btn btn-danger">Alerts (${openAlerts().length})</button>
+                ` : ''}
+                 <button id="account-btn" class="btn btn-secondary">My Account</button>
+                 <button id="logout-btn" class="btn btn-danger">Logout</button>
+            </div>
+        </header>
+    `;
+}
+
+function renderDashboardView() {
+    return `
+        ${renderHeader()}
+        <main class="main-content">
+            <div class="visitors-header">
+                <h2>Visitor Dashboard</h2>
+                <div class="visitors-header-actions">
+                    <div class="search-bar">
+                        <span class="search-icon">
+                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" viewBox="0 0 16 16">
+                                <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.1zM12 6.5a5.5 5.5 0 1 1-11 0 5.5 5.5 0 0 1 11 0z"/>
+                            </svg>
+                        </span>
+                        <input type="search" id="search-input" placeholder="Search by name, resident, vehicle..." value="${escapeHtml(state.searchQuery)}">
+                    </div>
+                    ${can(state.currentUser, 'visitor.register') ? `<button id="register-visitor-btn" class="btn btn-primary">Register New Visitor</button>`
+                        : can(state.currentUser, 'visitor.preregister') && state.currentUser?.unitNo ? `<button id="register-visitor-btn" class="btn btn-primary">Pre-register Visitor</button>` : ''}
+                    ${can(state.currentUser, 'visitor.register') || state.currentUser?.unitNo ? `<button id="schedules-btn" class="btn btn-secondary">Scheduled Visits</button>` : ''}
+                </div>
+            </div>
+            ${renderExpectedToday()}
+            ${renderVisitorFilters()}
+            <div id="visitor-grid-container">
+                ${renderVisitorsGrid()}
+            </div>
+        </main>
+    `;
+}
+
+function renderExpectedToday() {
+    const expected = state.schedules
+        .map(schedule => ({ schedule, window: scheduleWindowToday(schedule) }))
+        .filter((entry): entry is { schedule: VisitSchedule; window: { start: Date; end: Date } } => entry.window !== null)
+        .sort((a, b) => a.window.start.getTime() - b.window.start.getTime());
+    if (expected.length === 0) return '';
+
+    const canLogArrival = can(state.currentUser, 'visitor.register');
+
+    return `
+        <div class="card expected-today">
+            <h3>Expected Today</h3>
+            <ul class="expected-list">
+                ${expected.map(({ schedule, window }) => {
+                    const visit = todaysScheduledVisit(schedule);
+                    return `
+                        <li class="expected-item">
+                            <div class="expected-info">
+                                <strong>${escapeHtml(schedule.visitor.name)}</strong>
+                                <small>${escapeHtml(schedule.visitor.purpose)} for ${escapeHtml(schedule.visitor.resident)}, ${formatTime(window.start)} &ndash; ${formatTime(window.end)}</small>
+                            </div>
+                            ${visit ? `<div class="status status-${visit.status.toLowerCase().replace('-', '')}">${visit.status}</div>`
+                                : canLogArrival ? `<button class="btn btn-success btn-small" data-schedule-id="${schedule.id}">Arrived</button>`
+                                : '<span class="visitor-note">Not arrived yet</span>'}
+                        </li>
+                    `;
+                }).join('')}
+            </ul>
+        </div>
+    `;
+}
+
+function renderVisitorsGrid() {
+    const { currentUser } = state;
+    if (!currentUser) return '';
+
+    let filteredVisitors = visibleVisitors();
+
+    if (!can(currentUser, 'visitor.viewAll')) {
+        filteredVisitors = filteredVisitors.filter(v => v.resident === currentUser.unitNo);
+    }
+    
+    if (filteredVisitors.length === 0) {
+        return `<div class="no-visitors">${state.isLoadingVisitors ? 'Loading...' : 'No visitors found.'}</div>`;
+    }
+
+    const canEdit = can(currentUser, 'visitor.edit');
+    // Residents only see their own unit's visitors here, so they can answer every approval request shown
+    // that hasn't yet escalated to officers.
+    const canApprove = (visitor: Visitor) => can(currentUser, 'visitor.approve')
+        || (can(currentUser, 'visitor.respond') && !!currentUser.unitNo && isAwaitingResident(visitor));
+    const canCheckIn = can(currentUser, 'visitor.checkin');
+    const watchlistNote = (visitor: Visitor) => {
+        const match = watchlistMatches(visitor)[0];
+        return match ? `<div class="visitor-note watchlist-note">${match.action === 'block' ? 'Blocked' : 'On watchlist'}: ${escapeHtml(match.reason)}</div>` : '';
+    };
+
+    return `
+        <div class="visitor-grid">
+            ${filteredVisitors.map(visitor => `
+                <div class="visitor-card visitor-card-status-${visitor.status.toLowerCase().replace('-', '')} ${isOverstaying(visitor) ? 'visitor-card-overstay' : ''}">
+                    <div class="card-header">
+                        ${visitor.photo ? 
+                            `<img src="${escapeHtml(imageSrc(visitor.photo, 'thumb'))}" alt="${escapeHtml(visitor.name)}" class="visitor-avatar visitor-avatar-img">` :
+                            `<div class="visitor-avatar" style="background-color: ${getAvatarColor(visitor.name)};">${escapeHtml(getInitials(visitor.name))}</div>`
+                        }
+                        <div class="visitor-name-status">
+                            <h4>${escapeHtml(visitor.name)}</h4>
+                            <div class="status status-${visitor.status.toLowerCase().replace('-', '')}">${visitor.status}</div>
+                            ${visitor.preRegistered ? `<div class="visitor-note">Pre-registered by resident</div>` : ''}
+                            ${visitor.status === 'Pending' && visitor.residentApprovalDeadline ? `<div class="visitor-note">${isAwaitingResident(visitor) ? `Waiting for resident until ${formatTime(new Date(visitor.residentApprovalDeadline))}` : 'No answer from resident, escalated to officers'}</div>` : ''}
+                            ${visitor.decidedBy ? `<div class="visitor-note">${visitor.status === 'Rejected' ? 'Rejected' : 'Approved'} by ${escapeHtml(visitor.decidedBy)}</div>` : ''}
+                            ${watchlistNote(visitor)}
+                            ${isOverstaying(visitor) ? `<div class="visitor-note overstay-note">Overstayed the ${maxStayHours(visitor)}-hour limit</div>` : ''}
+                            ${visitor.autoCheckedOut ? `<div class="visitor-note">Checked out automatically at end of day</div>` : ''}
+                        </div>
+                    </div>
+                    <div class="card-body">
+                        <ul class="visitor-details">
+                            <li><strong>Resident:</strong> ${escapeHtml(visitor.resident)}</li>
+                            <li><strong>Purpose:</strong> ${escapeHtml(visitor.purpose)}</li>
+                            ${visitor.vehicle ? `<li><strong>Vehicle:</strong> ${escapeHtml(visitor.vehicle)} (${escapeHtml(visitor.carBrand || 'N/A')})${findResidentVehicle(visitor.vehicle) ? ` <span class="visitor-note">registered to ${escapeHtml(findResidentVehicle(visitor.vehicle)?.unitNo)}</span>` : ''}</li>` : ''}
+                            ${visitor.status === 'Checked-in' && visitor.parkingBay ? `<li><strong>Parking:</strong> Bay ${escapeHtml(visitor.parkingBay)}</li>` : ''}
+                            <li><strong>Contact:</strong> ${escapeHtml(visitor.contact)}</li>
+                            ${visitor.idDocument ? `<li><strong>ID:</strong> ${escapeHtml(visitor.idDocument)}</li>` : ''}
+                            ${visitor.expectedArrival ? `<li><strong>Expected:</strong> ${formatDateTime(visitor.expectedArrival)} &ndash; ${formatDateTime(visitor.expectedDeparture)}</li>` : ''}
+                            ${visitor.checkInTime ? `<li class="visitor-detail-checked-in"><strong>Checked-in:</strong> ${formatDateTime(visitor.checkInTime)}</li>` : ''}
+                            ${visitor.checkOutTime ? `<li class="visitor-detail-checked-out"><strong>Checked-out:</strong> ${formatDateTime(visitor.checkOutTime)}</li>` : ''}
+                        </ul>
+                    </div>
+                    <div class="card-footer">
+                        <div class="action-buttons">
+                            ${visitor.status === 'Pending' && canApprove(visitor) ? `<button class="btn btn-success btn-small" data-action="approve" data-visitor-id="${visitor.id}">Approve</button>` : ''}
+                            ${visitor.status === 'Pending' && canApprove(visitor) ? `<button class="btn btn-danger btn-small" data-action="reject" data-visitor-id="${visitor.id}">Reject</button>` : ''}
+                            ${visitor.status === 'Approved' && canCheckIn ? `<button class="btn btn-info btn-small" data-action="check-in" data-visitor-id="${visitor.id}">Check-in</button>` : ''}
+                            ${visitor.status === 'Checked-in' && canCheckIn ? `<button class="btn btn-secondary btn-small" data-action="check-out" data-visitor-id="${visitor.id}">Check-out</button>` : ''}
+                            ${['Approved', 'Checked-in'].includes(visitor.status) ? `<button class="btn btn-secondary btn-small" data-action="pass" data-visitor-id="${visitor.id}">Pass</button>` : ''}
+                            <button class="btn btn-secondary btn-small" data-action="history" data-visitor-id="${visitor.id}">History</button>
+                            ${canEdit ? `<button class="btn btn-secondary btn-small" data-action="edit" data-visitor-id="${visitor.id}">Edit</button>` : ''}
+                        </div>
+                    </div>
+                </div>
+            `).join('')}
+        </div>
+        ${state.visitorCursor ? `
+            <div id="visitor-grid-sentinel" class="grid-sentinel">
+                Showing ${filteredVisitors.length} of ${Math.max(state.visitorTotal, filteredVisitors.length)}${state.isLoadingVisitors ? ', loading more...' : ''}
+            </div>
+        ` : ''}
+    `;
+}
+
+function renderVisitorFilters() {
+    const filters = state.visitorFilters;
+    const isResident = !can(state.currentUser, 'visitor.viewAll');
+    const option = (value: string, label: string, selected: string) => `<option value="${escapeHtml(value)}" ${value === selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+    const blockOptions = [...new Set(state.predefinedUnits.map(u => u.block))].sort();
+    const unitOptions = state.predefinedUnits.filter(u => u.block === filters.block).map(u => `${u.block}-${u.houseNo}`);
+    // Removable chips for every filter in use besides status, which has its own chips.
+    const active = ([
+        ['from', filters.from && `From ${filters.from}`],
+        ['to', filters.to && `Until ${filters.to}`],
+        ['block', filters.block && `Block ${filters.block}`],
+        ['unit', filters.unit && `Unit ${filters.unit}`],
+        ['purpose', filters.purpose && `Purpose: ${filters.purpose}`],
+    ] as [keyof VisitorFilters, string][]).filter(([, label]) => label);
+
+    return `
+        <div class="visitor-filters">
+            <div class="filter-chips">
+                <button type="button" class="filter-chip ${filters.statuses.length === 0 ? 'active' : ''}" data-status="">All</button>
+                ${VISITOR_STATUSES.map(status => `<button type="button" class="filter-chip ${filters.statuses.includes(status) ? 'active' : ''}" data-status="${status}">${status}</button>`).join('')}
+            </div>
+            <form id="visitor-filter-form" class="audit-filters">
+                <input type="date" name="from" value="${filters.from}" aria-label="From date">
+                <input type="date" name="to" value="${filters.to}" aria-label="To date">
+                ${!isResident ? `
+                    <select name="block" aria-label="Block">
+                        ${option('', 'All blocks', filters.block)}
+                        ${blockOptions.map(block => option(block, `Block ${block}`, filters.block)).join('')}
+                    </select>
+                    <select name="unit" aria-label="Unit" ${filters.block ? '' : 'disabled'}>
+                        ${option('', 'All units', filters.unit)}
+                        ${unitOptions.map(unit => option(unit, unit, filters.unit)).join('')}
+                    </select>
+                ` : ''}
+                <input type="text" name="purpose" class="uppercase-input" placeholder="Purpose" value="${escapeHtml(filters.purpose)}">
+                <select name="sort" aria-label="Sort order">
+                    ${option('newest', 'Newest first', filters.sort)}
+                    ${option('oldest', 'Oldest first', filters.sort)}
+                    ${option('name', 'Name (A-Z)', filters.sort)}
+                </select>
+            </form>
+            ${active.length > 0 ? `
+                <div class="filter-chips">
+                    ${active.map(([key, label]) => `
+                        <span class="filter-chip active">${escapeHtml(label)}<button type="button" class="chip-remove" data-clear-filter="${key}" aria-label="Remove filter">&times;</button></span>
+                    `).join('')}
+                    <button type="button" class="filter-chip" data-clear-filter="all">Clear all</button>
+                </div>
+            ` : ''}
+        </div>
+    `;
+}
+
+function renderVisitorFormModal() {
+    if (!state.isModalOpen) return '';
+
+    const visitor = state.editingVisitorId ? state.visitors.find(v => v.id === state.editingVisitorId) : null;
+    // A new visit for a returning visitor starts from their known details.
+    const details = visitor ?? state.visitorPrefill;
+    // Residents can only pre-register guests for their own unit, so the unit is fixed and the window required.
+    const residentUnit = !visitor && !can(state.currentUser, 'visitor.register') && state.currentUser?.unitNo ? parseUnitNo(state.currentUser.unitNo) : null;
+    const title = visitor ? 'Edit Visitor Details' : residentUnit ? 'Pre-register Visitor' : 'Register New Visitor';
+    
+    const blockOptions = [...new Set(state.predefinedUnits.map(u => u.block))].sort();
+    
+    // Use the new helper for initial render
+    const houseNoOptionsHTML = getHouseNoOptionsHTML(visitor?.block || '', visitor?.houseNo);
+    
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content large">
+                <div class="modal-header">
+                    <h3>${title}</h3>
+                    <button class="close-button" id="close-modal-btn">&times;</button>
+                </div>
+                <form id="visitor-form">
+                    <div class="modal-body-split">
+                        <div class="form-column">
+                            <h4>Visitor Information</h4>
+                            <div class="form-group">
+                                <label for="name">Full Name</label>
+                                <input type="text" id="name" name="name" class="uppercase-input" value="${escapeHtml(details?.name || '')}" required>
+                            </div>
+                            ${!residentUnit ? `
+                            <div class="form-group">
+                                <label for="idDocument">ID Document No.</label>
+                                <input type="text" id="idDocument" name="idDocument" value="${escapeHtml(visitor?.idDocument || '')}" placeholder="Use Scan ID to fill" readonly>
+                                <small id="id-scan-note" class="visitor-note"></small>
+                            </div>
+                            ` : ''}
+                            <div class="form-group">
+                                <label for="contact">Contact Number</label>
+                                <input type="tel" id="contact" name="contact" value="${escapeHtml(details?.contact || '')}" required>
+                                <small id="returning-visitor-note" class="visitor-note">${state.visitorPrefill ? 'Returning visitor. Their details have been filled in.' : ''}</small>
+                            </div>
+                            <div class="form-group">
+                                <label for="purpose">Purpose of Visit</label>
+                                <input type="text" id="purpose" name="purpose" class="uppercase-input" value="${escapeHtml(visitor?.purpose || '')}" required>
+                            </div>
+                            
+                            <h4>Resident Details</h4>
+                            ${residentUnit ? `
+                            <p class="fixed-unit">Unit ${escapeHtml(residentUnit.block)}-${escapeHtml(residentUnit.houseNo)}</p>
+                            <input type="hidden" name="block" value="${escapeHtml(residentUnit.block)}">
+                            <input type="hidden" name="houseNo" value="${escapeHtml(residentUnit.houseNo)}">
+                            ` : `
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="block">Block</label>
+                                    <select id="block" name="block" required>
+                                        <option value="">-- Select Block --</option>
+                                        ${blockOptions.map(b => `<option value="${escapeHtml(b)}" ${visitor?.block === b ? 'selected' : ''}>${escapeHtml(b)}</option>`).join('')}
+                                    </select>
+                                </div>
+                                <div class="form-group">
+                                    <label for="houseNo">House No.</label>
+                                    <select id="houseNo" name="houseNo" required ${!visitor?.block ? 'disabled' : ''}>
+                                        ${houseNoOptionsHTML}
+                                    </select>
+                                </div>
+                            </div>
+                            `}
+
+                            <h4>Expected Arrival Window${residentUnit ? '' : ' (Optional)'}</h4>
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="expectedArrival">From</label>
+                                    <input type="datetime-local" id="expectedArrival" name="expectedArrival" value="${toDateTimeInputValue(visitor?.expectedArrival)}" ${residentUnit ? 'required' : ''}>
+                                </div>
+                                <div class="form-group">
+                                    <label for="expectedDeparture">Until</label>
+                                    <input type="datetime-local" id="expectedDeparture" name="expectedDeparture" value="${toDateTimeInputValue(visitor?.expectedDeparture)}" ${residentUnit ? 'required' : ''}>
+                                </div>
+                            </div>
+
+                            <h4>Vehicle Information (Optional)</h4>
+                             <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="vehicle">Vehicle Plate</label>
+                                    <input type="text" id="vehicle" name="vehicle" class="uppercase-input" value="${escapeHtml(details?.vehicle || '')}">
+                                </div>
+                                <div class="form-group">
+                                    <label for="carBrand">Car Brand</label>
+                                    <input type="text" id="carBrand" name="carBrand" class="uppercase-input" value="${escapeHtml(details?.carBrand || '')}">
+                                </div>
+                            </div>
+                            <div class="plate-reader">
+                                <button type="button" class="btn btn-secondary btn-small" id="read-plate-btn" ${state.capturedPhotoData?.startsWith('data:') && !state.cameraStream ? '' : 'disabled'}>Read Plate</button>
+                                <small id="plate-reading-note" class="visitor-note">Take a snapshot of the vehicle to read its plate.</small>
+                            </div>
+                        </div>
+
+                        <div class="form-column">
+                             <div class="camera-section">
+                                <label for="photo-capture">Visitor Photo</label>
+                                <div class="photo-capture-area ${state.cameraStream ? 'capturing' : ''}">
+                                    <img id="photo-preview" src="${escapeHtml(state.capturedPhotoData ? imageSrc(state.capturedPhotoData) : 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7')}" alt="Visitor photo preview">
+                                    <video id="video-feed" autoplay playsinline></video>
+                                    <canvas id="photo-canvas" style="display: none;"></canvas>
+                                </div>
+                                <div class="camera-controls">
+                                    <button type="button" class="btn btn-secondary" id="camera-action-btn" data-action="${state.cameraStream ? 'capture' : (state.capturedPhotoData ? 'retake' : 'open')}">
+                                        ${state.cameraStream ? 'Capture' : (state.capturedPhotoData ? 'Retake Snapshot' : 'Take Snapshot')}
+                                    </button>
+                                    ${!residentUnit ? `<button type="button" class="btn btn-secondary" id="scan-id-btn" ${state.cameraStream ? 'disabled' : ''}>Scan ID</button>` : ''}
+                                </div>
+                            </div>
+                        </div>
+                    </div>
+                    <div class="modal-footer">
+                        <button type="button" class="btn btn-secondary" id="cancel-modal-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">${visitor ? 'Save Changes' : residentUnit ? 'Pre-register Visitor' : 'Register Visitor'}</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    `;
+}
+
+function renderCompanySetupModal() {
+    if (!state.isCompanySetupModalOpen) return '';
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
+                <div class="modal-header">
+                    <h3>Company Profile Setup</h3>
+                    <button class="close-button" id="close-company-setup-btn">&times;</button>
+                </div>
+                <form id="company-setup-form">
+                    <div class="modal-body">
+                        <div class="form-group">
+                            <label for="companyName">Company/Residence Name</label>
+                            <input type="text" id="companyName" name="companyName" value="${escapeHtml(state.companyInfo.name)}" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="companyLogo">Company Logo</label>
+                            <div class="logo-upload-area">
+                                <img src="${escapeHtml(state.companyInfo.logo ? imageSrc(state.companyInfo.logo) : '')}" alt="Logo Preview" id="logo-preview" class="logo-preview">
+                                <input type="file" id="companyLogo" name="companyLogo" accept="image/jpeg,image/png,image/webp">
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label for="companyAddress">Address</label>
+                            <input type="text" id="companyAddress" name="companyAddress" value="${escapeHtml(state.companyInfo.address)}">
+                        </div>
+                         <div class="form-group">
+                            <label for="personInCharge">Person In Charge</label>
+                            <input type="text" id="personInCharge" name="personInCharge" value="${escapeHtml(state.companyInfo.personInCharge)}">
+                        </div>
+                         <div class="form-group">
+                            <label for="contactNumber">Contact Number</label>
+                            <input type="tel" id="contactNumber" name="contactNumber" value="${escapeHtml(state.companyInfo.contactNumber)}">
+                        </div>
+                         <div class="form-group">
+                            <label for="welcomeMessage">Welcome Message</label>
+                            <input type="text" id="welcomeMessage" name="welcomeMessage" value="${escapeHtml(state.companyInfo.welcomeMessage)}">
+                        </div>
+                    </div>
+                    <div class="modal-footer">
+                        <button type="button" class="btn btn-secondary" id="cancel-company-setup-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Save Changes</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    `;
+}
+
+function renderUserRoleModal() {
+    if (!state.isUserRoleModalOpen) return '';
+
+    const { users, currentUser } = state;
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
+                <div class="modal-header">
+                    <h3>Manage User Roles</h3>
+                    <button class="close-button" id="close-user-role-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    ${state.issuedInvite ? `
+                        <div class="invite-code-panel">
+                            <p>Give <strong>${escapeHtml(state.issuedInvite.username)}</strong> this invite code to set their password. It works once, until ${formatDateTime(state.issuedInvite.expiresAt)}.</p>
+                            <div class="invite-code">${escapeHtml(state.issuedInvite.code)}</div>
+                            <button class="btn btn-secondary btn-small" id="dismiss-invite-btn">Done</button>
+                        </div>
+                    ` : ''}
+                    <div class="user-role-toolbar">
+                        <button class="btn btn-primary btn-small" id="add-user-btn">Add User</button>
+                    </div>
+                    <ul class="user-role-list">
+                        ${users.map(user => {
+                            const isSelf = currentUser?.id === user.id;
+                            // Changing the only user manager's role could leave nobody able to undo it.
+                            const canChangeRole = !(isSelf && !hasUserManager(users.filter(u => u.id !== user.id)));
+                            return `
+                                <li class="user-role-item" data-user-id="${user.id}">
+                                    <div class="user-role-name">
+                                        <span>${escapeHtml(user.username)}</span>
+                                        ${user.unitNo && roleHasUnit(user.role) ? `<small>${escapeHtml(user.unitNo)}</small>` : ''}
+                                        ${user.invitedAt ? `<small class="visitor-note">Invite not yet redeemed</small>` : ''}
+                                        ${user.twoFactorEnabledAt ? `<small class="visitor-note">Two-factor on</small>` : ''}
+                                    </div>
+                                    <div class="user-role-actions">
+                                        ${user.invitedAt && !state.isOfflineMode ? `<button class="btn btn-secondary btn-small reissue-invite-btn" data-userid="${user.id}">New Invite</button>` : ''}
+                                        <select class="role-select" data-userid="${user.id}" ${canChangeRole ? '' : 'disabled'}>${roleOptionsHTML(user.role)}</select>
+                                        ${state.isOfflineMode ? '' : `<button class="btn btn-secondary btn-small user-sessions-btn" data-userid="${user.id}">Sessions</button>`}
+                                        ${user.twoFactorEnabledAt && !isSelf && !state.isOfflineMode ? `<button class="btn btn-secondary btn-small reset-two-factor-btn" data-userid="${user.id}">Reset 2FA</button>` : ''}
+                                        <button class="btn btn-secondary btn-small edit-user-btn" data-userid="${user.id}">Edit</button>
+                                        <button class="btn btn-danger btn-small delete-user-btn" data-userid="${user.id}">Delete</button>
+                                    </div>
+                                </li>
+                            `
+                        }).join('')}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderAddUserModal() {
+    if (!state.isAddUserModalOpen) return '';
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content small">
+                <div class="modal-header">
+                    <h3>Add User</h3>
+                    <button class="close-button" id="close-add-user-btn">&times;</button>
+                </div>
+                <form id="add-user-form">
+                    <div class="modal-body">
+                        <div class="form-group">
+                            <label for="new-username">Username</label>
+                            <input type="text" id="new-username" name="username" required>
+                        </div>
+                        <div class="form-group">
+                            <label for="new-role">Role</label>
+                            <select id="new-role" name="role">${roleOptionsHTML('Resident')}</select>
+                        </div>
+                        <div class="form-group" id="add-user-unit-group">
+                            <label for="new-unit">Unit</label>
+                            <select id="new-unit" name="unitNo">${unitOptionsHTML()}</select>
+                            <small class="visitor-note">A unit can have several residents.</small>
+                        </div>
+                        <div class="form-group">
+                            <label>Sign-in</label>
+                            <div class="schedule-kind-options">
+                                ${state.isOfflineMode ? '' : `<label><input type="radio" name="setup" value="invite" checked> Give them an invite code to choose their own password</label>`}
+                                <label><input type="radio" name="setup" value="password" ${state.isOfflineMode ? 'checked' : ''}> Set a password now</label>
+                            </div>
+                        </div>
+                        <div id="add-user-password-group" style="${state.isOfflineMode ? '' : 'display: none;'}">
+                            <div class="form-group">
+                                <label for="new-password">Temporary Password</label>
+                                <input type="password" id="new-password" name="newPassword" autocomplete="new-password">
+                                <small class="visitor-note">${describePasswordPolicy()} They will be asked to change it when they first log in.</small>
+                            </div>
+                            <div class="form-group">
+                                <label for="new-confirm-password">Confirm Password</label>
+                                <input type="password" id="new-confirm-password" name="confirmPassword" autocomplete="new-password">
+                            </div>
+                        </div>
+                    </div>
+                    <div class="modal-footer">
+                        <button type="button" class="btn btn-secondary" id="cancel-add-user-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Add User</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    `;
+}
+
+
+function renderEditUserModal() {
+    if (!state.isEditUserModalOpen || state.editingUserId === null) return '';
+
+    const user = state.users.find(u => u.id === state.editingUserId);
+    if (!user) return '';
+
+    return `
+         <div class="modal-overlay visible">
+            <div class="modal-content small">
+                <div class="modal-header">
+                    <h3>Edit User: ${escapeHtml(user.username)}</h3>
+                    <button class="close-button" id="close-edit-user-btn">&times;</button>
+                </div>
+                <form id="edit-user-form">
+                    <div class="modal-body">
+                        <div class="form-group">
+                            <label for="username">Username</label>
+                            <input type="text" id="username" name="username" value="${escapeHtml(user.username)}" required>
+                        </div>
+                        ${roleHasUnit(user.role) ? `
+                            <div class="form-group">
+                                <label for="unitNo">Unit</label>
+                                <select id="unitNo" name="unitNo" required>${unitOptionsHTML(user.unitNo)}</select>
+                            </div>
+                        ` : ''}
+                        <div class="form-group">
+                            <label for="newPassword">New Password (optional)</label>
+                            <input type="password" id="newPassword" name="newPassword" placeholder="Leave blank to keep current password">
+                        </div>
+                        <div class="form-group">
+                            <label for="confirmPassword">Confirm New Password</label>
+                            <input type="password" id="confirmPassword" name="confirmPassword">
+                        </div>
+                    </div>
+                    <div class="modal-footer">
+                        <button type="button" class="btn btn-secondary" id="cancel-edit-user-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Save Changes</button>
+                    </div>
+                </form>
+            </div>
+        </div>
+    `;
+}
+
+function renderApprovalModal() {
+    if (!state.isApprovalModalOpen) return '';
+
+    if (!state.currentUser) return '';
+    const pendingVisitors = visitorsAwaitingDecision(state.currentUser, state.visitors);
+    if (pendingVisitors.length === 0) return '';
+    const isResident = !can(state.currentUser, 'visitor.approve');
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content">
+                <div class="modal-header">
+                    <h3>${isResident ? 'Visitors at the Gate' : 'Pending Visitor Approvals'}</h3>
+                    <button class="close-button" id="close-approval-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <p>${isResident ? 'Security has registered these visitors for your unit. Please let them know whether to let them in.' : 'The following visitors are awaiting approval. You can approve or reject them now.'}</p>
+                    <ul class="pending-approval-list">
+                        ${pendingVisitors.map(visitor => `
+                            <li class="pending-approval-item">
+                                <div class="pending-approval-info">
+                                    <strong>${escapeHtml(visitor.name)}</strong>
+                                    <span>To visit: ${escapeHtml(visitor.resident)}</span>
+                                    <small>Purpose: ${escapeHtml(visitor.purpose)}</small>
+                                </div>
+                                <div class="pending-approval-actions">
+                                    <button class="btn btn-success btn-small" data-action="approve" data-visitor-id="${visitor.id}">Approve</button>
+                                    <button class="btn btn-danger btn-small" data-action="reject" data-visitor-id="${visitor.id}">${isResident ? 'Decline' : 'Reject'}</button>
+                                </div>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+                <div class="modal-footer">
+                    <button type="button" class="btn btn-secondary" id="review-later-btn">Review Later</button>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderChatNotificationModal() {
+    if (!state.isChatNotificationModalOpen) return '';
+
+    const pendingChats = state.pendingChats.filter(c => !c.dismissed);
+    if (pendingChats.length === 0) return '';
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
+                <div class="modal-header">
+                    <h3>Pending User Chats</h3>
+                    <button class="close-button" id="close-chat-notification-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <p>The following users have started a chat and may need assistance.</p>
+                    <ul class="pending-chat-list">
+                        ${pendingChats.map(chat => `
+                            <li class="pending-chat-item">
+                                <div class="pending-chat-info">
+                                    <strong>${escapeHtml(chat.userName)} (${escapeHtml(chat.unit)})</strong>
+                                    <small>Query: "${escapeHtml(chat.initialQuery)}"</small>
+                                </div>
+                                <div class="pending-chat-actions">
+                                    <button class="btn btn-primary btn-small" data-action="reply-chat" data-chat-id="${chat.id}">Reply Now</button>
+                                    <button class="btn btn-secondary btn-small" data-action="dismiss-chat" data-chat-id="${chat.id}">Dismiss</button>
+                                </div>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+                <div class="modal-footer">
+                    <button type="button" class="btn btn-secondary" id="close-chat-notification-btn-footer">Close</button>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function describeSchedule(schedule: VisitSchedule): string {
+    const hours = `${escapeHtml(schedule.startTime)}&ndash;${escapeHtml(schedule.endTime)}`;
+    return schedule.kind === 'weekly'
+        ? `Every ${schedule.days.map(d => WEEKDAY_NAMES[d]).join(', ')}, ${hours}, from ${escapeHtml(schedule.startDate)} until ${escapeHtml(schedule.endDate)}`
+        : `Daily ${hours}, ${escapeHtml(schedule.startDate)} to ${escapeHtml(schedule.endDate)}`;
+}
+
+function renderScheduleModal() {
+    if (!state.isScheduleModalOpen) return '';
+
+    // Residents schedule visits for their own unit only, so the unit is fixed for them.
+    const residentUnit = !can(state.currentUser, 'visitor.register') && state.currentUser?.unitNo ? parseUnitNo(state.currentUser.unitNo) : null;
+    const blockOptions = [...new Set(state.predefinedUnits.map(u => u.block))].sort();
+    const today = toDateTimeInputValue(new Date().toISOString()).slice(0, 10);
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content large">
+                <div class="modal-header">
+                    <h3>Scheduled Visits</h3>
+                    <button class="close-button" id="close-schedule-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <div class="card add-schedule-form-container">
+                        <h4>Schedule a Regular Visitor</h4>
+                        <form id="add-schedule-form">
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="schedule-name">Full Name</label>
+                                    <input type="text" id="schedule-name" name="schedule-name" class="uppercase-input" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-contact">Contact Number</label>
+                                    <input type="tel" id="schedule-contact" name="schedule-contact" required>
+                                </div>
+                            </div>
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="schedule-purpose">Purpose</label>
+                                    <input type="text" id="schedule-purpose" name="schedule-purpose" class="uppercase-input" placeholder="e.g., CLEANING" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-vehicle">Vehicle Plate (Optional)</label>
+                                    <input type="text" id="schedule-vehicle" name="schedule-vehicle" class="uppercase-input">
+                                </div>
+                            </div>
+                            ${residentUnit ? `
+                            <input type="hidden" name="schedule-block" value="${escapeHtml(residentUnit.block)}">
+                            <input type="hidden" name="schedule-houseNo" value="${escapeHtml(residentUnit.houseNo)}">
+                            ` : `
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="schedule-block">Block</label>
+                                    <select id="schedule-block" name="schedule-block" required>
+                                        <option value="">-- Select Block --</option>
+                                        ${blockOptions.map(b => `<option value="${escapeHtml(b)}">${escapeHtml(b)}</option>`).join('')}
+                                    </select>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-houseNo">House No.</label>
+                                    <select id="schedule-houseNo" name="schedule-houseNo" required disabled>
+                                        ${getHouseNoOptionsHTML('')}
+                                    </select>
+                                </div>
+                            </div>
+                            `}
+                            <div class="form-group">
+                                <label>Repeats</label>
+                                <div class="schedule-kind-options">
+                                    <label><input type="radio" name="schedule-kind" value="weekly" checked> Weekly</label>
+                                    <label><input type="radio" name="schedule-kind" value="once"> Every day in a date range</label>
+                                </div>
+                            </div>
+                            <div class="form-group" id="schedule-days-group">
+                                <label>On</label>
+                                <div class="schedule-days">
+                                    ${WEEKDAY_NAMES.map((day, index) => `<label><input type="checkbox" name="schedule-days" value="${index}"> ${day}</label>`).join('')}
+                                </div>
+                            </div>
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="schedule-startDate">From</label>
+                                    <input type="date" id="schedule-startDate" name="schedule-startDate" value="${today}" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-endDate">Until</label>
+                                    <input type="date" id="schedule-endDate" name="schedule-endDate" min="${today}" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-startTime">Arrives From</label>
+                                    <input type="time" id="schedule-startTime" name="schedule-startTime" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="schedule-endTime">Leaves By</label>
+                                    <input type="time" id="schedule-endTime" name="schedule-endTime" required>
+                                </div>
+                            </div>
+                            <button type="submit" class="btn btn-primary">Add Schedule</button>
+                        </form>
+                    </div>
+
+                    <ul class="schedule-list">
+                        ${state.schedules.length > 0 ? state.schedules.map(schedule => `
+                            <li class="schedule-item">
+                                <div class="expected-info">
+                                    <strong>${escapeHtml(schedule.visitor.name)}</strong>
+                                    <span>${escapeHtml(schedule.visitor.purpose)} for ${escapeHtml(schedule.visitor.resident)}</span>
+                                    <small>${describeSchedule(schedule)}</small>
+                                </div>
+                                <button class="btn btn-danger btn-small delete-schedule-btn" data-schedule-id="${schedule.id}">Cancel</button>
+                            </li>
+                        `).join('') : '<p class="no-data-message">No visits are scheduled.</p>'}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderUnitImport() {
+    const pending = state.unitImport;
+    const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+    let preview = '';
+    if (pending) {
+        const { report } = pending;
+        const failed = report.rows.filter(r => r.errors.length > 0);
+        const summary = report.dryRun
+            ? `${plural(report.units, 'unit')} and ${plural(report.residents, 'resident account')} will be created.`
+            : `Imported ${plural(report.units, 'unit')} and ${plural(report.residents, 'resident account')}.`;
+        preview = `
+            <div class="unit-import-preview">
+                <p><strong>${escapeHtml(pending.fileName)}</strong>: ${plural(report.rows.length, 'row')}. ${summary}
+                    ${failed.length > 0 ? `${plural(failed.length, 'row')} ${report.dryRun ? 'will be' : 'were'} skipped:` : ''}</p>
+                ${failed.length > 0 ? `
+                    <ul class="unit-import-errors">
+                        ${failed.map(r => `<li><strong>Line ${r.line}</strong>${r.username ? ` (${escapeHtml(r.username)})` : ''}: ${escapeHtml(r.errors.join('; '))}</li>`).join('')}
+                    </ul>
+                ` : ''}
+                ${report.dryRun && report.residents > 0 ? `
+                    <div class="form-group">
+                        <label for="unit-import-role">Role for the new accounts</label>
+                        <select id="unit-import-role" ${state.isImportingUnits ? 'disabled' : ''}>
+                            ${state.roles.filter(r => r.hasUnit).map(({ name }) => `<option value="${escapeHtml(name)}" ${name === unitImportRole() ? 'selected' : ''}>${escapeHtml(name)}</option>`).join('')}
+                        </select>
+                    </div>
+                ` : ''}
+                <div class="action-buttons">
+                    ${report.dryRun ? `<button type="button" class="btn btn-primary btn-small" id="confirm-unit-import-btn" ${report.units + report.residents === 0 || state.isImportingUnits ? 'disabled' : ''}>${state.isImportingUnits ? `Importing ${pending.importedRows ?? 0} of ${report.rows.length} rows...` : 'Import'}</button>` : ''}
+                    <button type="button" class="btn btn-secondary btn-small" id="cancel-unit-import-btn">${report.dryRun ? 'Cancel' : 'Done'}</button>
+                </div>
+            </div>
+        `;
+    }
+
+    return `
+        <div class="add-unit-form-container card">
+            <h4>Import from CSV</h4>
+            <p class="visitor-note">The first row names the columns: <code>block</code> and <code>houseNo</code> (or <code>unitNo</code>, e.g. A-101), and optionally <code>username</code> and <code>password</code> to create a resident account with a temporary password. List a unit on several rows to give it several residents.</p>
+            <input type="file" id="unit-import-file" accept=".csv,text/csv" ${state.isImportingUnits ? 'disabled' : ''}>
+            ${state.isImportingUnits && !pending ? '<p class="visitor-note">Checking the file...</p>' : ''}
+            ${preview}
+        </div>
+    `;
+}
+
+
+function renderUnitManagementModal() {
+    if (!state.isUnitManagementModalOpen) return '';
+
+    const groupedUnits = state.predefinedUnits.reduce((acc, unit) => {
+        if (!acc[unit.block]) {
+            acc[unit.block] = [];
+        }
+        acc[unit.block].push(unit);
+        return acc;
+    }, {} as Record<string, PredefinedUnit[]>);
+
+    const sortedBlocks = Object.keys(groupedUnits).sort();
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
+                <div class="modal-header">
+                    <h3>Manage Predefined Units</h3>
+                    <button class="close-button" id="close-unit-management-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <div class="add-unit-form-container card">
+                        <h4>Add New Unit</h4>
+                        <form id="add-unit-form">
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="newUnitBlock">Block</label>
+                                    <input type="text" id="newUnitBlock" class="uppercase-input" placeholder="e.g., A" required>
+                                </div>
+                                <div class="form-group">
+                                    <label for="newUnitHouseNo">House No.</label>
+                                    <input type="text" id="newUnitHouseNo" placeholder="e.g., 101" required>
+                                </div>
+                                <button type="submit" class="btn btn-primary">Add</button>
+                            </div>
+                        </form>
+                    </div>
+                    
+                    ${renderUnitImport()}
+
+                    <div class="unit-list-container">
+                        ${sortedBlocks.length > 0 ? sortedBlocks.map(block => `
+                            <div class="unit-block-group">
+                                <h5 class="unit-block-header">Block ${escapeHtml(block)}</h5>
+                                <div class="unit-tags-container">
+                                    ${groupedUnits[block].map(unit => `
+                                        <div class="unit-tag">
+                                            <span>${escapeHtml(unit.block)}-${escapeHtml(unit.houseNo)}</span>
+                                            <button class="delete-unit-btn" data-block="${escapeHtml(unit.block)}" data-houseno="${escapeHtml(unit.houseNo)}" title="Delete unit">&times;</button>
+                                        </div>
+                                    `).join('')}
+                                </div>
+                            </div>
+                        `).join('') : '<p class="no-data-message">No units defined. Add one above to get started.</p>'}
+                    </div>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderOverviewView() {
+    // Only open visits and today's are loaded up front, so the breakdown covers today.
+    const today = new Date().toDateString();
+    const visitorsToday = state.visitors.filter(v => new Date(visitTime(v)).toDateString() === today);
+    const totalVisitors = visitorsToday.length;
+    const checkedInCount = state.visitors.filter(v => v.status === 'Checked-in').length;
+    const pendingCount = state.visitors.filter(v => v.status === 'Pending').length;
+    const checkedOutToday = state.visitors.filter(v => v.status === 'Checked-out' && v.checkOutTime && new Date(v.checkOutTime).toDateString() === new Date().toDateString()).length;
 
-function getAvatarColor(name: string): string {
-    const avatarColors = ['#e57373', '#81c784', '#64b5f6', '#ffb74d', '#9575cd', '#4db6ac', '#f06292'];
-    const colorIndex = (name.charCodeAt(0) || 0) % avatarColors.length;
-    return avatarColors[colorIndex];
-}
+    const purposeCounts = visitorsToday.reduce((acc, v) => {
+        acc[v.purpose] = (acc[v.purpose] || 0) + 1;
+        return acc;
+    }, {} as Record<string, number>);
 
-function formatTimeAgo(date: Date): string {
-    const seconds = Math.floor((new Date().getTime() - date.getTime()) / 1000);
-    if (seconds < 5) return "just now";
-    let interval = seconds / 31536000; if (interval > 1) return Math.floor(interval) + " years ago";
-    interval = seconds / 2592000; if (interval > 1) return Math.floor(interval) + " months ago";
-    interval = seconds / 86400; if (interval > 1) return Math.floor(interval) + " days ago";
-    interval = seconds / 3600; if (interval > 1) return Math.floor(interval) + " hours ago";
-    interval = seconds / 60; if (interval > 1) return Math.floor(interval) + " minutes ago";
-    return Math.floor(seconds) + " seconds ago";
-}
+    const sortedPurposes = Object.entries(purposeCounts).sort(([, a], [, b]) => b - a);
 
-function formatDateTime(isoString?: string): string {
-    if (!isoString) return 'N/A';
-    try {
-        const date = new Date(isoString);
-        return date.toLocaleString(undefined, {
-            year: 'numeric',
-            month: 'short',
-            day: 'numeric',
-            hour: 'numeric',
-            minute: '2-digit',
-            hour12: true,
-        });
-    } catch (e) {
-        return 'Invalid Date';
-    }
-}
+    const checkedInVisitors = state.visitors.filter(v => v.status === 'Checked-in');
+    const overstayCount = checkedInVisitors.filter(v => isOverstaying(v)).length;
+    const parked = occupiedBays();
+    const bayBlocks = [...new Set(state.bays.map(b => b.block))];
+    
+    return `
+        ${renderHeader()}
+        <main class="main-content">
+            <div class="visitors-header">
+                <h2>System Overview</h2>
+                <div class="visitors-header-actions">
+                    ${can(state.currentUser, 'visitor.export') ? `<button id="export-btn" class="btn btn-secondary">Export Report</button>` : ''}
+                    <button id="dashboard-btn" class="btn btn-primary">Back to Dashboard</button>
+                </div>
+            </div>
 
-function getHouseNoOptionsHTML(block: string, selectedHouseNo?: string): string {
-    if (!block) return '<option value="">-- Select a Block First --</option>';
+            <div class="stats-grid">
+                <div class="stat-card" style="border-color: var(--info-color);">
+                    <div class="stat-value">${totalVisitors}</div>
+                    <div class="stat-label">Visitors Today</div>
+                </div>
+                <div class="stat-card" style="border-color: var(--success-color);">
+                    <div class="stat-value">${checkedInCount}</div>
+                    <div class="stat-label">Currently Checked-in</div>
+                </div>
+                <div class="stat-card" style="border-color: var(--danger-color);">
+                    <div class="stat-value">${overstayCount}</div>
+                    <div class="stat-label">Overstaying</div>
+                </div>
+                <div class="stat-card" style="border-color: var(--warning-color);">
+                    <div class="stat-value">${pendingCount}</div>
+                    <div class="stat-label">Pending Approval</div>
+                </div>
+                <div class="stat-card" style="border-color: var(--danger-color);">
+                    <div class="stat-value">${checkedOutToday}</div>
+                    <div class="stat-label">Checked-out Today</div>
+                </div>
+            </div>
 
-    const unitsForBlock = state.predefinedUnits
-        .filter(u => u.block === block)
-        .sort((a, b) => a.houseNo.localeCompare(b.houseNo, undefined, { numeric: true }));
+            <div class="overview-panels">
+                 <div class="card">
+                    <h3>Currently Checked-in Visitors</h3>
+                    <div class="checked-in-list">
+                        ${checkedInVisitors.length > 0 ? checkedInVisitors.map(v => `
+                            <div class="checked-in-item ${isOverstaying(v) ? 'overstay' : ''}">
+                                ${v.photo ? `<img src="${escapeHtml(imageSrc(v.photo, 'thumb'))}" alt="${escapeHtml(v.name)}" class="visitor-avatar visitor-avatar-img">` : `<div class="visitor-avatar" style="background-color: ${getAvatarColor(v.name)};">${escapeHtml(getInitials(v.name))}</div>`}
+                                <div class="checked-in-info">
+                                    <strong>${escapeHtml(v.name)}</strong>
+                                    <small>Visiting ${escapeHtml(v.resident)}, since ${formatDateTime(v.checkInTime)}${v.parkingBay ? `, parked in bay ${escapeHtml(v.parkingBay)}` : ''}</small>
+                                    ${isOverstaying(v) ? `<small class="overstay-note">Over the ${maxStayHours(v)}-hour limit for ${escapeHtml(v.purpose)}</small>` : ''}
+                                </div>
+                            </div>
+                        `).join('') : '<p class="no-data-message">No visitors are currently checked-in.</p>'}
+                    </div>
+                </div>
 
-    if (unitsForBlock.length === 0) {
-        return '<option value="">-- No Units in this Block --</option>';
-    }
+                <div class="card">
+                    <h3>Visit Purposes Today</h3>
+                    <div class="purpose-breakdown-list">
+                        ${sortedPurposes.length > 0 ? sortedPurposes.map(([purpose, count]) => `
+                            <div class="purpose-item">
+                                <div class="purpose-label">
+                                    <span>${escapeHtml(purpose)}</span>
+                                    <span>${count}</span>
+                                </div>
+                                <div class="progress-bar-container">
+                                    <div class="progress-bar-fill" style="width: ${(count / totalVisitors) * 100}%;"></div>
+                                </div>
+                            </div>
+                        `).join('') : '<p class="no-data-message">No visitor data to analyze.</p>'}
+                    </div>
+                </div>
 
-    return [
-        '<option value="">-- Select House No. --</option>',
-        ...unitsForBlock.map(unit =>
-            `<option value="${unit.houseNo}" ${unit.houseNo === selectedHouseNo ? 'selected' : ''}>${unit.houseNo}</option>`
-        )
-    ].join('');
+                <div class="card">
+                    <h3>Visitor Parking</h3>
+                    <div class="purpose-breakdown-list">
+                        ${bayBlocks.length > 0 ? bayBlocks.map(block => {
+                            const blockBays = state.bays.filter(b => b.block === block);
+                            const taken = blockBays.filter(b => parked.has(bayKey(b)));
+                            return `
+                                <div class="purpose-item">
+                                    <div class="purpose-label">
+                                        <span>Block ${escapeHtml(block)}</span>
+                                        <span>${taken.length} / ${blockBays.length} taken</span>
+                                    </div>
+                                    <div class="progress-bar-container">
+                                        <div class="progress-bar-fill ${taken.length === blockBays.length ? 'full' : ''}" style="width: ${(taken.length / blockBays.length) * 100}%;"></div>
+                                    </div>
+                                    ${taken.map(b => {
+                                        const visitor = parked.get(bayKey(b));
+                                        return `<small class="parking-occupant">${escapeHtml(b.label)}: ${escapeHtml(visitor?.name)} (${escapeHtml(visitor?.vehicle || 'no plate')})</small>`;
+                                    }).join('')}
+                                </div>
+                            `;
+                        }).join('') : '<p class="no-data-message">No visitor parking bays have been set up.</p>'}
+                    </div>
+                </div>
+            </div>
+            
+            ${renderAuditPanel()}
+        </main>
+    `;
 }
 
+const AUDIT_ACTION_LABELS: Record<string, string> = {
+    'auth.login': 'logged in',
+    'auth.logout': 'logged out',
+    'auth.lockout': 'was locked out after too many failed logins as',
+    'auth.changePassword': 'changed the password of',
+    'auth.enableTwoFactor': 'turned on two-factor authentication as',
+    'auth.disableTwoFactor': 'turned off two-factor authentication as',
+    'session.revoke': 'signed out the sessions of',
+    'visitor.create': 'registered visitor',
+    'visitor.preregister': 'pre-registered visitor',
+    'visitor.update': 'edited visitor',
+    'visitor.approve': 'approved visitor',
+    'visitor.reject': 'rejected visitor',
+    'visitor.checkin': 'checked in visitor',
+    'visitor.checkout': 'checked out visitor',
+    'visitor.delete': 'deleted visitor',
+    'visitor.outsideWindow': 'sent back for approval (arrived outside their window)',
+    'schedule.create': 'scheduled visits for',
+    'schedule.delete': 'cancelled scheduled visits for',
+    'visitor.overstay': 'flagged an overstay by',
+    'visitor.autoCheckout': 'checked out at end of day',
+    'visitor.export': 'exported a visitor report of',
+    'watchlist.create': 'added to the watchlist',
+    'watchlist.delete': 'removed from the watchlist',
+    'watchlist.match': 'triggered a watchlist alert for',
+    'alert.acknowledge': 'acknowledged the alert about',
+    'user.create': 'created user',
+    'user.update': 'edited user',
+    'user.delete': 'deleted user',
+    'user.invite': 'issued an invite code for',
+    'user.resetTwoFactor': 'reset two-factor authentication for',
+    'user.acceptInvite': 'redeemed an invite code as',
+    'role.create': 'created role',
+    'role.update': 'changed the permissions of role',
+    'role.delete': 'deleted role',
+    'unit.create': 'added unit',
+    'unit.delete': 'removed unit',
+    'bay.create': 'added parking bay',
+    'bay.delete': 'removed parking bay',
+    'vehicle.create': 'registered vehicle',
+    'vehicle.delete': 'removed vehicle',
+    'company.update': 'updated the company profile',
+    'stayPolicy.update': 'updated the stay limits',
+    'passwordPolicy.update': 'updated the password rules',
+};
 
-// --- RENDER FUNCTIONS ---
-function renderLoginPage() {
-    return `
-        <div class="login-container">
-            <div class="login-card">
-                 <svg class="login-logo" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg">
-                    <path d="M12 2L2 7L12 12L22 7L12 2Z" fill="var(--primary-color)"></path>
-                    <path d="M2 17L12 22L22 17" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
-                    <path d="M2 12L12 17L22 12" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
-                    <path d="M2 7L12 12L22 7" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
-                    <path d="M12 2L12 12" stroke="var(--primary-color)" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"></path>
-                </svg>
-                <h1 class="login-title">ResiGuard</h1>
-                <p class="login-subtitle">Secure Visitor Management</p>
-                ${state.loginError ? `<div class="login-error">${state.loginError}</div>` : ''}
-                <form id="login-form">
-                    <div class="form-group">
-                        <label for="username">Username</label>
-                        <input type="text" id="username" name="username" required>
-                    </div>
-                    <div class="form-group">
-                        <label for="password">Password</label>
-                        <input type="password" id="password" name="password" required>
+function formatAuditValue(value: unknown): string {
+    if (value === null || value === '') return '<em>empty</em>';
+    return escapeHtml(typeof value === 'string' ? value : JSON.stringify(value));
+}
+
+function renderAuditPanel() {
+    const filters = state.auditFilters;
+    const option = (value: string, label: string, selected: string) => `<option value="${escapeHtml(value)}" ${value === selected ? 'selected' : ''}>${escapeHtml(label)}</option>`;
+
+    let content: string;
+    if (state.isOfflineMode) {
+        content = '<p class="no-data-message">The audit trail is kept on the server and is not available offline.</p>';
+    } else if (state.auditEntries.length === 0) {
+        content = `<p class="no-data-message">${state.isLoadingAudit ? 'Loading...' : 'No audit entries match these filters.'}</p>`;
+    } else {
+        content = state.auditEntries.map(entry => {
+            const changes = Object.entries(entry.changes);
+            return `
+                <div class="activity-item audit-item">
+                    <div class="audit-summary">
+                        <span><strong>${escapeHtml(entry.actorName)}</strong> <span class="audit-role">(${escapeHtml(entry.actorRole)})</span> ${escapeHtml(AUDIT_ACTION_LABELS[entry.action] || entry.action)} ${!['company', 'stayPolicy', 'passwordPolicy'].includes(entry.targetType) ? `<strong>${escapeHtml(entry.targetLabel)}</strong>` : ''}</span>
+                        <span class="activity-time" title="${formatDateTime(entry.timestamp)}">${formatTimeAgo(new Date(entry.timestamp))}</span>
                     </div>
-                    <button type="submit" class="btn btn-primary btn-full-width">Login</button>
-                </form>
-                <p class="login-hint">Hint: Log in with credentials like admin/password, security/password, or resident101/password.</p>
+                    ${changes.length > 0 ? `
+                        <ul class="audit-changes">
+                            ${changes.map(([field, { from, to }]) => `<li><code>${escapeHtml(field)}</code>: ${formatAuditValue(from)} &rarr; ${formatAuditValue(to)}</li>`).join('')}
+                        </ul>
+                    ` : ''}
+                </div>
+            `;
+        }).join('');
+    }
+
+    return `
+        <div class="card activity-log-panel">
+            <h3>Audit Trail</h3>
+            <form id="audit-filter-form" class="audit-filters">
+                <select name="action" ${state.isOfflineMode ? 'disabled' : ''}>
+                    ${option('', 'All actions', filters.action)}
+                    ${Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => option(action, label.charAt(0).toUpperCase() + label.slice(1), filters.action)).join('')}
+                </select>
+                <select name="targetType" ${state.isOfflineMode ? 'disabled' : ''}>
+                    ${option('', 'All records', filters.targetType)}
+                    ${option('visitor', 'Visitors', filters.targetType)}
+                    ${option('report', 'Reports', filters.targetType)}
+                    ${option('schedule', 'Schedules', filters.targetType)}
+                    ${option('watchlist', 'Watchlist', filters.targetType)}
+                    ${option('alert', 'Alerts', filters.targetType)}
+                    ${option('stayPolicy', 'Stay limits', filters.targetType)}
+                    ${option('passwordPolicy', 'Password rules', filters.targetType)}
+                    ${option('user', 'Users', filters.targetType)}
+                    ${option('role', 'Roles', filters.targetType)}
+                    ${option('unit', 'Units', filters.targetType)}
+                    ${option('bay', 'Parking bays', filters.targetType)}
+                    ${option('vehicle', 'Vehicles', filters.targetType)}
+                    ${option('company', 'Company profile', filters.targetType)}
+                </select>
+                <input type="text" name="actor" placeholder="Done by (username)" value="${escapeHtml(filters.actor)}" ${state.isOfflineMode ? 'disabled' : ''}>
+                <input type="date" name="from" value="${filters.from}" aria-label="From date" ${state.isOfflineMode ? 'disabled' : ''}>
+                <input type="date" name="to" value="${filters.to}" aria-label="To date" ${state.isOfflineMode ? 'disabled' : ''}>
+            </form>
+            <div class="activity-log">
+                ${content}
             </div>
+            ${state.auditCursor ? `
+                <button id="audit-load-more-btn" class="btn btn-secondary" ${state.isLoadingAudit ? 'disabled' : ''}>${state.isLoadingAudit ? 'Loading...' : 'Load more'}</button>
+            ` : ''}
         </div>
     `;
 }
 
-function renderHeader() {
-    if (!state.currentUser) return '';
+function renderScannerView() {
+    return `
+        ${renderHeader()}
+        <main class="main-content">
+            <div class="visitors-header">
+                <h2>Scan Visitor Pass</h2>
+                <button id="dashboard-btn" class="btn btn-primary">Back to Dashboard</button>
+            </div>
+            <div class="card scanner-card">
+                <div class="scanner-viewport">
+                    <video id="scanner-video" autoplay playsinline muted></video>
+                    <canvas id="scanner-canvas" style="display: none;"></canvas>
+                </div>
+                <p class="scanner-hint">Hold the visitor's QR pass up to the camera. Approved visitors are checked in and checked-in visitors are checked out.</p>
+                ${state.scanResult ? `<div class="scan-result ${state.scanResult.success ? 'scan-result-success' : 'scan-result-error'}">${escapeHtml(state.scanResult.message)}</div>` : ''}
+            </div>
+        </main>
+    `;
+}
 
-    const defaultLogoSvg = `
-        <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" width="50" height="50">
-            <path d="M12 2L2 7v10l10 5 10-5V7L12 2zm0 2.236L19.36 7 12 10.236 4.64 7 12 4.236zM4 9.123l8 4.5V19.9L4 15.4V9.123zm16 0V15.4l-8 4.5V13.623l8-4.5z"/>
-        </svg>
+function renderPassModal() {
+    const visitor = state.visitors.find(v => v.id === state.passVisitorId);
+    if (!visitor || !state.passQrDataUrl) return '';
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content">
+                <div class="modal-header">
+                    <h3>Visitor Pass</h3>
+                    <button class="close-button" id="close-pass-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body visitor-pass">
+                    <strong>${escapeHtml(visitor.name)}</strong>
+                    <span>Visiting ${escapeHtml(visitor.resident)}</span>
+                    ${visitor.expectedArrival ? `<small>${formatDateTime(visitor.expectedArrival)} &ndash; ${formatDateTime(visitor.expectedDeparture)}</small>` : ''}
+                    <img src="${escapeHtml(state.passQrDataUrl)}" alt="QR pass for ${escapeHtml(visitor.name)}" class="visitor-pass-qr">
+                    <small>Show this code to security at the gate.</small>
+                </div>
+                <div class="modal-footer">
+                    <button type="button" class="btn btn-secondary" id="download-pass-png-btn">Download PNG</button>
+                    <button type="button" class="btn btn-primary" id="download-pass-pdf-btn">Download PDF</button>
+                </div>
+            </div>
+        </div>
     `;
+}
 
-    const logoSrc = state.companyInfo.logo ? state.companyInfo.logo : `data:image/svg+xml;base64,${btoa(defaultLogoSvg)}`;
+function renderVisitHistoryModal() {
+    if (!state.visitHistory) return '';
+    const { profile, visits } = state.visitHistory;
+    const canRegister = can(state.currentUser, 'visitor.register');
 
     return `
-        <header class="header">
-            <div class="header-branding">
-                <img src="${logoSrc}" alt="Company Logo" class="header-logo">
-                <div class="header-info-wrapper">
-                    <div class="header-title-role">
-                        <h1>${state.companyInfo.name || 'Visitor Management System'}</h1>
-                        <span class="user-role-badge">${state.currentUser.role}</span>
-                    </div>
-                    <div class="header-sub-info">
-                        ${state.companyInfo.address ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path fill-rule="evenodd" d="M9.69 18.933l.003.001C9.89 19.02 10 19 10 19s.11.02.308-.066l.002-.001.006-.003.018-.008a5.741 5.741 0 00.281-.14c.186-.1.4-.223.654-.369.257-.146.533-.304.828-.475V5.111a1 1 0 00-1-1H4a1 1 0 00-1 1v12.315a1.8 1.8 0 01.228.859c.074.33.19.643.343.932.152.289.324.55.51.782.186.232.384.44.6.622l.01.008.004.003.002.001a.752.752 0 00.246.136.25.25 0 00.37-.246l-.004-.012-1.292-4.13a.75.75 0 01.943-.944l4.13 1.292a.25.25 0 00.246-.37zM14.25 5.25a.75.75 0 000-1.5H12a.75.75 0 000 1.5h2.25z" clip-rule="evenodd" /></svg>${state.companyInfo.address}</span>` : ''}
-                        ${state.companyInfo.personInCharge ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M10 8a3 3 0 100-6 3 3 0 000 6zM3.465 14.493a1.23 1.23 0 00.41 1.412A9.957 9.957 0 0010 18c2.31 0 4.438-.784 6.131-2.095a1.23 1.23 0 00.41-1.412A9.992 9.992 0 0010 12c-2.31 0-4.438.784-6.131 2.095z" /></svg>${state.companyInfo.personInCharge}</span>` : ''}
-                        ${state.companyInfo.contactNumber ? `<span><svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor"><path d="M3.52 7.377a1.858 1.858 0 012.793 0l.228.227.113.113a1.858 1.858 0 010 2.628l-.113.113-.228.228a1.858 1.858 0 01-2.628 0l-.895-.895a.25.25 0 00-.354 0l-.895.895a1.858 1.858 0 01-2.628 0l-.228-.228-.113-.113a1.858 1.858 0 010-2.628l.113-.113.228-.228a1.858 1.858 0 012.628 0l.895.895a.25.25 0 00.354 0l.895-.895zM16.48 7.377a1.858 1.858 0 012.628 0l.228.227.113.113a1.858 1.858 0 010 2.628l-.113.113-.228.228a1.858 1.858 0 01-2.628 0l-.895-.895a.25.25 0 00-.354 0l-.895.895a1.858 1.858 0 01-2.793 0l-.228-.228-.113-.113a1.858 1.858 0 010-2.628l.113-.113.228-.228a1.858 1.858 0 012.793 0l.895.895a.25.25 0 00.354 0l.895-.895z" /></svg>${state.companyInfo.contactNumber}</span>` : ''}
+        <div class="modal-overlay visible">
+            <div class="modal-content large">
+                <div class="modal-header">
+                    <h3>Visit History</h3>
+                    <button class="close-button" id="close-history-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <div class="card-header visit-history-profile">
+                        ${profile.photo ?
+                            `<img src="${escapeHtml(imageSrc(profile.photo, 'thumb'))}" alt="${escapeHtml(profile.name)}" class="visitor-avatar visitor-avatar-img">` :
+                            `<div class="visitor-avatar" style="background-color: ${getAvatarColor(profile.name)};">${escapeHtml(getInitials(profile.name))}</div>`
+                        }
+                        <div class="visitor-name-status">
+                            <h4>${escapeHtml(profile.name)}</h4>
+                            <div class="visitor-note">${escapeHtml(profile.contact)}${profile.vehicle ? ` &middot; ${escapeHtml(profile.vehicle)} (${escapeHtml(profile.carBrand || 'N/A')})` : ''}</div>
+                            <div class="visitor-note">${visits.length} visit${visits.length === 1 ? '' : 's'}</div>
+                        </div>
                     </div>
+                    <ul class="visit-history-list">
+                        ${visits.map(visit => `
+                            <li class="visit-history-item">
+                                <div class="expected-info">
+                                    <strong>${formatDateTime(visit.checkInTime || visit.expectedArrival || new Date(visit.id).toISOString())}</strong>
+                                    <span>${escapeHtml(visit.purpose)} for ${escapeHtml(visit.resident)}</span>
+                                    ${visit.checkInTime ? `<small>In ${formatDateTime(visit.checkInTime)}${visit.checkOutTime ? `, out ${formatDateTime(visit.checkOutTime)}` : ''}</small>` : ''}
+                                </div>
+                                <div class="status status-${visit.status.toLowerCase().replace('-', '')}">${visit.status}</div>
+                            </li>
+                        `).join('')}
+                    </ul>
+                </div>
+                ${canRegister ? `
+                <div class="modal-footer">
+                    <button type="button" class="btn btn-primary" id="new-visit-btn">Register New Visit</button>
                 </div>
-            </div>
-            <div class="header-actions">
-                 ${state.currentUser.role === 'Admin' ? `
-                    <button id="company-setup-btn" class="btn btn-secondary">Company Profile</button>
-                    <button id="user-roles-btn" class="btn btn-secondary">User Roles</button>
-                    <button id="unit-management-btn" class="btn btn-secondary">Manage Units</button>
-                ` : ''}
-                ${['Admin', 'Officer', 'Security'].includes(state.currentUser.role) ? `
-                    <button id="overview-btn" class="btn btn-info">Overview</button>
                 ` : ''}
-                 <button id="logout-btn" class="btn btn-danger">Logout</button>
             </div>
-        </header>
+        </div>
     `;
 }
 
-function renderDashboardView() {
+function renderWatchlistModal() {
+    if (!state.isWatchlistModalOpen) return '';
+    const canManage = can(state.currentUser, 'watchlist.manage');
+
     return `
-        ${renderHeader()}
-        <main class="main-content">
-            <div class="visitors-header">
-                <h2>Visitor Dashboard</h2>
-                <div class="visitors-header-actions">
-                    <div class="search-bar">
-                        <span class="search-icon">
-                            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" fill="currentColor" viewBox="0 0 16 16">
-                                <path d="M11.742 10.344a6.5 6.5 0 1 0-1.397 1.398h-.001c.03.04.062.078.098.115l3.85 3.85a1 1 0 0 0 1.415-1.414l-3.85-3.85a1.007 1.007 0 0 0-.115-.1zM12 6.5a5.5 5.5 0 1 1-11 0 5.5 5.5 0 0 1 11 0z"/>
-                            </svg>
-                        </span>
-                        <input type="search" id="search-input" placeholder="Search by name, resident, vehicle..." value="${state.searchQuery}">
+        <div class="modal-overlay visible">
+            <div class="modal-content large">
+                <div class="modal-header">
+                    <h3>Watchlist</h3>
+                    <button class="close-button" id="close-watchlist-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    ${canManage ? `
+                    <div class="card add-schedule-form-container">
+                        <h4>Add to Watchlist</h4>
+                        <form id="add-watchlist-form">
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="watch-name">Full Name</label>
+                                    <input type="text" id="watch-name" name="watch-name" class="uppercase-input">
+                                </div>
+                                <div class="form-group">
+                                    <label for="watch-contact">Contact Number</label>
+                                    <input type="tel" id="watch-contact" name="watch-contact">
+                                </div>
+                                <div class="form-group">
+                                    <label for="watch-vehicle">Vehicle Plate</label>
+                                    <input type="text" id="watch-vehicle" name="watch-vehicle" class="uppercase-input">
+                                </div>
+                            </div>
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <label for="watch-action">When Matched</label>
+                                    <select id="watch-action" name="watch-action">
+                                        <option value="block">Block entry</option>
+                                        <option value="warn">Warn and allow</option>
+                                    </select>
+                                </div>
+                                <div class="form-group">
+                                    <label for="watch-photo">Photo (Optional)</label>
+                                    <input type="file" id="watch-photo" name="watch-photo" accept="image/jpeg,image/png,image/webp">
+                                </div>
+                            </div>
+                            <div class="form-group">
+                                <label for="watch-reason">Reason</label>
+                                <input type="text" id="watch-reason" name="watch-reason" placeholder="e.g., Banned by the committee" required>
+                            </div>
+                            <small class="visitor-note">Visitors are matched on any of name, contact number or plate. The photo is shown to guards for comparison.</small>
+                            <button type="submit" class="btn btn-primary">Add Entry</button>
+                        </form>
                     </div>
-                    ${['Admin', 'Officer', 'Security'].includes(state.currentUser?.role || '') ? `<button id="register-visitor-btn" class="btn btn-primary">Register New Visitor</button>` : ''}
+                    ` : ''}
+
+                    <ul class="schedule-list">
+                        ${state.watchlist.length > 0 ? state.watchlist.map(entry => `
+                            <li class="schedule-item">
+                                <div class="card-header">
+                                    ${entry.photo ? `<img src="${escapeHtml(imageSrc(entry.photo, 'thumb'))}" alt="${escapeHtml(entry.name || 'Watchlist photo')}" class="visitor-avatar visitor-avatar-img">` : ''}
+                                    <div class="expected-info">
+                                        <strong>${[entry.name, entry.contact, entry.vehicle].filter(Boolean).map(escapeHtml).join(' &middot; ')}</strong>
+                                        <span>${escapeHtml(entry.reason)}</span>
+                                        <small>${entry.action === 'block' ? 'Blocked' : 'Warning only'}, added by ${escapeHtml(entry.createdBy)} on ${formatDateTime(entry.createdAt)}</small>
+                                    </div>
+                                </div>
+                                ${canManage ? `<button class="btn btn-danger btn-small delete-watchlist-btn" data-watchlist-id="${entry.id}">Remove</button>` : ''}
+                            </li>
+                        `).join('') : '<p class="no-data-message">Nobody is on the watchlist.</p>'}
+                    </ul>
                 </div>
             </div>
-            <div id="visitor-grid-container">
-                ${renderVisitorsGrid()}
-            </div>
-        </main>
+        </div>
     `;
 }
 
-function renderVisitorsGrid() {
-    const { currentUser, searchQuery } = state;
-    if (!currentUser) return '';
-
-    let filteredVisitors = state.visitors;
-
-    if (currentUser.role === 'Resident') {
-        filteredVisitors = filteredVisitors.filter(v => v.resident === currentUser.unitNo);
-    }
+function renderParkingModal() {
+    if (!state.isParkingModalOpen || !state.currentUser) return '';
+    const isStaff = can(state.currentUser, 'visitor.viewAll');
+    const canManage = can(state.currentUser, 'parking.manage');
+    const parked = occupiedBays();
+    const bayBlocks = [...new Set(state.bays.map(b => b.block))];
+    const lookup = state.plateLookup;
 
-    if (searchQuery) {
-        const lowerCaseQuery = searchQuery.toLowerCase();
-        filteredVisitors = filteredVisitors.filter(v => 
-            v.name.toLowerCase().includes(lowerCaseQuery) ||
-            v.resident.toLowerCase().includes(lowerCaseQuery) ||
-            v.purpose.toLowerCase().includes(lowerCaseQuery) ||
-            v.vehicle?.toLowerCase().includes(lowerCaseQuery) ||
-            v.carBrand?.toLowerCase().includes(lowerCaseQuery)
-        );
-    }
-    
-    if (filteredVisitors.length === 0) {
-        return `<div class="no-visitors">No visitors found.</div>`;
-    }
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content large">
+                <div class="modal-header">
+                    <h3>${isStaff ? 'Parking' : 'My Vehicles'}</h3>
+                    <button class="close-button" id="close-parking-modal-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    ${isStaff ? `
+                    <div class="card add-schedule-form-container">
+                        <h4>Look Up a Plate</h4>
+                        <form id="plate-lookup-form" class="form-group-row">
+                            <div class="form-group">
+                                <input type="text" name="lookup-plate" class="uppercase-input" placeholder="e.g., WXY 1234" value="${escapeHtml(lookup?.plate ?? '')}" required>
+                            </div>
+                            <button type="submit" class="btn btn-primary">Look Up</button>
+                        </form>
+                        ${lookup ? `
+                            <div class="plate-lookup-result">
+                                ${lookup.residentVehicles.length > 0
+                                    ? lookup.residentVehicles.map(v => `<p><strong>${escapeHtml(v.plate)}</strong> is registered to ${escapeHtml(v.unitNo)}${v.carBrand ? ` (${escapeHtml(v.carBrand)})` : ''}.</p>`).join('')
+                                    : `<p><strong>${escapeHtml(lookup.plate)}</strong> is not registered to any unit.</p>`}
+                                ${lookup.visits.length > 0 ? `
+                                    <ul class="visit-history-list">
+                                        ${lookup.visits.map(v => `<li>${escapeHtml(v.name)}, visiting ${escapeHtml(v.resident)}: ${v.status}${v.checkInTime ? ` on ${formatDateTime(v.checkInTime)}` : ''}${v.parkingBay ? `, bay ${escapeHtml(v.parkingBay)}` : ''}</li>`).join('')}
+                                    </ul>
+                                ` : '<p class="no-data-message">No visits with this plate.</p>'}
+                            </div>
+                        ` : ''}
+                    </div>
 
-    const canEdit = ['Admin', 'Officer'].includes(currentUser.role);
-    const canApprove = ['Admin', 'Officer'].includes(currentUser.role);
-    const canCheckIn = ['Admin', 'Security'].includes(currentUser.role);
+                    <h4>Visitor Bays</h4>
+                    ${canManage ? `
+                    <form id="add-bays-form" class="form-group-row">
+                        <div class="form-group">
+                            <label for="bay-block">Block</label>
+                            <select id="bay-block" name="bay-block" required>
+                                <option value="">-- Select Block --</option>
+                                ${[...new Set(state.predefinedUnits.map(u => u.block))].sort().map(block => `<option value="${escapeHtml(block)}">${escapeHtml(block)}</option>`).join('')}
+                            </select>
+                        </div>
+                        <div class="form-group">
+                            <label for="bay-count">Bays to Add</label>
+                            <input type="number" id="bay-count" name="bay-count" min="1" max="200" value="1" required>
+                        </div>
+                        <button type="submit" class="btn btn-primary">Add Bays</button>
+                    </form>
+                    ` : ''}
+                    ${bayBlocks.length > 0 ? bayBlocks.map(block => `
+                        <div class="bay-block">
+                            <strong>Block ${escapeHtml(block)}</strong>
+                            <div class="bay-grid">
+                                ${state.bays.filter(b => b.block === block).map(b => {
+                                    const visitor = parked.get(bayKey(b));
+                                    return `
+                                        <div class="bay ${visitor ? 'occupied' : ''}" title="${visitor ? `${escapeHtml(visitor.name)} (${escapeHtml(visitor.vehicle || 'no plate')})` : 'Free'}">
+                                            <span>${escapeHtml(b.label)}</span>
+                                            ${visitor ? `<small>${escapeHtml(visitor.vehicle || visitor.name)}</small>` : ''}
+                                            ${canManage && !visitor ? `<button class="close-button delete-bay-btn" data-bay-id="${escapeHtml(bayKey(b))}" title="Delete bay">&times;</button>` : ''}
+                                        </div>
+                                    `;
+                                }).join('')}
+                            </div>
+                        </div>
+                    `).join('') : '<p class="no-data-message">No visitor parking bays have been set up.</p>'}
+                    ` : ''}
 
-    return `
-        <div class="visitor-grid">
-            ${filteredVisitors.map(visitor => `
-                <div class="visitor-card visitor-card-status-${visitor.status.toLowerCase().replace('-', '')}">
-                    <div class="card-header">
-                        ${visitor.photo ? 
-                            `<img src="${visitor.photo}" alt="${visitor.name}" class="visitor-avatar visitor-avatar-img">` :
-                            `<div class="visitor-avatar" style="background-color: ${getAvatarColor(visitor.name)};">${getInitials(visitor.name)}</div>`
-                        }
-                        <div class="visitor-name-status">
-                            <h4>${visitor.name}</h4>
-                            <div class="status status-${visitor.status.toLowerCase().replace('-', '')}">${visitor.status}</div>
+                    <h4>${isStaff ? 'Resident Vehicles' : `Vehicles Registered to ${escapeHtml(state.currentUser.unitNo)}`}</h4>
+                    ${canManage || state.currentUser.unitNo ? `
+                    <form id="add-vehicle-form" class="form-group-row">
+                        <div class="form-group">
+                            <label for="vehicle-plate">Plate</label>
+                            <input type="text" id="vehicle-plate" name="vehicle-plate" class="uppercase-input" required>
                         </div>
-                    </div>
-                    <div class="card-body">
-                        <ul class="visitor-details">
-                            <li><strong>Resident:</strong> ${visitor.resident}</li>
-                            <li><strong>Purpose:</strong> ${visitor.purpose}</li>
-                            ${visitor.vehicle ? `<li><strong>Vehicle:</strong> ${visitor.vehicle} (${visitor.carBrand || 'N/A'})</li>` : ''}
-                            <li><strong>Contact:</strong> ${visitor.contact}</li>
-                            ${visitor.checkInTime ? `<li class="visitor-detail-checked-in"><strong>Checked-in:</strong> ${formatDateTime(visitor.checkInTime)}</li>` : ''}
-                            ${visitor.checkOutTime ? `<li class="visitor-detail-checked-out"><strong>Checked-out:</strong> ${formatDateTime(visitor.checkOutTime)}</li>` : ''}
-                        </ul>
-                    </div>
-                    <div class="card-footer">
-                        <div class="action-buttons">
-                            ${visitor.status === 'Pending' && canApprove ? `<button class="btn btn-success btn-small" data-action="approve" data-visitor-id="${visitor.id}">Approve</button>` : ''}
-                            ${visitor.status === 'Pending' && canApprove ? `<button class="btn btn-danger btn-small" data-action="reject" data-visitor-id="${visitor.id}">Reject</button>` : ''}
-                            ${visitor.status === 'Approved' && canCheckIn ? `<button class="btn btn-info btn-small" data-action="check-in" data-visitor-id="${visitor.id}">Check-in</button>` : ''}
-                            ${visitor.status === 'Checked-in' && canCheckIn ? `<button class="btn btn-secondary btn-small" data-action="check-out" data-visitor-id="${visitor.id}">Check-out</button>` : ''}
-                            ${canEdit ? `<button class="btn btn-secondary btn-small" data-action="edit" data-visitor-id="${visitor.id}">Edit</button>` : ''}
+                        <div class="form-group">
+                            <label for="vehicle-brand">Car Brand</label>
+                            <input type="text" id="vehicle-brand" name="vehicle-brand" class="uppercase-input">
                         </div>
-                    </div>
+                        ${canManage ? `
+                        <div class="form-group">
+                            <label for="vehicle-unit">Unit</label>
+                            <select id="vehicle-unit" name="vehicle-unit" required>
+                                <option value="">-- Select Unit --</option>
+                                ${state.predefinedUnits.map(u => `<option value="${escapeHtml(u.block)}-${escapeHtml(u.houseNo)}">${escapeHtml(u.block)}-${escapeHtml(u.houseNo)}</option>`).join('')}
+                            </select>
+                        </div>
+                        ` : ''}
+                        <button type="submit" class="btn btn-primary">Register</button>
+                    </form>
+                    ` : ''}
+                    <ul class="schedule-list">
+                        ${state.vehicles.length > 0 ? state.vehicles.map(v => `
+                            <li class="schedule-item">
+                                <div class="expected-info">
+                                    <strong>${escapeHtml(v.plate)}</strong>
+                                    <span>${escapeHtml(v.unitNo)}${v.carBrand ? ` &middot; ${escapeHtml(v.carBrand)}` : ''}</span>
+                                    <small>Added by ${escapeHtml(v.addedBy)}</small>
+                                </div>
+                                ${canManage || v.unitNo === state.currentUser?.unitNo ? `<button class="btn btn-danger btn-small delete-vehicle-btn" data-vehicle-id="${v.id}">Remove</button>` : ''}
+                            </li>
+                        `).join('') : '<p class="no-data-message">No vehicles are registered.</p>'}
+                    </ul>
                 </div>
-            `).join('')}
+            </div>
         </div>
     `;
 }
 
-function renderVisitorFormModal() {
-    if (!state.isModalOpen) return '';
+function renderExportModal() {
+    if (!state.isExportModalOpen) return '';
+    // Reports usually go to the management committee once a month, so the form starts on last month.
+    const now = new Date();
+    const dateValue = (date: Date) => toDateTimeInputValue(date.toISOString()).slice(0, 10);
+    const lastMonthStart = dateValue(new Date(now.getFullYear(), now.getMonth() - 1, 1));
+    const lastMonthEnd = dateValue(new Date(now.getFullYear(), now.getMonth(), 0));
+    const blocks = [...new Set(state.predefinedUnits.map(u => u.block))].sort();
 
-    const visitor = state.editingVisitorId ? state.visitors.find(v => v.id === state.editingVisitorId) : null;
-    const title = visitor ? 'Edit Visitor Details' : 'Register New Visitor';
-    
-    const blockOptions = [...new Set(state.predefinedUnits.map(u => u.block))].sort();
-    
-    // Use the new helper for initial render
-    const houseNoOptionsHTML = getHouseNoOptionsHTML(visitor?.block || '', visitor?.houseNo);
-    
     return `
         <div class="modal-overlay visible">
-            <div class="modal-content large">
+            <div class="modal-content standard">
                 <div class="modal-header">
-                    <h3>${title}</h3>
-                    <button class="close-button" id="close-modal-btn">&times;</button>
+                    <h3>Export Visitor Report</h3>
+                    <button class="close-button" id="close-export-modal-btn">&times;</button>
                 </div>
-                <form id="visitor-form">
-                    <div class="modal-body-split">
-                        <div class="form-column">
-                            <h4>Visitor Information</h4>
+                <form id="export-form">
+                    <div class="modal-body">
+                        <div class="form-group-row">
                             <div class="form-group">
-                                <label for="name">Full Name</label>
-                                <input type="text" id="name" name="name" class="uppercase-input" value="${visitor?.name || ''}" required>
+                                <label for="export-from">From</label>
+                                <input type="date" id="export-from" name="export-from" value="${lastMonthStart}">
                             </div>
                             <div class="form-group">
-                                <label for="contact">Contact Number</label>
-                                <input type="tel" id="contact" name="contact" value="${visitor?.contact || ''}" required>
+                                <label for="export-to">To</label>
+                                <input type="date" id="export-to" name="export-to" value="${lastMonthEnd}">
                             </div>
+                        </div>
+                        <div class="form-group-row">
                             <div class="form-group">
-                                <label for="purpose">Purpose of Visit</label>
-                                <input type="text" id="purpose" name="purpose" class="uppercase-input" value="${visitor?.purpose || ''}" required>
+                                <label for="export-block">Block</label>
+                                <select id="export-block" name="export-block">
+                                    <option value="">All blocks</option>
+                                    ${blocks.map(block => `<option value="${escapeHtml(block)}">Block ${escapeHtml(block)}</option>`).join('')}
+                                </select>
                             </div>
-                            
-                            <h4>Resident Details</h4>
-                            <div class="form-group-row">
-                                <div class="form-group">
-                                    <label for="block">Block</label>
-                                    <select id="block" name="block" required>
-                                        <option value="">-- Select Block --</option>
-                                        ${blockOptions.map(b => `<option value="${b}" ${visitor?.block === b ? 'selected' : ''}>${b}</option>`).join('')}
-                                    </select>
-                                </div>
-                                <div class="form-group">
-                                    <label for="houseNo">House No.</label>
-                                    <select id="houseNo" name="houseNo" required ${!visitor?.block ? 'disabled' : ''}>
-                                        ${houseNoOptionsHTML}
-                                    </select>
-                                </div>
+                            <div class="form-group">
+                                <label for="export-unit">Unit</label>
+                                <select id="export-unit" name="export-unit">
+                                    <option value="">All units</option>
+                                    ${[...state.predefinedUnits].sort(compareUnits).map(u => `<option value="${escapeHtml(u.block)}-${escapeHtml(u.houseNo)}">${escapeHtml(u.block)}-${escapeHtml(u.houseNo)}</option>`).join('')}
+                                </select>
                             </div>
-
-                            <h4>Vehicle Information (Optional)</h4>
-                             <div class="form-group-row">
-                                <div class="form-group">
-                                    <label for="vehicle">Vehicle Plate</label>
-                                    <input type="text" id="vehicle" name="vehicle" class="uppercase-input" value="${visitor?.vehicle || ''}">
-                                </div>
-                                <div class="form-group">
-                                    <label for="carBrand">Car Brand</label>
-                                    <input type="text" id="carBrand" name="carBrand" class="uppercase-input" value="${visitor?.carBrand || ''}">
-                                </div>
+                        </div>
+                        <div class="form-group">
+                            <label for="export-purpose">Purpose</label>
+                            <input type="text" id="export-purpose" name="export-purpose" class="uppercase-input" placeholder="All purposes">
+                        </div>
+                        <div class="form-group">
+                            <label>Status</label>
+                            <div class="schedule-days">
+                                ${VISITOR_STATUSES.map(status => `<label><input type="checkbox" name="export-status" value="${status}"> ${status}</label>`).join('')}
                             </div>
+                            <small>Leave all unticked to include every status.</small>
                         </div>
-
-                        <div class="form-column">
-                             <div class="camera-section">
-                                <label for="photo-capture">Visitor Photo</label>
-                                <div class="photo-capture-area ${state.cameraStream ? 'capturing' : ''}">
-                                    <img id="photo-preview" src="${state.capturedPhotoData || 'data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7'}" alt="Visitor photo preview">
-                                    <video id="video-feed" autoplay playsinline></video>
-                                    <canvas id="photo-canvas" style="display: none;"></canvas>
-                                </div>
-                                <div class="camera-controls">
-                                    <button type="button" class="btn btn-secondary" id="camera-action-btn" data-action="${state.cameraStream ? 'capture' : (state.capturedPhotoData ? 'retake' : 'open')}">
-                                        ${state.cameraStream ? 'Capture' : (state.capturedPhotoData ? 'Retake Snapshot' : 'Take Snapshot')}
-                                    </button>
-                                </div>
+                        <div class="form-group">
+                            <label>Format</label>
+                            <div class="schedule-kind-options">
+                                <label><input type="radio" name="export-format" value="pdf" checked> PDF report</label>
+                                <label><input type="radio" name="export-format" value="csv"> CSV spreadsheet</label>
                             </div>
                         </div>
                     </div>
                     <div class="modal-footer">
-                        <button type="button" class="btn btn-secondary" id="cancel-modal-btn">Cancel</button>
-                        <button type="submit" class="btn btn-primary">${visitor ? 'Save Changes' : 'Register Visitor'}</button>
+                        <button type="button" class="btn btn-secondary" id="cancel-export-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary" ${state.isExporting ? 'disabled' : ''}>${state.isExporting ? 'Exporting...' : 'Export'}</button>
                     </div>
                 </form>
             </div>
@@ -1207,49 +5049,40 @@ function renderVisitorFormModal() {
     `;
 }
 
-function renderCompanySetupModal() {
-    if (!state.isCompanySetupModalOpen) return '';
+
+// Asks which bay a visitor who came by car will use before checking them in.
+function renderBayPickerModal() {
+    const visitor = state.visitors.find(v => v.id === state.parkingVisitorId);
+    if (!visitor) return '';
+    const parked = occupiedBays();
+    const block = parseUnitNo(visitor.resident)?.block;
+    // Bays in the block being visited come first.
+    const free = state.bays
+        .filter(b => !parked.has(bayKey(b)))
+        .sort((a, b) => Number(b.block === block) - Number(a.block === block) || compareBays(a, b));
 
     return `
         <div class="modal-overlay visible">
             <div class="modal-content standard">
                 <div class="modal-header">
-                    <h3>Company Profile Setup</h3>
-                    <button class="close-button" id="close-company-setup-btn">&times;</button>
+                    <h3>Parking for ${escapeHtml(visitor.name)}</h3>
+                    <button class="close-button" id="close-bay-picker-btn">&times;</button>
                 </div>
-                <form id="company-setup-form">
+                <form id="bay-picker-form">
                     <div class="modal-body">
+                        <p>${escapeHtml(visitor.vehicle)} is visiting ${escapeHtml(visitor.resident)}.</p>
                         <div class="form-group">
-                            <label for="companyName">Company/Residence Name</label>
-                            <input type="text" id="companyName" name="companyName" value="${state.companyInfo.name}" required>
-                        </div>
-                        <div class="form-group">
-                            <label for="companyLogo">Company Logo</label>
-                            <div class="logo-upload-area">
-                                <img src="${state.companyInfo.logo || ''}" alt="Logo Preview" id="logo-preview" class="logo-preview">
-                                <input type="file" id="companyLogo" name="companyLogo" accept="image/*">
-                            </div>
-                        </div>
-                        <div class="form-group">
-                            <label for="companyAddress">Address</label>
-                            <input type="text" id="companyAddress" name="companyAddress" value="${state.companyInfo.address}">
-                        </div>
-                         <div class="form-group">
-                            <label for="personInCharge">Person In Charge</label>
-                            <input type="text" id="personInCharge" name="personInCharge" value="${state.companyInfo.personInCharge}">
-                        </div>
-                         <div class="form-group">
-                            <label for="contactNumber">Contact Number</label>
-                            <input type="tel" id="contactNumber" name="contactNumber" value="${state.companyInfo.contactNumber}">
-                        </div>
-                         <div class="form-group">
-                            <label for="welcomeMessage">Welcome Message</label>
-                            <input type="text" id="welcomeMessage" name="welcomeMessage" value="${state.companyInfo.welcomeMessage}">
+                            <label for="parking-bay">Parking Bay</label>
+                            <select id="parking-bay" name="parking-bay">
+                                ${free.map(b => `<option value="${escapeHtml(bayKey(b))}">${escapeHtml(bayKey(b))}</option>`).join('')}
+                                <option value="">No parking needed</option>
+                            </select>
+                            ${free.length === 0 ? '<small class="visitor-note">All visitor bays are taken.</small>' : ''}
                         </div>
                     </div>
                     <div class="modal-footer">
-                        <button type="button" class="btn btn-secondary" id="cancel-company-setup-btn">Cancel</button>
-                        <button type="submit" class="btn btn-primary">Save Changes</button>
+                        <button type="button" class="btn btn-secondary" id="cancel-bay-picker-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Check In</button>
                     </div>
                 </form>
             </div>
@@ -1257,78 +5090,297 @@ function renderCompanySetupModal() {
     `;
 }
 
-function renderUserRoleModal() {
-    if (!state.isUserRoleModalOpen) return '';
+// Shown on its own, without the rest of the app, while the user has to replace their password.
+// A short name for the browser and system a session was started from. Only known names are
+// shown, so the raw header (which anyone can set) never reaches the page.
+function describeUserAgent(userAgent: string): string {
+    const browser = /Edg\//.test(userAgent) ? 'Edge'
+        : /OPR\/|Opera/.test(userAgent) ? 'Opera'
+        : /Firefox\//.test(userAgent) ? 'Firefox'
+        : /Chrome\//.test(userAgent) ? 'Chrome'
+        : /Safari\//.test(userAgent) ? 'Safari'
+        : '';
+    const system = /iPad/.test(userAgent) ? 'iPad'
+        : /iPhone/.test(userAgent) ? 'iPhone'
+        : /Android/.test(userAgent) ? 'Android'
+        : /Windows/.test(userAgent) ? 'Windows'
+        : /Mac OS X/.test(userAgent) ? 'macOS'
+        : /Linux/.test(userAgent) ? 'Linux'
+        : '';
+    if (browser && system) return `${browser} on ${system}`;
+    return browser || system || 'Unknown device';
+}
 
-    const { users, currentUser } = state;
-    const adminCount = users.filter(u => u.role === 'Admin').length;
+function renderSessionList() {
+    const { sessions } = state;
+    if (sessions === null) return '<p class="visitor-note">Loading sessions...</p>';
+    if (sessions.length === 0) return '<p class="visitor-note">No active sessions.</p>';
+    return `
+        <ul class="session-list">
+            ${sessions.map(session => `
+                <li class="session-item">
+                    <div>
+                        <strong>${describeUserAgent(session.userAgent)}</strong>
+                        ${session.current ? '<span class="session-current">This device</span>' : ''}
+                        <small>Signed in ${formatDateTime(session.createdAt)}, last active ${formatTimeAgo(new Date(session.lastSeenAt))}. Ends by ${formatDateTime(session.expiresAt)} at the latest.</small>
+                    </div>
+                    <button class="btn btn-secondary btn-small revoke-session-btn" data-session-id="${session.id}">Sign Out</button>
+                </li>
+            `).join('')}
+        </ul>
+        <button class="btn btn-danger btn-small" id="revoke-all-sessions-btn">Sign Out Everywhere</button>
+    `;
+}
+
+function renderTwoFactorSetup() {
+    const setup = state.twoFactorSetup;
+    if (!setup) return '<button class="btn btn-primary" id="start-two-factor-btn">Set Up Two-Factor Authentication</button>';
+    return `
+        <div class="two-factor-setup">
+            <p>Scan this code with an authenticator app such as Google Authenticator or Microsoft Authenticator, or type in the key below.</p>
+            <img class="two-factor-qr" src="${escapeHtml(setup.qrDataUrl)}" alt="QR code for your authenticator app">
+            <div class="two-factor-secret">${setup.secret.match(/.{1,4}/g)?.join(' ')}</div>
+            <form id="two-factor-setup-form">
+                <div class="form-group">
+                    <label for="two-factor-setup-code">Code from the App</label>
+                    <input type="text" id="two-factor-setup-code" name="code" inputmode="numeric" autocomplete="one-time-code" required>
+                </div>
+                <div class="two-factor-actions">
+                    <button type="button" class="btn btn-secondary" id="cancel-two-factor-setup-btn">Cancel</button>
+                    <button type="submit" class="btn btn-primary">Turn On</button>
+                </div>
+            </form>
+        </div>
+    `;
+}
+
+function renderTwoFactorCard() {
+    const user = state.currentUser;
+    if (!user || !canUseTwoFactor(user)) return '';
+
+    let body: string;
+    if (state.isOfflineMode) {
+        body = '<p class="visitor-note">Two-factor authentication is only available when connected to the server.</p>';
+    } else if (!user.twoFactorEnabledAt) {
+        body = `<p>Confirm each login with a code from an authenticator app on your phone.</p>${renderTwoFactorSetup()}`;
+    } else {
+        body = `
+            <p>On since ${formatDateTime(user.twoFactorEnabledAt)}. Each login asks for a code from your authenticator app.</p>
+            <div class="form-group">
+                <label for="two-factor-code">Current Code or Recovery Code</label>
+                <input type="text" id="two-factor-code" autocomplete="one-time-code">
+            </div>
+            <div class="two-factor-actions">
+                <button class="btn btn-secondary" id="new-recovery-codes-btn">New Recovery Codes</button>
+                ${state.passwordPolicy.requireTwoFactor ? '' : '<button class="btn btn-danger" id="disable-two-factor-btn">Turn Off</button>'}
+            </div>
+        `;
+    }
+    return `
+        <div class="card account-card">
+            <h3>Two-Factor Authentication</h3>
+            ${body}
+        </div>
+    `;
+}
+
+function renderTwoFactorRequiredView() {
+    return `
+        <div class="login-container">
+            <div class="login-card">
+                <h1 class="login-title">Set Up Two-Factor Authentication</h1>
+                <p class="login-subtitle">Your role must confirm each login with a code from an authenticator app. Please set it up to continue.</p>
+                ${renderTwoFactorSetup()}
+                <p class="login-hint"><a href="#" id="logout-link">Log out</a></p>
+            </div>
+        </div>
+    `;
+}
+
+function renderRecoveryCodesModal() {
+    if (!state.recoveryCodes) return '';
 
     return `
         <div class="modal-overlay visible">
-            <div class="modal-content standard">
+            <div class="modal-content small">
                 <div class="modal-header">
-                    <h3>Manage User Roles</h3>
-                    <button class="close-button" id="close-user-role-btn">&times;</button>
+                    <h3>Recovery Codes</h3>
                 </div>
                 <div class="modal-body">
-                    <ul class="user-role-list">
-                        ${users.map(user => {
-                            const isSelf = currentUser?.id === user.id;
-                            const canChangeRole = !(isSelf && adminCount <= 1);
-                            return `
-                                <li class="user-role-item" data-user-id="${user.id}">
-                                    <span>${user.username}</span>
-                                    <div class="user-role-actions">
-                                        <select class="role-select" data-userid="${user.id}" ${canChangeRole ? '' : 'disabled'}>
-                                            <option value="Admin" ${user.role === 'Admin' ? 'selected' : ''}>Admin</option>
-                                            <option value="Security" ${user.role === 'Security' ? 'selected' : ''}>Security</option>
-                                            <option value="Officer" ${user.role === 'Officer' ? 'selected' : ''}>Officer</option>
-                                            <option value="Resident" ${user.role === 'Resident' ? 'selected' : ''}>Resident</option>
-                                        </select>
-                                        <button class="btn btn-secondary btn-small edit-user-btn" data-userid="${user.id}">Edit</button>
-                                        <button class="btn btn-danger btn-small delete-user-btn" data-userid="${user.id}">Delete</button>
-                                    </div>
-                                </li>
-                            `
-                        }).join('')}
+                    <p>Keep these somewhere safe. Each one logs you in once if you don't have your phone. They won't be shown again.</p>
+                    <ul class="recovery-codes">
+                        ${state.recoveryCodes.map(code => `<li>${escapeHtml(code)}</li>`).join('')}
                     </ul>
                 </div>
+                <div class="modal-footer">
+                    <button class="btn btn-primary" id="close-recovery-codes-btn">I Have Saved These</button>
+                </div>
+            </div>
+        </div>
+    `;
+}
+
+function renderAccountView() {
+    const isForced = !!state.currentUser?.mustChangePassword;
+    const form = `
+        <form id="change-password-form">
+            <div class="form-group">
+                <label for="currentPassword">Current Password</label>
+                <input type="password" id="currentPassword" name="currentPassword" autocomplete="current-password" required>
+            </div>
+            <div class="form-group">
+                <label for="newPassword">New Password</label>
+                <input type="password" id="newPassword" name="newPassword" autocomplete="new-password" required>
+                <small class="visitor-note">${describePasswordPolicy()}</small>
+            </div>
+            <div class="form-group">
+                <label for="confirmPassword">Confirm New Password</label>
+                <input type="password" id="confirmPassword" name="confirmPassword" autocomplete="new-password" required>
+            </div>
+            <button type="submit" class="btn btn-primary btn-full-width">Change Password</button>
+        </form>
+    `;
+
+    if (isForced) {
+        return `
+            <div class="login-container">
+                <div class="login-card">
+                    <h1 class="login-title">Choose a New Password</h1>
+                    <p class="login-subtitle">Your password was set by an administrator or no longer meets the password rules. Please choose a new one to continue.</p>
+                    ${form}
+                    <p class="login-hint"><a href="#" id="logout-link">Log out</a></p>
+                </div>
+            </div>
+        `;
+    }
+    return `
+        ${renderHeader()}
+        <main class="main-content">
+            <div class="visitors-header">
+                <h2>My Account</h2>
+                <button id="dashboard-btn" class="btn btn-primary">Back to Dashboard</button>
+            </div>
+            <div class="card account-card">
+                <h3>Change Password</h3>
+                ${form}
+            </div>
+            ${renderTwoFactorCard()}
+            <div class="card account-card">
+                <h3>Active Sessions</h3>
+                ${state.isOfflineMode ? '<p class="visitor-note">Sessions are only tracked when connected to the server.</p>' : renderSessionList()}
+            </div>
+        </main>
+    `;
+}
+
+function renderRolesModal() {
+    if (!state.isRolesModalOpen) return '';
+    const role = state.roles.find(r => r.name === state.editingRoleName) ?? state.roles[0];
+    if (!role) return '';
+    const holders = state.users.filter(u => u.role === role.name).length;
+
+    return `
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
+                <div class="modal-header">
+                    <h3>Roles &amp; Permissions</h3>
+                    <button class="close-button" id="close-roles-btn">&times;</button>
+                </div>
+                <div class="modal-body">
+                    <div class="form-group">
+                        <label for="role-editor-select">Role</label>
+                        <select id="role-editor-select">${roleOptionsHTML(role.name)}</select>
+                        <small class="visitor-note">${role.builtIn ? 'Built-in role' : 'Custom role'}, held by ${holders} user(s).</small>
+                    </div>
+                    <form id="role-form">
+                        <input type="hidden" name="roleName" value="${escapeHtml(role.name)}">
+                        <div class="role-permissions">
+                            ${(Object.entries(PERMISSION_LABELS) as [Permission, string][]).map(([permission, label]) => `
+                                <label><input type="checkbox" name="perm-${permission}" ${role.permissions.includes(permission) ? 'checked' : ''}> ${label}</label>
+                            `).join('')}
+                        </div>
+                        <div class="form-group">
+                            <label><input type="checkbox" name="hasUnit" ${role.hasUnit ? 'checked' : ''} ${role.builtIn ? 'disabled' : ''}> Users with this role belong to a unit</label>
+                            <small class="visitor-note">They only see and answer for their own unit's visitors.</small>
+                        </div>
+                        <div class="role-form-actions">
+                            ${role.builtIn ? '' : `<button type="button" class="btn btn-danger" id="delete-role-btn" data-role="${escapeHtml(role.name)}">Delete Role</button>`}
+                            <button type="submit" class="btn btn-primary">Save ${escapeHtml(role.name)}</button>
+                        </div>
+                    </form>
+                    <form id="add-role-form" class="add-role-form">
+                        <h4>New Role</h4>
+                        <div class="form-group-row">
+                            <div class="form-group">
+                                <label for="new-role-name">Name</label>
+                                <input type="text" id="new-role-name" name="newRoleName" maxlength="${MAX_ROLE_NAME_LENGTH}" placeholder="e.g. Night Supervisor" required>
+                            </div>
+                            <div class="form-group">
+                                <label for="new-role-copy">Start From</label>
+                                <select id="new-role-copy" name="copyFrom">
+                                    <option value="">No permissions</option>
+                                    ${state.roles.map(r => `<option value="${escapeHtml(r.name)}">${escapeHtml(r.name)}</option>`).join('')}
+                                </select>
+                            </div>
+                        </div>
+                        <div class="form-group">
+                            <label><input type="checkbox" name="newRoleHasUnit"> Users with this role belong to a unit</label>
+                        </div>
+                        <button type="submit" class="btn btn-secondary">Add Role</button>
+                    </form>
+                </div>
             </div>
         </div>
     `;
 }
 
-function renderEditUserModal() {
-    if (!state.isEditUserModalOpen || state.editingUserId === null) return '';
-
-    const user = state.users.find(u => u.id === state.editingUserId);
-    if (!user) return '';
+function renderPasswordPolicyModal() {
+    if (!state.isPasswordPolicyModalOpen) return '';
+    const policy = state.passwordPolicy;
+    const checkbox = (name: keyof PasswordPolicy, label: string) =>
+        `<label><input type="checkbox" name="policy-${name}" ${policy[name] ? 'checked' : ''}> ${label}</label>`;
 
     return `
-         <div class="modal-overlay visible">
-            <div class="modal-content small">
+        <div class="modal-overlay visible">
+            <div class="modal-content standard">
                 <div class="modal-header">
-                    <h3>Edit User: ${user.username}</h3>
-                    <button class="close-button" id="close-edit-user-btn">&times;</button>
+                    <h3>Password Rules</h3>
+                    <button class="close-button" id="close-password-policy-btn">&times;</button>
                 </div>
-                <form id="edit-user-form">
+                <form id="password-policy-form">
                     <div class="modal-body">
                         <div class="form-group">
-                            <label for="username">Username</label>
-                            <input type="text" id="username" name="username" value="${user.username}" required>
+                            <label for="policy-minLength">Minimum Length</label>
+                            <input type="number" id="policy-minLength" name="policy-minLength" min="6" max="128" value="${policy.minLength}" required>
                         </div>
                         <div class="form-group">
-                            <label for="newPassword">New Password (optional)</label>
-                            <input type="password" id="newPassword" name="newPassword" placeholder="Leave blank to keep current password">
+                            <label>Passwords Must Contain</label>
+                            <div class="schedule-days">
+                                ${checkbox('requireUppercase', 'Upper-case letter')}
+                                ${checkbox('requireLowercase', 'Lower-case letter')}
+                                ${checkbox('requireNumber', 'Number')}
+                                ${checkbox('requireSymbol', 'Symbol')}
+                            </div>
+                            <small class="visitor-note">Users whose password doesn't meet new rules are asked to change it the next time they log in.</small>
+                        </div>
+                        <div class="form-group-row">
+                            <div class="form-group">
+                                <label for="policy-maxFailedAttempts">Failed Logins Before Lockout (0 for no limit)</label>
+                                <input type="number" id="policy-maxFailedAttempts" name="policy-maxFailedAttempts" min="0" step="1" value="${policy.maxFailedAttempts}" required>
+                            </div>
+                            <div class="form-group">
+                                <label for="policy-lockoutMinutes">Lockout (minutes)</label>
+                                <input type="number" id="policy-lockoutMinutes" name="policy-lockoutMinutes" min="1" step="1" value="${policy.lockoutMinutes}" required>
+                            </div>
                         </div>
                         <div class="form-group">
-                            <label for="confirmPassword">Confirm New Password</label>
-                            <input type="password" id="confirmPassword" name="confirmPassword">
+                            ${checkbox('requireTwoFactor', 'Require two-factor authentication for everyone who can approve visitors or manage users')}
+                            <small class="visitor-note">Those who haven't set it up are asked to before they can continue.</small>
                         </div>
                     </div>
                     <div class="modal-footer">
-                        <button type="button" class="btn btn-secondary" id="cancel-edit-user-btn">Cancel</button>
-                        <button type="submit" class="btn btn-primary">Save Changes</button>
+                        <button type="button" class="btn btn-secondary" id="cancel-password-policy-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Save Rules</button>
                     </div>
                 </form>
             </div>
@@ -1336,233 +5388,104 @@ function renderEditUserModal() {
     `;
 }
 
-function renderApprovalModal() {
-    if (!state.isApprovalModalOpen) return '';
-
-    const pendingVisitors = state.visitors.filter(v => v.status === 'Pending');
-    if (pendingVisitors.length === 0) return '';
+function renderStayPolicyModal() {
+    if (!state.isStayPolicyModalOpen) return '';
+    const policy = state.stayPolicy;
+    // A few blank rows for new purposes; leaving one empty skips it.
+    const rows = [...Object.entries(policy.maxHoursByPurpose), ...Array(3).fill(['', ''])];
 
     return `
         <div class="modal-overlay visible">
-            <div class="modal-content">
+            <div class="modal-content standard">
                 <div class="modal-header">
-                    <h3>Pending Visitor Approvals</h3>
-                    <button class="close-button" id="close-approval-modal-btn">&times;</button>
+                    <h3>Stay Limits</h3>
+                    <button class="close-button" id="close-stay-policy-btn">&times;</button>
                 </div>
-                <div class="modal-body">
-                    <p>The following visitors are awaiting approval. You can approve or reject them now.</p>
-                    <ul class="pending-approval-list">
-                        ${pendingVisitors.map(visitor => `
-                            <li class="pending-approval-item">
-                                <div class="pending-approval-info">
-                                    <strong>${visitor.name}</strong>
-                                    <span>To visit: ${visitor.resident}</span>
-                                    <small>Purpose: ${visitor.purpose}</small>
+                <form id="stay-policy-form">
+                    <div class="modal-body">
+                        <div class="form-group">
+                            <label for="stay-default">Default Maximum Stay (hours, 0 for no limit)</label>
+                            <input type="number" id="stay-default" name="stay-default" min="0" step="0.5" value="${policy.defaultMaxHours}" required>
+                        </div>
+                        <h4>Per Purpose</h4>
+                        ${rows.map(([purpose, hours]) => `
+                            <div class="form-group-row">
+                                <div class="form-group">
+                                    <input type="text" name="stay-purpose" class="uppercase-input" placeholder="e.g., DELIVERY" value="${escapeHtml(purpose)}">
                                 </div>
-                                <div class="pending-approval-actions">
-                                    <button class="btn btn-success btn-small" data-action="approve" data-visitor-id="${visitor.id}">Approve</button>
-                                    <button class="btn btn-danger btn-small" data-action="reject" data-visitor-id="${visitor.id}">Reject</button>
+                                <div class="form-group">
+                                    <input type="number" name="stay-hours" min="0" step="0.5" placeholder="Hours" value="${hours}">
                                 </div>
-                            </li>
+                            </div>
                         `).join('')}
-                    </ul>
-                </div>
-                <div class="modal-footer">
-                    <button type="button" class="btn btn-secondary" id="review-later-btn">Review Later</button>
-                </div>
+                        <div class="form-group">
+                            <label for="stay-autoCheckOut">Automatic Check-out at End of Day</label>
+                            <input type="time" id="stay-autoCheckOut" name="stay-autoCheckOut" value="${escapeHtml(policy.autoCheckOutAt)}">
+                            <small class="visitor-note">Leave empty to keep visitors checked in until a guard checks them out.</small>
+                        </div>
+                    </div>
+                    <div class="modal-footer">
+                        <button type="button" class="btn btn-secondary" id="cancel-stay-policy-btn">Cancel</button>
+                        <button type="submit" class="btn btn-primary">Save Limits</button>
+                    </div>
+                </form>
             </div>
         </div>
     `;
 }
 
-function renderChatNotificationModal() {
-    if (!state.isChatNotificationModalOpen) return '';
-
-    const pendingChats = state.pendingChats.filter(c => !c.dismissed);
-    if (pendingChats.length === 0) return '';
+function renderSessionsModal() {
+    if (!state.isSessionsModalOpen) return '';
+    const user = state.users.find(u => u.id === state.sessionsUserId);
 
     return `
         <div class="modal-overlay visible">
-            <div class="modal-content standard">
+            <div class="modal-content small">
                 <div class="modal-header">
-                    <h3>Pending User Chats</h3>
-                    <button class="close-button" id="close-chat-notification-btn">&times;</button>
+                    <h3>Sessions for ${escapeHtml(user?.username ?? 'user')}</h3>
+                    <button class="close-button" id="close-sessions-btn">&times;</button>
                 </div>
                 <div class="modal-body">
-                    <p>The following users have started a chat and may need assistance.</p>
-                    <ul class="pending-chat-list">
-                        ${pendingChats.map(chat => `
-                            <li class="pending-chat-item">
-                                <div class="pending-chat-info">
-                                    <strong>${chat.userName} (${chat.unit})</strong>
-                                    <small>Query: "${chat.initialQuery}"</small>
-                                </div>
-                                <div class="pending-chat-actions">
-                                    <button class="btn btn-primary btn-small" data-action="reply-chat" data-chat-id="${chat.id}">Reply Now</button>
-                                    <button class="btn btn-secondary btn-small" data-action="dismiss-chat" data-chat-id="${chat.id}">Dismiss</button>
-                                </div>
-                            </li>
-                        `).join('')}
-                    </ul>
-                </div>
-                <div class="modal-footer">
-                    <button type="button" class="btn btn-secondary" id="close-chat-notification-btn-footer">Close</button>
+                    ${renderSessionList()}
                 </div>
             </div>
         </div>
     `;
 }
 
-function renderUnitManagementModal() {
-    if (!state.isUnitManagementModalOpen) return '';
-
-    const groupedUnits = state.predefinedUnits.reduce((acc, unit) => {
-        if (!acc[unit.block]) {
-            acc[unit.block] = [];
-        }
-        acc[unit.block].push(unit);
-        return acc;
-    }, {} as Record<string, PredefinedUnit[]>);
-
-    const sortedBlocks = Object.keys(groupedUnits).sort();
+function renderAlertsModal() {
+    if (!state.isAlertsModalOpen) return '';
+    const open = openAlerts();
+    if (open.length === 0) return '';
 
     return `
         <div class="modal-overlay visible">
-            <div class="modal-content standard">
+            <div class="modal-content">
                 <div class="modal-header">
-                    <h3>Manage Predefined Units</h3>
-                    <button class="close-button" id="close-unit-management-btn">&times;</button>
+                    <h3>Security Alerts</h3>
+                    <button class="close-button" id="close-alerts-modal-btn">&times;</button>
                 </div>
                 <div class="modal-body">
-                    <div class="add-unit-form-container card">
-                        <h4>Add New Unit</h4>
-                        <form id="add-unit-form">
-                            <div class="form-group-row">
-                                <div class="form-group">
-                                    <label for="newUnitBlock">Block</label>
-                                    <input type="text" id="newUnitBlock" class="uppercase-input" placeholder="e.g., A" required>
-                                </div>
-                                <div class="form-group">
-                                    <label for="newUnitHouseNo">House No.</label>
-                                    <input type="text" id="newUnitHouseNo" placeholder="e.g., 101" required>
+                    <ul class="pending-approval-list">
+                        ${open.map(alertRecord => `
+                            <li class="pending-approval-item">
+                                <div class="pending-approval-info">
+                                    <strong>${escapeHtml(alertRecord.visitorName)}</strong>
+                                    <span>${escapeHtml(alertRecord.message)}</span>
+                                    <small>${alertRecord.stage === 'stay' ? 'Overstay' : `At ${escapeHtml(alertRecord.stage)}`}, raised by ${escapeHtml(alertRecord.raisedBy)} ${formatTimeAgo(new Date(alertRecord.createdAt))}</small>
                                 </div>
-                                <button type="submit" class="btn btn-primary">Add</button>
-                            </div>
-                        </form>
-                    </div>
-                    
-                    <div class="unit-list-container">
-                        ${sortedBlocks.length > 0 ? sortedBlocks.map(block => `
-                            <div class="unit-block-group">
-                                <h5 class="unit-block-header">Block ${block}</h5>
-                                <div class="unit-tags-container">
-                                    ${groupedUnits[block].map(unit => `
-                                        <div class="unit-tag">
-                                            <span>${unit.block}-${unit.houseNo}</span>
-                                            <button class="delete-unit-btn" data-block="${unit.block}" data-houseno="${unit.houseNo}" title="Delete unit">&times;</button>
-                                        </div>
-                                    `).join('')}
+                                <div class="pending-approval-actions">
+                                    <button class="btn btn-secondary btn-small" data-alert-id="${alertRecord.id}">Acknowledge</button>
                                 </div>
-                            </div>
-                        `).join('') : '<p class="no-data-message">No units defined. Add one above to get started.</p>'}
-                    </div>
+                            </li>
+                        `).join('')}
+                    </ul>
                 </div>
             </div>
         </div>
     `;
 }
 
-function renderOverviewView() {
-    const totalVisitors = state.visitors.length;
-    const checkedInCount = state.visitors.filter(v => v.status === 'Checked-in').length;
-    const pendingCount = state.visitors.filter(v => v.status === 'Pending').length;
-    const checkedOutToday = state.visitors.filter(v => v.status === 'Checked-out' && v.checkOutTime && new Date(v.checkOutTime).toDateString() === new Date().toDateString()).length;
-
-    const purposeCounts = state.visitors.reduce((acc, v) => {
-        acc[v.purpose] = (acc[v.purpose] || 0) + 1;
-        return acc;
-    }, {} as Record<string, number>);
-
-    const sortedPurposes = Object.entries(purposeCounts).sort(([, a], [, b]) => b - a);
-
-    const checkedInVisitors = state.visitors.filter(v => v.status === 'Checked-in');
-    
-    return `
-        ${renderHeader()}
-        <main class="main-content">
-            <div class="visitors-header">
-                <h2>System Overview</h2>
-                <button id="dashboard-btn" class="btn btn-primary">Back to Dashboard</button>
-            </div>
-
-            <div class="stats-grid">
-                <div class="stat-card" style="border-color: var(--info-color);">
-                    <div class="stat-value">${totalVisitors}</div>
-                    <div class="stat-label">Total Visitors (All Time)</div>
-                </div>
-                <div class="stat-card" style="border-color: var(--success-color);">
-                    <div class="stat-value">${checkedInCount}</div>
-                    <div class="stat-label">Currently Checked-in</div>
-                </div>
-                <div class="stat-card" style="border-color: var(--warning-color);">
-                    <div class="stat-value">${pendingCount}</div>
-                    <div class="stat-label">Pending Approval</div>
-                </div>
-                <div class="stat-card" style="border-color: var(--danger-color);">
-                    <div class="stat-value">${checkedOutToday}</div>
-                    <div class="stat-label">Checked-out Today</div>
-                </div>
-            </div>
-
-            <div class="overview-panels">
-                 <div class="card">
-                    <h3>Currently Checked-in Visitors</h3>
-                    <div class="checked-in-list">
-                        ${checkedInVisitors.length > 0 ? checkedInVisitors.map(v => `
-                            <div class="checked-in-item">
-                                ${v.photo ? `<img src="${v.photo}" alt="${v.name}" class="visitor-avatar visitor-avatar-img">` : `<div class="visitor-avatar" style="background-color: ${getAvatarColor(v.name)};">${getInitials(v.name)}</div>`}
-                                <div class="checked-in-info">
-                                    <strong>${v.name}</strong>
-                                    <small>Visiting ${v.resident}, since ${formatDateTime(v.checkInTime)}</small>
-                                </div>
-                            </div>
-                        `).join('') : '<p class="no-data-message">No visitors are currently checked-in.</p>'}
-                    </div>
-                </div>
-
-                <div class="card">
-                    <h3>Visit Purpose Breakdown</h3>
-                    <div class="purpose-breakdown-list">
-                        ${sortedPurposes.length > 0 ? sortedPurposes.map(([purpose, count]) => `
-                            <div class="purpose-item">
-                                <div class="purpose-label">
-                                    <span>${purpose}</span>
-                                    <span>${count}</span>
-                                </div>
-                                <div class="progress-bar-container">
-                                    <div class="progress-bar-fill" style="width: ${(count / totalVisitors) * 100}%;"></div>
-                                </div>
-                            </div>
-                        `).join('') : '<p class="no-data-message">No visitor data to analyze.</p>'}
-                    </div>
-                </div>
-            </div>
-            
-            <div class="card activity-log-panel">
-                <h3>Recent Activity Log</h3>
-                <div class="activity-log">
-                    ${state.activityLog.length > 0 ? state.activityLog.map(activity => `
-                        <div class="activity-item">
-                            <span>${activity.message}</span>
-                            <span class="activity-time">${formatTimeAgo(activity.timestamp)}</span>
-                        </div>
-                    `).join('') : '<p class="no-data-message">No recent activity.</p>'}
-                </div>
-            </div>
-        </main>
-    `;
-}
-
 function renderChatbot() {
     if (!state.isAuthenticated) return '';
 
@@ -1575,19 +5498,19 @@ function renderChatbot() {
     `;
 
     let chatContent = '';
-    const isViewingAsAdmin = state.viewingChatId !== null && ['Admin', 'Officer'].includes(state.currentUser?.role || '');
+    const isViewingAsAdmin = state.viewingChatId !== null && can(state.currentUser, 'chat.reply');
 
     if (state.chatState === 'pre-form' && !isViewingAsAdmin) {
         let prefilledName = '';
         let prefilledBlock = '';
         let prefilledHouseNo = '';
 
-        if (state.currentUser?.role === 'Resident' && state.currentUser.unitNo) {
+        if (state.currentUser && roleHasUnit(state.currentUser.role) && state.currentUser.unitNo) {
             prefilledName = state.currentUser.username;
-            const unitParts = state.currentUser.unitNo.split('-');
-            if (unitParts.length === 2) {
-                prefilledBlock = unitParts[0];
-                prefilledHouseNo = unitParts[1];
+            const unit = parseUnitNo(state.currentUser.unitNo);
+            if (unit) {
+                prefilledBlock = unit.block;
+                prefilledHouseNo = unit.houseNo;
             }
         }
 
@@ -1600,14 +5523,14 @@ function renderChatbot() {
                     <p style="text-align: center; margin-bottom: 1rem; color: var(--text-color-secondary);">Please confirm your details to start chatting with ResiBot.</p>
                     <div class="form-group">
                         <label for="chat-name">Your Name</label>
-                        <input type="text" id="chat-name" name="chat-name" required value="${prefilledName}">
+                        <input type="text" id="chat-name" name="chat-name" required value="${escapeHtml(prefilledName)}">
                     </div>
                     <div class="form-group-row">
                         <div class="form-group">
                             <label for="chat-block">Block</label>
                             <select id="chat-block" name="chat-block" required>
                                 <option value="">-- Select Block --</option>
-                                ${blockOptions.map(b => `<option value="${b}" ${b === prefilledBlock ? 'selected' : ''}>${b}</option>`).join('')}
+                                ${blockOptions.map(b => `<option value="${escapeHtml(b)}" ${b === prefilledBlock ? 'selected' : ''}>${escapeHtml(b)}</option>`).join('')}
                             </select>
                         </div>
                         <div class="form-group">
@@ -1630,7 +5553,7 @@ function renderChatbot() {
     } else {
         const messagesToShow = state.chatMessages;
         const activeChat = state.pendingChats.find(c => c.id === state.activeChatId || c.id === state.viewingChatId);
-        const isLockedForUser = state.currentUser?.role === 'Resident' && activeChat?.adminReplied;
+        const isLockedForUser = !can(state.currentUser, 'chat.reply') && activeChat?.adminReplied;
 
         let footerHTML = '';
 
@@ -1663,9 +5586,9 @@ function renderChatbot() {
         chatContent = `
             <div class="chat-body" id="chat-body-messages">
                 ${messagesToShow.map(msg => `
-                    <div class="message ${msg.sender}">
-                         <div class="message-sender-label">${msg.sender}</div>
-                        <div class="message-text">${msg.text.replace(/\n/g, '<br>')}</div>
+                    <div class="message ${escapeHtml(msg.sender)}">
+                         <div class="message-sender-label">${escapeHtml(msg.sender)}</div>
+                        <div class="message-text">${escapeHtml(msg.text).replace(/\n/g, '<br>')}</div>
                     </div>
                 `).join('')}
                 ${state.isBotTyping && !isViewingAsAdmin ? `
@@ -1686,7 +5609,7 @@ function renderChatbot() {
     const chatWindow = `
         <div class="chat-window ${state.isChatOpen ? 'open' : ''}">
             <div class="chat-header">
-                <h3>${isViewingAsAdmin ? `Replying to ${state.pendingChats.find(c=>c.id === state.viewingChatId)?.userName || 'User'}` : 'ResiBot Assistant'}</h3>
+                <h3>${isViewingAsAdmin ? `Replying to ${escapeHtml(state.pendingChats.find(c=>c.id === state.viewingChatId)?.userName || 'User')}` : 'ResiBot Assistant'}</h3>
                 <button class="close-button" id="close-chat-btn">&times;</button>
             </div>
             ${chatContent}
@@ -1717,6 +5640,10 @@ function render() {
     let viewHtml = '';
     if (!state.isAuthenticated || !state.currentUser) {
         viewHtml = renderLoginPage();
+    } else if (state.currentUser.mustChangePassword) {
+        viewHtml = renderAccountView();
+    } else if (state.currentUser.mustSetUpTwoFactor) {
+        viewHtml = renderTwoFactorRequiredView();
     } else {
         switch (state.currentView) {
             case 'dashboard':
@@ -1725,6 +5652,12 @@ function render() {
             case 'overview':
                 viewHtml = renderOverviewView();
                 break;
+            case 'scanner':
+                viewHtml = renderScannerView();
+                break;
+            case 'account':
+                viewHtml = renderAccountView();
+                break;
             default:
                 viewHtml = renderDashboardView();
         }
@@ -1738,16 +5671,42 @@ function render() {
         ${renderVisitorFormModal()}
         ${renderCompanySetupModal()}
         ${renderUserRoleModal()}
+        ${renderAddUserModal()}
         ${renderEditUserModal()}
         ${renderUnitManagementModal()}
         ${renderApprovalModal()}
         ${renderChatNotificationModal()}
+        ${renderPassModal()}
+        ${renderScheduleModal()}
+        ${renderVisitHistoryModal()}
+        ${renderWatchlistModal()}
+        ${renderAlertsModal()}
+        ${renderStayPolicyModal()}
+        ${renderRolesModal()}
+        ${renderPasswordPolicyModal()}
+        ${renderSessionsModal()}
+        ${renderRecoveryCodesModal()}
+        ${renderParkingModal()}
+        ${renderExportModal()}
+        ${renderBayPickerModal()}
     `;
     
     attachEventListeners();
 }
 
+let gridScrollObserver: IntersectionObserver | null = null;
+
 function attachGridEventListeners() {
+    // Infinite scroll: the next page loads as the end of the grid comes into view.
+    gridScrollObserver?.disconnect();
+    const sentinel = document.getElementById('visitor-grid-sentinel');
+    if (sentinel) {
+        gridScrollObserver = new IntersectionObserver(entries => {
+            if (entries.some(entry => entry.isIntersecting) && !state.isLoadingVisitors) loadVisitorPage(true);
+        }, { rootMargin: '400px' });
+        gridScrollObserver.observe(sentinel);
+    }
+
     const grid = document.querySelector('.visitor-grid');
     if (grid) {
         grid.addEventListener('click', (event) => {
@@ -1763,6 +5722,8 @@ function attachGridEventListeners() {
             if (action === 'check-in') handleCheckIn(id);
             if (action === 'check-out') handleCheckOut(id);
             if (action === 'edit') handleEditClick(id);
+            if (action === 'pass') handleShowPass(id);
+            if (action === 'history') handleShowHistory(id);
         });
     }
 }
@@ -1771,19 +5732,108 @@ function attachEventListeners() {
     // Login/Logout
     const loginForm = document.getElementById('login-form');
     if (loginForm) loginForm.addEventListener('submit', handleLoginSubmit);
+    const inviteForm = document.getElementById('invite-form');
+    if (inviteForm) inviteForm.addEventListener('submit', handleInviteSubmit);
+    const showInviteLink = document.getElementById('show-invite-link');
+    if (showInviteLink) showInviteLink.addEventListener('click', (e) => { e.preventDefault(); handleShowInviteForm(true); });
+    const showLoginLink = document.getElementById('show-login-link');
+    if (showLoginLink) showLoginLink.addEventListener('click', (e) => { e.preventDefault(); handleShowInviteForm(false); });
 
     const logoutBtn = document.getElementById('logout-btn');
     if (logoutBtn) logoutBtn.addEventListener('click', handleLogout);
+    const logoutLink = document.getElementById('logout-link');
+    if (logoutLink) logoutLink.addEventListener('click', (e) => { e.preventDefault(); handleLogout(); });
+
+    // Passwords
+    const accountBtn = document.getElementById('account-btn');
+    if (accountBtn) accountBtn.addEventListener('click', handleAccountClick);
+    const changePasswordForm = document.getElementById('change-password-form');
+    if (changePasswordForm) changePasswordForm.addEventListener('submit', handleChangePasswordSubmit);
+    const rolesBtn = document.getElementById('roles-btn');
+    if (rolesBtn) rolesBtn.addEventListener('click', handleRolesClick);
+    const closeRolesBtn = document.getElementById('close-roles-btn');
+    if (closeRolesBtn) closeRolesBtn.addEventListener('click', handleCloseRolesModal);
+    const roleEditorSelect = document.getElementById('role-editor-select') as HTMLSelectElement | null;
+    if (roleEditorSelect) roleEditorSelect.addEventListener('change', () => setState({ editingRoleName: roleEditorSelect.value }));
+    const roleForm = document.getElementById('role-form');
+    if (roleForm) roleForm.addEventListener('submit', handleRoleSubmit);
+    const addRoleForm = document.getElementById('add-role-form');
+    if (addRoleForm) addRoleForm.addEventListener('submit', handleAddRoleSubmit);
+    const deleteRoleBtn = document.getElementById('delete-role-btn');
+    if (deleteRoleBtn) deleteRoleBtn.addEventListener('click', () => handleDeleteRole(deleteRoleBtn.dataset.role || ''));
+
+    const passwordPolicyBtn = document.getElementById('password-policy-btn');
+    if (passwordPolicyBtn) passwordPolicyBtn.addEventListener('click', handlePasswordPolicyClick);
+    const closePasswordPolicyBtn = document.getElementById('close-password-policy-btn');
+    if (closePasswordPolicyBtn) closePasswordPolicyBtn.addEventListener('click', handleClosePasswordPolicyModal);
+    const cancelPasswordPolicyBtn = document.getElementById('cancel-password-policy-btn');
+    if (cancelPasswordPolicyBtn) cancelPasswordPolicyBtn.addEventListener('click', handleClosePasswordPolicyModal);
+    const passwordPolicyForm = document.getElementById('password-policy-form');
+    if (passwordPolicyForm) passwordPolicyForm.addEventListener('submit', handlePasswordPolicySubmit);
+
+    // Sessions
+    document.querySelectorAll('.revoke-session-btn').forEach(btn => btn.addEventListener('click', (e) => handleRevokeSessions((e.currentTarget as HTMLElement).dataset.sessionId)));
+    const revokeAllSessionsBtn = document.getElementById('revoke-all-sessions-btn');
+    if (revokeAllSessionsBtn) revokeAllSessionsBtn.addEventListener('click', () => handleRevokeSessions());
+    document.querySelectorAll('.user-sessions-btn').forEach(btn => btn.addEventListener('click', (e) => handleOpenSessionsModal(parseInt((e.currentTarget as HTMLElement).dataset.userid || ''))));
+    const closeSessionsBtn = document.getElementById('close-sessions-btn');
+    if (closeSessionsBtn) closeSessionsBtn.addEventListener('click', handleCloseSessionsModal);
+
+    // Two-factor authentication
+    const twoFactorLoginForm = document.getElementById('two-factor-login-form');
+    if (twoFactorLoginForm) twoFactorLoginForm.addEventListener('submit', handleTwoFactorLoginSubmit);
+    const cancelTwoFactorLink = document.getElementById('cancel-two-factor-link');
+    if (cancelTwoFactorLink) cancelTwoFactorLink.addEventListener('click', (e) => { e.preventDefault(); handleCancelTwoFactorLogin(); });
+    const startTwoFactorBtn = document.getElementById('start-two-factor-btn');
+    if (startTwoFactorBtn) startTwoFactorBtn.addEventListener('click', handleStartTwoFactorSetup);
+    const cancelTwoFactorSetupBtn = document.getElementById('cancel-two-factor-setup-btn');
+    if (cancelTwoFactorSetupBtn) cancelTwoFactorSetupBtn.addEventListener('click', handleCancelTwoFactorSetup);
+    const twoFactorSetupForm = document.getElementById('two-factor-setup-form');
+    if (twoFactorSetupForm) twoFactorSetupForm.addEventListener('submit', handleTwoFactorSetupSubmit);
+    const newRecoveryCodesBtn = document.getElementById('new-recovery-codes-btn');
+    if (newRecoveryCodesBtn) newRecoveryCodesBtn.addEventListener('click', handleNewRecoveryCodes);
+    const disableTwoFactorBtn = document.getElementById('disable-two-factor-btn');
+    if (disableTwoFactorBtn) disableTwoFactorBtn.addEventListener('click', handleDisableTwoFactor);
+    const closeRecoveryCodesBtn = document.getElementById('close-recovery-codes-btn');
+    if (closeRecoveryCodesBtn) closeRecoveryCodesBtn.addEventListener('click', handleCloseRecoveryCodes);
+    document.querySelectorAll('.reset-two-factor-btn').forEach(btn => btn.addEventListener('click', (e) => handleResetTwoFactor(parseInt((e.currentTarget as HTMLElement).dataset.userid || ''))));
 
     // Main Navigation
     const overviewBtn = document.getElementById('overview-btn');
     if (overviewBtn) overviewBtn.addEventListener('click', handleOverviewClick);
+    const auditFilterForm = document.getElementById('audit-filter-form');
+    if (auditFilterForm) {
+        auditFilterForm.addEventListener('change', handleAuditFilterChange);
+        auditFilterForm.addEventListener('submit', handleAuditFilterChange);
+    }
+    const auditLoadMoreBtn = document.getElementById('audit-load-more-btn');
+    if (auditLoadMoreBtn) auditLoadMoreBtn.addEventListener('click', () => loadAuditLog(true));
+
     const dashboardBtn = document.getElementById('dashboard-btn');
     if (dashboardBtn) dashboardBtn.addEventListener('click', handleDashboardClick);
+    const exportBtn = document.getElementById('export-btn');
+    if (exportBtn) exportBtn.addEventListener('click', handleExportClick);
+    const closeExportBtn = document.getElementById('close-export-modal-btn');
+    if (closeExportBtn) closeExportBtn.addEventListener('click', handleCloseExportModal);
+    const cancelExportBtn = document.getElementById('cancel-export-btn');
+    if (cancelExportBtn) cancelExportBtn.addEventListener('click', handleCloseExportModal);
+    const exportForm = document.getElementById('export-form');
+    if (exportForm) exportForm.addEventListener('submit', handleExportSubmit);
     
     // Search
     const searchInput = document.getElementById('search-input');
     if (searchInput) searchInput.addEventListener('input', handleSearch);
+    document.querySelectorAll('.filter-chip[data-status]').forEach(chip => {
+        chip.addEventListener('click', (e) => handleStatusChipClick((e.currentTarget as HTMLElement).dataset.status ?? ''));
+    });
+    document.querySelectorAll('[data-clear-filter]').forEach(button => {
+        button.addEventListener('click', (e) => handleClearVisitorFilter((e.currentTarget as HTMLElement).dataset.clearFilter as keyof VisitorFilters | 'all'));
+    });
+    const visitorFilterForm = document.getElementById('visitor-filter-form');
+    if (visitorFilterForm) {
+        visitorFilterForm.addEventListener('change', handleVisitorFilterChange);
+        visitorFilterForm.addEventListener('submit', handleVisitorFilterChange);
+    }
 
     // Visitor Registration
     const registerVisitorBtn = document.getElementById('register-visitor-btn');
@@ -1792,6 +5842,8 @@ function attachEventListeners() {
     // Visitor Form Modal
     const visitorForm = document.getElementById('visitor-form');
     if (visitorForm) visitorForm.addEventListener('submit', handleFormSubmit);
+    const contactInput = document.getElementById('contact');
+    if (contactInput) contactInput.addEventListener('change', handleContactChange);
 
     const closeModalBtn = document.getElementById('close-modal-btn');
     if (closeModalBtn) closeModalBtn.addEventListener('click', handleCloseModal);
@@ -1811,6 +5863,10 @@ function attachEventListeners() {
     }
 
     // Camera
+    const scanIdBtn = document.getElementById('scan-id-btn');
+    if (scanIdBtn) scanIdBtn.addEventListener('click', handleScanId);
+    const readPlateBtn = document.getElementById('read-plate-btn');
+    if (readPlateBtn) readPlateBtn.addEventListener('click', handleReadPlate);
     const cameraActionBtn = document.getElementById('camera-action-btn');
     if (cameraActionBtn) cameraActionBtn.addEventListener('click', handleCameraAction);
 
@@ -1848,6 +5904,29 @@ function attachEventListeners() {
     document.querySelectorAll('.role-select').forEach(sel => sel.addEventListener('change', handleRoleChange));
     document.querySelectorAll('.edit-user-btn').forEach(btn => btn.addEventListener('click', (e) => handleOpenEditUserModal(parseInt((e.currentTarget as HTMLElement).dataset.userid || ''))));
     document.querySelectorAll('.delete-user-btn').forEach(btn => btn.addEventListener('click', (e) => handleDeleteUser(parseInt((e.currentTarget as HTMLElement).dataset.userid || ''))));
+    document.querySelectorAll('.reissue-invite-btn').forEach(btn => btn.addEventListener('click', (e) => handleReissueInvite(parseInt((e.currentTarget as HTMLElement).dataset.userid || ''))));
+    const dismissInviteBtn = document.getElementById('dismiss-invite-btn');
+    if (dismissInviteBtn) dismissInviteBtn.addEventListener('click', handleDismissInvite);
+
+    // Add User Modal
+    const addUserBtn = document.getElementById('add-user-btn');
+    if (addUserBtn) addUserBtn.addEventListener('click', handleAddUserClick);
+    const closeAddUserBtn = document.getElementById('close-add-user-btn');
+    if (closeAddUserBtn) closeAddUserBtn.addEventListener('click', handleCloseAddUserModal);
+    const cancelAddUserBtn = document.getElementById('cancel-add-user-btn');
+    if (cancelAddUserBtn) cancelAddUserBtn.addEventListener('click', handleCloseAddUserModal);
+    const addUserForm = document.getElementById('add-user-form') as HTMLFormElement | null;
+    if (addUserForm) {
+        addUserForm.addEventListener('submit', handleAddUserSubmit);
+        // The unit only applies to roles that belong to one, and the password fields only when not sending an invite.
+        addUserForm.addEventListener('change', () => {
+            const formData = new FormData(addUserForm);
+            const unitGroup = document.getElementById('add-user-unit-group');
+            if (unitGroup) unitGroup.style.display = roleHasUnit(formData.get('role') as string) ? '' : 'none';
+            const passwordGroup = document.getElementById('add-user-password-group');
+            if (passwordGroup) passwordGroup.style.display = formData.get('setup') === 'invite' ? 'none' : '';
+        });
+    }
 
 
     // Edit User Modal
@@ -1866,6 +5945,16 @@ function attachEventListeners() {
 
     const addUnitForm = document.getElementById('add-unit-form');
     if (addUnitForm) addUnitForm.addEventListener('submit', handleAddUnitSubmit);
+    const unitImportFile = document.getElementById('unit-import-file');
+    if (unitImportFile) unitImportFile.addEventListener('change', handleUnitImportFileChange);
+    const confirmUnitImportBtn = document.getElementById('confirm-unit-import-btn');
+    if (confirmUnitImportBtn) confirmUnitImportBtn.addEventListener('click', handleConfirmUnitImport);
+    const cancelUnitImportBtn = document.getElementById('cancel-unit-import-btn');
+    if (cancelUnitImportBtn) cancelUnitImportBtn.addEventListener('click', handleCancelUnitImport);
+    const unitImportRole = document.getElementById('unit-import-role') as HTMLSelectElement | null;
+    if (unitImportRole) unitImportRole.addEventListener('change', () => {
+        if (state.unitImport) state.unitImport.role = unitImportRole.value;
+    });
     
     document.querySelectorAll('.delete-unit-btn').forEach(btn => {
         btn.addEventListener('click', (e) => {
@@ -1874,6 +5963,116 @@ function attachEventListeners() {
         });
     });
 
+    // Scheduled Visits
+    const schedulesBtn = document.getElementById('schedules-btn');
+    if (schedulesBtn) schedulesBtn.addEventListener('click', handleScheduleModalClick);
+    const closeScheduleBtn = document.getElementById('close-schedule-modal-btn');
+    if (closeScheduleBtn) closeScheduleBtn.addEventListener('click', handleCloseScheduleModal);
+    const addScheduleForm = document.getElementById('add-schedule-form');
+    if (addScheduleForm) {
+        addScheduleForm.addEventListener('submit', handleAddScheduleSubmit);
+        // Weekdays only apply to weekly schedules.
+        addScheduleForm.querySelectorAll('input[name="schedule-kind"]').forEach(radio => {
+            radio.addEventListener('change', (e) => {
+                const daysGroup = document.getElementById('schedule-days-group');
+                if (daysGroup) daysGroup.style.display = (e.target as HTMLInputElement).value === 'weekly' ? '' : 'none';
+            });
+        });
+    }
+    const scheduleBlockSelect = document.getElementById('schedule-block') as HTMLSelectElement;
+    if (scheduleBlockSelect) {
+        scheduleBlockSelect.addEventListener('change', () => {
+            const houseNoSelect = document.getElementById('schedule-houseNo') as HTMLSelectElement;
+            if (houseNoSelect) {
+                houseNoSelect.innerHTML = getHouseNoOptionsHTML(scheduleBlockSelect.value);
+                houseNoSelect.disabled = !scheduleBlockSelect.value;
+            }
+        });
+    }
+    document.querySelectorAll('.delete-schedule-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => handleDeleteSchedule(Number((e.currentTarget as HTMLElement).dataset.scheduleId)));
+    });
+    const expectedList = document.querySelector('.expected-list');
+    if (expectedList) {
+        expectedList.addEventListener('click', (event) => {
+            const button = (event.target as HTMLElement).closest('button');
+            if (button?.dataset.scheduleId) handleScheduledArrival(Number(button.dataset.scheduleId));
+        });
+    }
+
+    // Stay Limits
+    const stayPolicyBtn = document.getElementById('stay-policy-btn');
+    if (stayPolicyBtn) stayPolicyBtn.addEventListener('click', handleStayPolicyClick);
+    const closeStayPolicyBtn = document.getElementById('close-stay-policy-btn');
+    if (closeStayPolicyBtn) closeStayPolicyBtn.addEventListener('click', handleCloseStayPolicyModal);
+    const cancelStayPolicyBtn = document.getElementById('cancel-stay-policy-btn');
+    if (cancelStayPolicyBtn) cancelStayPolicyBtn.addEventListener('click', handleCloseStayPolicyModal);
+    const stayPolicyForm = document.getElementById('stay-policy-form');
+    if (stayPolicyForm) stayPolicyForm.addEventListener('submit', handleStayPolicySubmit);
+
+    // Parking
+    const parkingBtn = document.getElementById('parking-btn');
+    if (parkingBtn) parkingBtn.addEventListener('click', handleParkingClick);
+    const closeParkingBtn = document.getElementById('close-parking-modal-btn');
+    if (closeParkingBtn) closeParkingBtn.addEventListener('click', handleCloseParkingModal);
+    const plateLookupForm = document.getElementById('plate-lookup-form');
+    if (plateLookupForm) plateLookupForm.addEventListener('submit', handlePlateLookup);
+    const addBaysForm = document.getElementById('add-bays-form');
+    if (addBaysForm) addBaysForm.addEventListener('submit', handleAddBaysSubmit);
+    document.querySelectorAll('.delete-bay-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => handleDeleteBay((e.currentTarget as HTMLElement).dataset.bayId!));
+    });
+    const addVehicleForm = document.getElementById('add-vehicle-form');
+    if (addVehicleForm) addVehicleForm.addEventListener('submit', handleAddVehicleSubmit);
+    document.querySelectorAll('.delete-vehicle-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => handleDeleteVehicle(Number((e.currentTarget as HTMLElement).dataset.vehicleId)));
+    });
+    const bayPickerForm = document.getElementById('bay-picker-form');
+    if (bayPickerForm) bayPickerForm.addEventListener('submit', handleBayPickerSubmit);
+    const closeBayPickerBtn = document.getElementById('close-bay-picker-btn');
+    if (closeBayPickerBtn) closeBayPickerBtn.addEventListener('click', handleCloseBayPicker);
+    const cancelBayPickerBtn = document.getElementById('cancel-bay-picker-btn');
+    if (cancelBayPickerBtn) cancelBayPickerBtn.addEventListener('click', handleCloseBayPicker);
+
+    // Watchlist and Alerts
+    const watchlistBtn = document.getElementById('watchlist-btn');
+    if (watchlistBtn) watchlistBtn.addEventListener('click', handleWatchlistClick);
+    const closeWatchlistBtn = document.getElementById('close-watchlist-modal-btn');
+    if (closeWatchlistBtn) closeWatchlistBtn.addEventListener('click', handleCloseWatchlistModal);
+    const addWatchlistForm = document.getElementById('add-watchlist-form');
+    if (addWatchlistForm) addWatchlistForm.addEventListener('submit', handleAddWatchlistSubmit);
+    document.querySelectorAll('.delete-watchlist-btn').forEach(btn => {
+        btn.addEventListener('click', (e) => handleDeleteWatchlistEntry(Number((e.currentTarget as HTMLElement).dataset.watchlistId)));
+    });
+    const alertsBtn = document.getElementById('alerts-btn');
+    if (alertsBtn) alertsBtn.addEventListener('click', handleAlertsClick);
+    const closeAlertsBtn = document.getElementById('close-alerts-modal-btn');
+    if (closeAlertsBtn) closeAlertsBtn.addEventListener('click', handleCloseAlertsModal);
+    document.querySelectorAll('[data-alert-id]').forEach(btn => {
+        btn.addEventListener('click', (e) => handleAcknowledgeAlert(Number((e.currentTarget as HTMLElement).dataset.alertId)));
+    });
+
+    // Visit History Modal
+    const closeHistoryBtn = document.getElementById('close-history-modal-btn');
+    if (closeHistoryBtn) closeHistoryBtn.addEventListener('click', handleCloseHistoryModal);
+    const newVisitBtn = document.getElementById('new-visit-btn');
+    if (newVisitBtn) newVisitBtn.addEventListener('click', handleNewVisitFromHistory);
+
+    // Visitor Pass Modal
+    const closePassBtn = document.getElementById('close-pass-modal-btn');
+    if (closePassBtn) closePassBtn.addEventListener('click', handleClosePassModal);
+    const downloadPassPngBtn = document.getElementById('download-pass-png-btn');
+    if (downloadPassPngBtn) downloadPassPngBtn.addEventListener('click', () => handleDownloadPass('png'));
+    const downloadPassPdfBtn = document.getElementById('download-pass-pdf-btn');
+    if (downloadPassPdfBtn) downloadPassPdfBtn.addEventListener('click', () => handleDownloadPass('pdf'));
+
+    // Gate Scanner
+    const scannerBtn = document.getElementById('scanner-btn');
+    if (scannerBtn) scannerBtn.addEventListener('click', handleScannerClick);
+    // Re-renders replace the video element, so hand the running stream to the new one.
+    const scannerVideo = document.getElementById('scanner-video') as HTMLVideoElement | null;
+    if (scannerVideo && state.cameraStream) scannerVideo.srcObject = state.cameraStream;
+
     // Approval Modal
     const closeApprovalBtn = document.getElementById('close-approval-modal-btn');
     if (closeApprovalBtn) closeApprovalBtn.addEventListener('click', handleCloseApprovalModal);
@@ -1951,54 +6150,83 @@ function attachEventListeners() {
     attachGridEventListeners();
 }
 
+// The visits the gate screens work from: every open visit plus today's. Older history is paged in by the dashboard.
+async function fetchCurrentVisitors(): Promise<Visitor[]> {
+    const startOfToday = new Date();
+    startOfToday.setHours(0, 0, 0, 0);
+    const [open, today] = await Promise.all([
+        apiRequest<VisitorPage>(`/api/visitors?status=Pending,Approved,Checked-in&limit=${MAX_VISITOR_PAGE_SIZE}`),
+        apiRequest<VisitorPage>(`/api/visitors?from=${encodeURIComponent(startOfToday.toISOString())}&limit=${MAX_VISITOR_PAGE_SIZE}`),
+    ]);
+    return today.visitors.reduce((all, visitor) => upsertRecord(all, visitor), open.visitors);
+}
+
+// Loads everything the signed-in user may see; the server filters each list by their role.
+async function fetchAppData(): Promise<Partial<typeof state>> {
+    const [visitors, users, roles, companyInfo, predefinedUnits, pendingChats, schedules, profiles, watchlist, alerts, stayPolicy, passwordPolicy, bays, vehicles] = await Promise.all([
+        fetchCurrentVisitors(),
+        apiRequest<User[]>('/api/users'),
+        apiRequest<Role[]>('/api/roles'),
+        apiRequest<CompanyInfo>('/api/company'),
+        apiRequest<PredefinedUnit[]>('/api/units'),
+        apiRequest<PendingChat[]>('/api/chats'),
+        apiRequest<VisitSchedule[]>('/api/schedules'),
+        apiRequest<VisitorProfile[]>('/api/profiles'),
+        apiRequest<WatchlistEntry[]>('/api/watchlist'),
+        apiRequest<SecurityAlert[]>('/api/alerts'),
+        apiRequest<StayPolicy>('/api/stay-policy'),
+        apiRequest<PasswordPolicy>('/api/password-policy'),
+        apiRequest<ParkingBay[]>('/api/parking'),
+        apiRequest<ResidentVehicle[]>('/api/vehicles'),
+    ]);
+
+    // Data from server is the source of truth
+    return { visitors, users, roles, companyInfo, predefinedUnits, pendingChats, schedules, profiles, watchlist, alerts, stayPolicy, passwordPolicy, bays, vehicles };
+}
+
 async function init() {
     setState({ isLoadingData: true });
     let finalStateUpdate: Partial<typeof state>;
+    let user: User | null = null;
 
     try {
-        const response = await fetch('/api/data');
-        if (!response.ok) {
-            throw new Error(`Server responded with ${response.status}`);
-        }
-        const data = await response.json();
-
-        // Data from server is the source of truth
-        finalStateUpdate = {
-            visitors: data.visitors ?? mockVisitors,
-            users: data.users ?? mockUsers,
-            companyInfo: data.companyInfo ?? defaultCompanyInfo,
-            predefinedUnits: data.predefinedUnits ?? mockUnits,
-            pendingChats: data.pendingChats ?? [],
-            sessions: data.sessions ?? {},
-        };
-        
+        // The API only serves data to a logged-in session, so find out who that is first.
+        user = await fetchSessionUser();
+        // Someone who must change their password or set up two-factor gets nothing else until they have.
+        finalStateUpdate = !user ? {} : needsAccountSetup(user) ? await fetchPasswordPolicy() : await fetchAppData();
     } catch (error) {
         console.error("Could not load data from server, falling back to local mocks.", error);
+        user = null;
         // Fallback to local mocks if API fails, this provides an offline mode
         finalStateUpdate = {
             visitors: mockVisitors,
             users: mockUsers,
+            roles: defaultRoles,
             companyInfo: defaultCompanyInfo,
             predefinedUnits: mockUnits,
             pendingChats: [],
-            sessions: {},
+            schedules: [],
+            profiles: [],
+            watchlist: [],
+            alerts: [],
+            stayPolicy: defaultStayPolicy,
+            passwordPolicy: defaultPasswordPolicy,
+            bays: [],
+            vehicles: [],
+            isOfflineMode: true,
             loginError: 'Failed to connect to server. Using sample data.'
         };
     }
 
     // Session logic operates on the data we just fetched or mocked
     const tempState = { ...state, ...finalStateUpdate };
-    const sessionId = sessionStorage.getItem('sessionId');
-    const userId = sessionId ? tempState.sessions[sessionId] : null;
-    const user = userId ? tempState.users.find(u => u.id === userId) : null;
 
     if (user) {
-        const pendingVisitorsExist = tempState.visitors.some(v => v.status === 'Pending');
-        const shouldShowApprovalModal = ['Admin', 'Officer'].includes(user.role) && pendingVisitorsExist;
+        const shouldShowApprovalModal = visitorsAwaitingDecision(user, tempState.visitors, tempState.roles).length > 0;
         const pendingChatsExist = tempState.pendingChats.some(c => !c.dismissed);
-        const shouldShowChatModal = ['Admin', 'Officer'].includes(user.role) && pendingChatsExist;
+        const shouldShowChatModal = can(user, 'chat.reply', tempState.roles) && pendingChatsExist;
         let userActiveChatId: number | null = null;
-        if (user.role === 'Resident') {
+        if (!can(user, 'chat.reply', tempState.roles)) {
             const theirChats = tempState.pendingChats
                 .filter(c => c.userId === user.id && !c.adminReplied && !c.dismissed)
                 .sort((a, b) => b.id - a.id);
@@ -2018,11 +6246,15 @@ async function init() {
             isChatNotificationModalOpen: shouldShowChatModal,
             activeChatId: userActiveChatId,
         };
-    } else if (sessionId) {
-        sessionStorage.removeItem('sessionId');
     }
     
     setState({ ...finalStateUpdate, isLoadingData: false });
+    if (user && !needsAccountSetup(user)) {
+        connectLiveUpdates();
+        startApprovalWatch();
+        showOpenAlerts();
+        loadVisitorPage();
+    }
 }
 
 
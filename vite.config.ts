@@ -6,7 +6,9 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.PLATE_READER': JSON.stringify(env.PLATE_READER),
+        'process.env.ID_READER': JSON.stringify(env.ID_READER)
       },
       resolve: {
         alias: {